@@ -13,6 +13,8 @@ import { TokenProviderModal } from './modals/TokenProvider.js';
 import { HistoryPanel } from './HistoryPanel.js';
 import { SavedRequestsPanel } from './SavedRequestsPanel.js';
 import { VariablesManager } from './modals/VariablesManager.js';
+import { SecretsManager } from './modals/SecretsManager.js';
+import { secretsConfigured, secretsUnlocked } from '../lib/secrets.js';
 
 export function App() {
   const { state, dispatch } = useApp();
@@ -24,6 +26,11 @@ export function App() {
   // Load spec if source was provided via CLI
   useSpec(state.specSource);
 
+  // Stored secrets that weren't unlocked from the environment — ask for the passphrase up front
+  useEffect(() => {
+    if (secretsConfigured() && !secretsUnlocked()) dispatch({ type: 'OPEN_MODAL', modal: 'secrets' });
+  }, []);
+
   useInput((input, key) => {
     // Block global shortcuts whenever a TextInput has focus
     if (
@@ -56,6 +63,10 @@ export function App() {
       dispatch({ type: 'OPEN_MODAL', modal: 'variables' });
       return;
     }
+    if (input === 'k') {
+      dispatch({ type: 'OPEN_MODAL', modal: 'secrets' });
+      return;
+    }
     if (key.tab) {
       if (state.activePanel === 'sidebar') {
         dispatch({ type: 'SET_ACTIVE_PANEL', panel: 'detail' });
@@ -138,6 +149,16 @@ export function App() {
     );
   }
 
+  if (state.activeModal === 'secrets') {
+    return (
+      <Box flexDirection="column" height={termHeight}>
+        <Header />
+        <SecretsManager />
+        <Footer />
+      </Box>
+    );
+  }
+
   return (
     <Box flexDirection="column" height={termHeight}>
       <Header />
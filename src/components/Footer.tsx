@@ -38,6 +38,7 @@ export function Footer() {
     { key: 'o', label: 'Spec' },
     { key: 'e', label: 'Env' },
     { key: 'v', label: 'Vars' },
+    { key: 'k', label: 'Secrets' },
     { key: 'q', label: 'Quit' },
   ];
 
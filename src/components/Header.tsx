@@ -1,7 +1,9 @@
-import React from 'react';
+import React, { useEffect, useState } from 'react';
 import { Box, Text } from 'ink';
-import { useApp, useActiveEnvironment } from '../context/AppContext.js';
-import { hasTokenCached } from '../lib/executor.js';
+import { useApp, useActiveEnvironment, useSelectedServerUrl } from '../context/AppContext.js';
+import { envBaseUrl, hasServerChoice, serverLabel } from '../lib/servers.js';
+import { hasTokenCached, tokenTimeToExpiry, formatTimeToExpiry } from '../lib/token-cache.js';
+import { secretsUnlocked } from '../lib/secrets.js';
 
 export function Header() {
   const { state } = useApp();
@@ -15,11 +17,27 @@ export function Header() {
     : 'No spec';
 
   const envLabel = activeEnv ? activeEnv.name : 'No env';
+
+  // Server picked in the request form — only relevant when the env doesn't fix the URL
+  const serverUrl = useSelectedServerUrl();
+  const showServer = Boolean(state.spec && hasServerChoice(state.spec.servers) && !(activeEnv && envBaseUrl(activeEnv)));
+  const serverText = serverLabel(state.spec?.servers[state.selectedServer.index], serverUrl);
   const varCount = activeEnv ? Object.keys(activeEnv.variables).length : 0;
+  // Secret values are never shown here — only whether they can be used
+  const secretCount = activeEnv?.secrets?.length ?? 0;
   const title = state.spec?.title ? ` | ${state.spec.title} v${state.spec.version}` : '';
 
-  const hasProvider = Boolean(activeEnv?.tokenProvider);
+  const hasProvider = Boolean(activeEnv?.tokenProvider || activeEnv?.oauth2);
   const tokenCached = activeEnv ? hasTokenCached(activeEnv.name) : false;
+  const ttl = activeEnv ? tokenTimeToExpiry(activeEnv.name) : null;
+
+  // Tick so the time-to-expiry countdown stays current
+  const [, setTick] = useState(0);
+  useEffect(() => {
+    if (!hasProvider) return;
+    const t = setInterval(() => setTick((n) => n + 1), 5000);
+    return () => clearInterval(t);
+  }, [hasProvider]);
 
   return (
     <Box borderStyle="single" borderBottom paddingX={1} justifyContent="space-between">
@@ -30,17 +48,31 @@ export function Header() {
       <Box>
         <Text color="yellow">{'Spec: '}</Text>
         <Text>{specLabel}</Text>
+        {showServer && (
+          <Text>
+            <Text color="yellow">{'  Server: '}</Text>
+            <Text>{serverText.length > 28 ? serverText.slice(0, 27) + '…' : serverText}</Text>
+          </Text>
+        )}
         <Text color="yellow">{'  Env: '}</Text>
         <Text color={activeEnv ? 'green' : 'gray'}>{envLabel}</Text>
         {varCount > 0 && (
           <Text color="cyan">{` (${varCount} var${varCount === 1 ? '' : 's'})`}</Text>
         )}
+        {secretCount > 0 && (
+          secretsUnlocked()
+            ? <Text color="green">{` 🔓${secretCount}`}</Text>
+            : <Text color="yellow">{` 🔒${secretCount} locked [k]`}</Text>
+        )}
         {hasProvider && (
           <Text>
             <Text color="gray">{'  '}</Text>
             {tokenCached
-              ? <Text color="green">{'⚡✓'}</Text>
+              ? <Text color={ttl !== null && ttl < 60_000 ? 'yellow' : 'green'}>{'⚡✓'}</Text>
               : <Text color="yellow">{'⚡'}</Text>}
+            {ttl !== null && (
+              <Text color={ttl < 60_000 ? 'yellow' : 'gray'}>{' ' + formatTimeToExpiry(ttl)}</Text>
+            )}
           </Text>
         )}
       </Box>
@@ -68,10 +68,15 @@ export function HistoryPanel({ height }: { height: number }) {
     preFillFormCache(entry.endpointId, {
       pathValues: entry.values.pathParams,
       queryValues: entry.values.queryParams,
+      headerValues: entry.values.headerParams,
+      cookieValues: entry.values.cookieParams,
       headersStr: Object.keys(entry.values.headers).length > 0
         ? JSON.stringify(entry.values.headers)
         : '',
       bodyFieldValues: entry.bodyFieldValues,
+      contentType: entry.values.contentType,
+      seed: entry.seed,
+      requestVars: entry.values.variables,
     });
 
     // Navigate to the endpoint and open request form
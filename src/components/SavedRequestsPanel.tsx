@@ -56,10 +56,16 @@ export function SavedRequestsPanel({ height }: { height: number }) {
     preFillFormCache(entry.endpointId, {
       pathValues: entry.values.pathParams,
       queryValues: entry.values.queryParams,
+      headerValues: entry.values.headerParams,
+      cookieValues: entry.values.cookieParams,
       headersStr: Object.keys(entry.values.headers).length > 0
         ? JSON.stringify(entry.values.headers)
         : '',
       bodyFieldValues: entry.bodyFieldValues,
+      contentType: entry.values.contentType,
+      seed: entry.seed,
+      requestVars: entry.values.variables,
+      savedRequestId: entry.id,
     });
     dispatch({ type: 'SELECT_ENDPOINT', id: entry.endpointId });
     dispatch({ type: 'CLOSE_MODAL_NAVIGATE', panel: 'request' });
@@ -1,6 +1,6 @@
 import React from 'react';
 import { Box, Text, useInput } from 'ink';
-import { useApp, useSelectedEndpoint, useActiveEnvironment } from '../../context/AppContext.js';
+import { useApp, useSelectedEndpoint, useActiveEnvironment, useSelectedServerUrl } from '../../context/AppContext.js';
 import { EndpointInfo } from './EndpointInfo.js';
 import { RequestForm } from './RequestForm.js';
 
@@ -12,8 +12,8 @@ export function DetailPanel({ height }: DetailPanelProps) {
   const { state, dispatch } = useApp();
   const endpoint = useSelectedEndpoint();
   const activeEnv = useActiveEnvironment();
-  // Fallback baseUrl: spec's first server, or empty string
-  const specBaseUrl = state.spec?.servers[0] ?? '';
+  // Fallback baseUrl: the spec server chosen in the picker, or empty string
+  const specBaseUrl = useSelectedServerUrl();
 
   const isDetailFocused = state.activePanel === 'detail';
   const isRequestFocused = state.activePanel === 'request';
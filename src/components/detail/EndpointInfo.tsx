@@ -1,6 +1,9 @@
 import React from 'react';
 import { Box, Text } from 'ink';
 import type { Endpoint } from '../../types/openapi.js';
+import { describeScheme } from '../../lib/security.js';
+import { schemaVariants } from '../../lib/schema-variants.js';
+import { cachedVariantChoices } from './RequestForm.js';
 
 const METHOD_COLORS: Record<string, string> = {
   get: 'green',
@@ -25,7 +28,16 @@ type FieldInfo = {
   indent: number;
 };
 
-function getFieldType(schema: Record<string, unknown>): string {
+/** "Cat | [Dog]" — the variant picked in the request form is bracketed. */
+function variantsLabel(schema: Record<string, unknown>, chosen: number): string | null {
+  const poly = schemaVariants(schema);
+  if (!poly) return null;
+  return poly.options.map((o, i) => (i === chosen ? `[${o.label}]` : o.label)).join(' | ');
+}
+
+function getFieldType(schema: Record<string, unknown>, chosen = 0): string {
+  const variants = variantsLabel(schema, chosen);
+  if (variants) return variants;
   // oneOf with null → pick the non-null type (NestJS nullable pattern)
   if (schema['oneOf']) {
     const variants = schema['oneOf'] as Record<string, unknown>[];
@@ -44,13 +56,25 @@ function getFieldType(schema: Record<string, unknown>): string {
   return 'any';
 }
 
-function extractFields(schema: Record<string, unknown>, indent = 0, maxDepth = 2): FieldInfo[] {
+function extractFields(
+  schema: Record<string, unknown>,
+  indent = 0,
+  maxDepth = 2,
+  choices: Record<string, number> = {},
+  prefix = ''
+): FieldInfo[] {
   // allOf — merge all sub-schemas (common in NestJS)
   if (schema['allOf']) {
     return (schema['allOf'] as Record<string, unknown>[]).flatMap((s) =>
-      extractFields(s, indent, maxDepth)
+      extractFields(s, indent, maxDepth, choices, prefix)
     );
   }
+  // oneOf/anyOf — describe the variant chosen in the request form
+  const poly = schemaVariants(schema);
+  if (poly) {
+    const chosen = poly.options[Math.min(choices[prefix] ?? 0, poly.options.length - 1)]!;
+    return extractFields(chosen.schema, indent, maxDepth, choices, prefix);
+  }
 
   const properties = schema['properties'] as Record<string, Record<string, unknown>> | undefined;
   if (!properties) return [];
@@ -59,8 +83,9 @@ function extractFields(schema: Record<string, unknown>, indent = 0, maxDepth = 2
   const fields: FieldInfo[] = [];
 
   for (const [name, fieldSchema] of Object.entries(properties)) {
+    const key = prefix ? `${prefix}.${name}` : name;
     const isRequired = required.includes(name);
-    const type = getFieldType(fieldSchema);
+    const type = getFieldType(fieldSchema, choices[key]);
 
     fields.push({
       name,
@@ -85,10 +110,10 @@ function extractFields(schema: Record<string, unknown>, indent = 0, maxDepth = 2
       if (effectiveSchema['type'] === 'array') {
         const items = effectiveSchema['items'] as Record<string, unknown> | undefined;
         if (items && (items['type'] === 'object' || items['properties'] || items['allOf'])) {
-          fields.push(...extractFields(items, indent + 1, maxDepth));
+          fields.push(...extractFields(items, indent + 1, maxDepth, choices, `${key}.0`));
         }
-      } else if (isObject) {
-        fields.push(...extractFields(effectiveSchema as Record<string, unknown>, indent + 1, maxDepth));
+      } else if (isObject || schemaVariants(effectiveSchema)) {
+        fields.push(...extractFields(effectiveSchema as Record<string, unknown>, indent + 1, maxDepth, choices, key));
       }
     }
   }
@@ -99,9 +124,11 @@ function extractFields(schema: Record<string, unknown>, indent = 0, maxDepth = 2
 export function EndpointInfo({ endpoint }: EndpointInfoProps) {
   const methodColor = METHOD_COLORS[endpoint.method] ?? 'white';
 
+  const variantChoices = cachedVariantChoices(endpoint.id);
   const bodyFields = endpoint.requestBody?.schema
-    ? extractFields(endpoint.requestBody.schema)
+    ? extractFields(endpoint.requestBody.schema, 0, 2, variantChoices)
     : [];
+  const rootVariants = endpoint.requestBody?.schema ? variantsLabel(endpoint.requestBody.schema, variantChoices[''] ?? 0) : null;
 
   return (
     <Box flexDirection="column" paddingX={1} paddingY={0}>
@@ -117,6 +144,14 @@ export function EndpointInfo({ endpoint }: EndpointInfoProps) {
         </Box>
       )}
 
+      {endpoint.servers && endpoint.servers.length > 0 && (
+        <Box>
+          <Text color="gray">{'Server:  '}</Text>
+          <Text color="yellow">{endpoint.servers[0]!.url}</Text>
+          <Text color="gray">{'  (operation override' + (endpoint.servers.length > 1 ? `, +${endpoint.servers.length - 1} more` : '') + ')'}</Text>
+        </Box>
+      )}
+
       {endpoint.description && endpoint.description !== endpoint.summary && (
         <Box>
           <Text color="gray" wrap="wrap">{endpoint.description.slice(0, 200)}</Text>
@@ -146,13 +181,53 @@ export function EndpointInfo({ endpoint }: EndpointInfoProps) {
         </Box>
       )}
 
+      {endpoint.security.length > 0 && (
+        <Box flexDirection="column" marginTop={1}>
+          <Text bold color="cyan">{'Security:'}</Text>
+          {endpoint.security.map((req, i) => (
+            <Box key={i} paddingLeft={1}>
+              <Text color="gray">{i > 0 ? 'or ' : '   '}</Text>
+              {req.schemes.length === 0 && !req.unresolved ? (
+                <Text color="gray">{'(anonymous)'}</Text>
+              ) : (
+                <Text>
+                  {req.schemes.map(({ scheme, scopes }, j) => (
+                    <Text key={scheme.name}>
+                      {j > 0 && <Text color="gray">{' + '}</Text>}
+                      <Text color="magenta">{scheme.name}</Text>
+                      <Text color="gray">{` (${describeScheme(scheme)})`}</Text>
+                      {scopes.length > 0 && <Text color="yellow">{` [${scopes.join(' ')}]`}</Text>}
+                    </Text>
+                  ))}
+                  {req.unresolved?.map((name, j) => (
+                    <Text key={name}>
+                      {(j > 0 || req.schemes.length > 0) && <Text color="gray">{' + '}</Text>}
+                      <Text color="red">{`${name} (not defined in the spec)`}</Text>
+                    </Text>
+                  ))}
+                </Text>
+              )}
+            </Box>
+          ))}
+        </Box>
+      )}
+
       {endpoint.requestBody && (
         <Box flexDirection="column" marginTop={1}>
           <Box>
             <Text bold color="cyan">{'Request Body  '}</Text>
             <Text color="yellow">{endpoint.requestBody.contentType}</Text>
+            {endpoint.requestBody.content.length > 1 && (
+              <Text color="gray">{' (+' + endpoint.requestBody.content.slice(1).map((m) => m.contentType).join(', ') + ')'}</Text>
+            )}
             {endpoint.requestBody.required && <Text color="red">{'  *required'}</Text>}
           </Box>
+          {rootVariants && (
+            <Box paddingLeft={1}>
+              <Text color="gray">{'variant: '}</Text>
+              <Text color="magenta">{rootVariants}</Text>
+            </Box>
+          )}
           {bodyFields.map((f, i) => {
             const indent = f.indent;
             const prefix = indent === 0 ? '  ' : '  ' + '  '.repeat(indent) + '↳ ';
@@ -183,6 +258,18 @@ export function EndpointInfo({ endpoint }: EndpointInfoProps) {
         </Box>
       )}
 
+      {endpoint.responses.length > 0 && (
+        <Box marginTop={1}>
+          <Text bold color="cyan">{'Responses: '}</Text>
+          {endpoint.responses.map((r) => (
+            <Text key={r.status}>
+              <Text color={r.status.startsWith('2') ? 'green' : r.status.startsWith('4') ? 'yellow' : r.status.startsWith('5') ? 'red' : 'gray'}>{r.status}</Text>
+              <Text color="gray">{r.content.some((c) => c.schema) ? '* ' : '  '}</Text>
+            </Text>
+          ))}
+        </Box>
+      )}
+
       {endpoint.operationId && (
         <Box marginTop={1}>
           <Text color="gray">{'operationId: '}</Text>
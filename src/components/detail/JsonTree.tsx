@@ -2,6 +2,8 @@ import React, { useState, useMemo, useCallback } from 'react';
 import { Box, Text, useInput } from 'ink';
 import { useApp, useActiveEnvironment } from '../../context/AppContext.js';
 import { saveEnvironment } from '../../lib/config-store.js';
+import { addExtractionRule } from '../../lib/extraction.js';
+import { MASK, secretsUnlocked } from '../../lib/secrets.js';
 
 type NodeData = {
   path: string;
@@ -113,9 +115,11 @@ interface JsonTreeProps {
    * Key = lookup-format path (e.g. "fields[].id"), value = short label ("V", "1", "2"…).
    */
   markedPaths?: Record<string, string>;
+  /** Operation the body came from — enables [V], which also keeps the capture as an extraction rule */
+  endpointId?: string;
 }
 
-export function JsonTree({ body, height, isFocused, onClose, onSelect, markedPaths }: JsonTreeProps) {
+export function JsonTree({ body, height, isFocused, onClose, onSelect, markedPaths, endpointId }: JsonTreeProps) {
   const { dispatch } = useApp();
   const activeEnv = useActiveEnvironment();
 
@@ -126,7 +130,8 @@ export function JsonTree({ body, height, isFocused, onClose, onSelect, markedPat
   // Capture state
   const [capturing, setCapturing] = useState(false);
   const [captureVarName, setCaptureVarName] = useState('');
-  const [captureStatus, setCaptureStatus] = useState<'idle' | 'ok'>('idle');
+  const [captureAsRule, setCaptureAsRule] = useState(false);
+  const [captureStatus, setCaptureStatus] = useState<'idle' | 'ok' | 'error'>('idle');
   const [captureMsg, setCaptureMsg] = useState('');
 
   // Search state
@@ -201,12 +206,30 @@ export function JsonTree({ body, height, isFocused, onClose, onSelect, markedPat
         if (!captureVarName.trim() || !activeEnv) return;
         const node = nodes[cursor];
         if (!node) return;
+        const name = captureVarName.trim();
         const value = nodeValueToString(node.value);
-        const newVars = { ...activeEnv.variables, [captureVarName.trim()]: value };
-        saveEnvironment({ ...activeEnv, variables: newVars });
+        const secret = activeEnv.secrets?.includes(name) ?? false;
+        const fail = (reason: string) => {
+          setCaptureMsg(`✗ {{${name}}} not stored — ${reason}`);
+          setCaptureStatus('error');
+          setCapturing(false);
+          setCaptureVarName('');
+          setTimeout(() => setCaptureStatus('idle'), 2500);
+        };
+        if (secret && !secretsUnlocked()) { fail('secrets are locked'); return; }
+        const newVars = { ...activeEnv.variables, [name]: value };
+        try {
+          saveEnvironment({ ...activeEnv, variables: newVars });
+        } catch (err) {
+          fail(err instanceof Error ? err.message : String(err));
+          return;
+        }
         dispatch({ type: 'UPDATE_ENV_VARIABLES', envName: activeEnv.name, variables: newVars });
-        const display = value.length > 40 ? value.slice(0, 40) + '…' : value;
-        setCaptureMsg(`✓ {{${captureVarName.trim()}}} = "${display}"`);
+        // "root.data.items[0].id" → "$.data.items[0].id"
+        const jsonPath = '$' + node.path.slice('root'.length);
+        if (captureAsRule && endpointId) addExtractionRule(endpointId, { variable: name, source: 'body', expr: jsonPath });
+        const display = secret ? MASK : value.length > 40 ? value.slice(0, 40) + '…' : value;
+        setCaptureMsg(`✓ {{${name}}} = "${display}"${captureAsRule && endpointId ? ` · rule ${jsonPath} kept` : ''}`);
         setCaptureStatus('ok');
         setCapturing(false);
         setCaptureVarName('');
@@ -310,8 +333,9 @@ export function JsonTree({ body, height, isFocused, onClose, onSelect, markedPat
       if (node.isExpandable && collapsed.has(node.path)) toggleCollapse(node.path);
       return;
     }
-    if (input === 'v' && activeEnv) {
+    if ((input === 'v' || (input === 'V' && endpointId)) && activeEnv) {
       setCapturing(true);
+      setCaptureAsRule(input === 'V');
       setCaptureVarName('');
       return;
     }
@@ -326,13 +350,13 @@ export function JsonTree({ body, height, isFocused, onClose, onSelect, markedPat
   if (capturing) {
     pathBar = (
       <Box>
-        <Text color="cyan">{'  Variable name: '}</Text>
+        <Text color="cyan">{captureAsRule ? '  Variable name (kept as extraction rule): ' : '  Variable name: '}</Text>
         <Text>{captureVarName}</Text>
         <Text color="cyan">{'_'}</Text>
       </Box>
     );
-  } else if (captureStatus === 'ok') {
-    pathBar = <Box><Text color="green">{'  '}{captureMsg}</Text></Box>;
+  } else if (captureStatus !== 'idle') {
+    pathBar = <Box><Text color={captureStatus === 'ok' ? 'green' : 'red'}>{'  '}{captureMsg}</Text></Box>;
   } else if (searching) {
     pathBar = (
       <Box>
@@ -374,7 +398,7 @@ export function JsonTree({ body, height, isFocused, onClose, onSelect, markedPat
     hintBar = (
       <Box>
         <Text color="gray">{'  [n] next  [N] prev  [/] new search  [Esc] clear'}</Text>
-        {activeEnv && <Text color="gray">{'  [v] capture'}</Text>}
+        {activeEnv && <Text color="gray">{endpointId ? '  [v] capture  [V] capture & keep' : '  [v] capture'}</Text>}
         <Text color="gray">{'  [Esc×2] close'}</Text>
       </Box>
     );
@@ -393,7 +417,7 @@ export function JsonTree({ body, height, isFocused, onClose, onSelect, markedPat
     hintBar = (
       <Box>
         <Text color="gray">{'  [↑↓] move  [Enter/Space] toggle  [←] collapse  [→] expand  [/] search'}</Text>
-        {activeEnv && <Text color="gray">{'  [v] capture'}</Text>}
+        {activeEnv && <Text color="gray">{endpointId ? '  [v] capture  [V] capture & keep' : '  [v] capture'}</Text>}
         <Text color="gray">{'  [Esc] close'}</Text>
       </Box>
     );
@@ -2,22 +2,44 @@ import React, { useState, useCallback, useMemo, useEffect } from 'react';
 import { Box, Text, useInput } from 'ink';
 import TextInput from 'ink-text-input';
 import Spinner from 'ink-spinner';
-import type { Endpoint } from '../../types/openapi.js';
+import type { Endpoint, Parameter } from '../../types/openapi.js';
 import type { Environment } from '../../types/config.js';
 import type { RequestValues } from '../../lib/executor.js';
 import { useRequest } from '../../hooks/useRequest.js';
 import { ResponseView } from './ResponseView.js';
 import { JsonTree, treePathToLookupPath } from './JsonTree.js';
-import { hasTokenCached } from '../../lib/executor.js';
+import { ValidationView } from './ValidationView.js';
+import { validateResponse } from '../../lib/response-validation.js';
+import { editInEditor, editorCommand } from '../../lib/external-editor.js';
+import { generateExample } from '../../lib/example-body.js';
+import { validateRequest, type RequestValidation, type RequestViolation } from '../../lib/request-validation.js';
+import { resolveSecurity, describeScheme, parseCookieHeader } from '../../lib/security.js';
+import { hasTokenCached, tokenTimeToExpiry, formatTimeToExpiry } from '../../lib/token-cache.js';
 import { useApp, useActiveEnvironment } from '../../context/AppContext.js';
-import { saveRequest } from '../../lib/saved-requests.js';
-import { FAKER_ENTRIES, suggestFakerForField } from '../../lib/faker.js';
+import { saveRequest, getSavedRequests, setSavedRequestExtract } from '../../lib/saved-requests.js';
+import {
+  getExtractionRules, setExtractionRules, runExtraction, applyCaptures, captureLog, checkExtractionRules,
+  type Capture, type ExtractionRule,
+} from '../../lib/extraction.js';
+import { fakerEntries, findFakerEntry, suggestFakerForField, DEFAULT_FAKER_LOCALE, withSeed, deriveSeed, newSeed, getSessionSeed } from '../../lib/faker.js';
+import { DYNAMIC_VARIABLES } from '../../lib/dynamic-vars.js';
+import { displayValues, effectiveVariables, secretValues, type VariableScope } from '../../lib/variables.js';
+import { MASK, redactSecrets, replaceSecrets } from '../../lib/secrets.js';
+import { draftVariable } from '../modals/VariablesManager.js';
 import { parseCurl, extractPathParams } from '../../lib/curl-parser.js';
 import { getPastParamValues } from '../../lib/history.js';
-import { getFieldPatterns, setFieldPattern, removeFieldPattern } from '../../lib/field-patterns.js';
+import {
+  getFieldPatterns, setFieldPattern, removeFieldPattern, saveFieldPatterns, checkFieldPatterns, matchFieldPattern,
+  rankPatterns, patternKind, describeScope, type FieldPattern, type PatternTarget,
+} from '../../lib/field-patterns.js';
+import { getCustomGenerators, saveCustomGenerators, checkGenerators, GENERATORS_SAMPLE, type CustomGenerator } from '../../lib/custom-generators.js';
 import { getFieldLookups, setFieldLookup, removeFieldLookup, resolvePathArray, type FieldLookup } from '../../lib/field-lookups.js';
 import { getSavedLookups, saveLookup, removeSavedLookup } from '../../lib/saved-lookups.js';
-import { executeRequest } from '../../lib/executor.js';
+import { executeRequest, selectRequestMedia, unresolvedVariables } from '../../lib/executor.js';
+import { isBinarySchema } from '../../lib/form-body.js';
+import { paramEntries, paramItems, paramKind, rowsValue, serializePathParam } from '../../lib/param-style.js';
+import { schemaVariants, matchVariant, type SchemaVariants } from '../../lib/schema-variants.js';
+import { envBaseUrl, resolveServerUrl, defaultServerVariables, hasServerChoice, operationServerUrl } from '../../lib/servers.js';
 
 interface RequestFormProps {
   endpoint: Endpoint;
@@ -40,8 +62,18 @@ type BodyFieldDef = {
   enumValues?: string[];  // enum constraint values
   format?: string;        // e.g. 'date-time', 'date', 'email'
   example?: unknown;      // from OpenAPI spec
+  defaultValue?: string;  // initial value for leaves (default → example → first enum)
+  arrayItems?: number;    // array group headers: current item count
+  itemIndex?: number;     // array items: position in the parent array (label is the array's name)
+  variants?: SchemaVariants; // oneOf/anyOf group headers: the branches
+  variantIndex?: number;  // …and the one whose fields are shown
 };
 
+/** Item count per array fullKey — arrays not listed start with one item if required, else none. */
+type ArrayCounts = Record<string, number>;
+/** Chosen oneOf/anyOf branch per fullKey ('' for a polymorphic root body) — defaults to the first. */
+type VariantChoices = Record<string, number>;
+
 function fieldType(schema: Record<string, unknown>): string {
   if (schema['oneOf']) {
     const nonNull = (schema['oneOf'] as Record<string, unknown>[]).find((v) => v['type'] !== 'null');
@@ -51,6 +83,8 @@ function fieldType(schema: Record<string, unknown>): string {
     const items = schema['items'] as Record<string, unknown> | undefined;
     return (items ? fieldType(items) : 'any') + '[]';
   }
+  // Upload fields — the value is a local file path
+  if (isBinarySchema(schema)) return 'file';
   if (schema['type']) return schema['type'] as string;
   if (schema['$ref']) return ((schema['$ref'] as string).split('/').pop() ?? 'object');
   if (schema['allOf'] || schema['anyOf']) return 'object';
@@ -69,60 +103,114 @@ function mergeAllOf(schema: Record<string, unknown>): Record<string, unknown> {
   }, {} as Record<string, unknown>);
 }
 
-function extractBodyFields(
-  schema: Record<string, unknown>,
-  prefix = '',
-  indent = 0,
-  maxDepth = 2
+/** Field defs for one schema node — a leaf, an object group or an array group with one entry per item.
+ *  Depth is unlimited; a schema already open higher up (recursive $ref) becomes a JSON leaf. */
+function schemaFieldDefs(
+  name: string,
+  fs: Record<string, unknown>,
+  fullKey: string,
+  isRequired: boolean,
+  indent: number,
+  counts: ArrayCounts,
+  choices: VariantChoices,
+  ancestors: Set<Record<string, unknown>>,
+  itemIndex?: number
 ): BodyFieldDef[] {
-  const resolved = mergeAllOf(schema);
-  const properties = resolved['properties'] as Record<string, Record<string, unknown>> | undefined;
-  if (!properties) return [];
-
-  const required = (resolved['required'] as string[]) ?? [];
-  const fields: BodyFieldDef[] = [];
+  const type = fieldType(fs);
+  const description = fs['description'] as string | undefined;
+
+  // Polymorphic — a selector row, then the chosen branch's fields in place
+  const poly = ancestors.has(fs) ? null : schemaVariants(fs);
+  if (poly) {
+    const variantIndex = Math.min(choices[fullKey] ?? 0, poly.options.length - 1);
+    const chosen = poly.options[variantIndex]!;
+    const { oneOf: _o, anyOf: _a, discriminator: _d, ...shared } = fs;
+    const merged = mergeAllOf({ allOf: [shared, chosen.schema] });
+    const inner = new Set(ancestors).add(fs);
+    const header: BodyFieldDef = {
+      label: name, fullKey, type: poly.kind, required: isRequired, description, indent, isGroupHeader: true,
+      nullable: false, itemIndex, variants: poly, variantIndex,
+    };
+    if (Object.keys(merged['properties'] as object).length === 0) {
+      return [header, ...schemaFieldDefs(name, chosen.schema, fullKey, isRequired, indent + 1, counts, choices, inner, itemIndex)];
+    }
+    const children = extractBodyFields(merged, fullKey, indent + 1, counts, choices, inner);
+    // The discriminator follows the chosen variant
+    const discKey = poly.discriminator && (fullKey ? `${fullKey}.${poly.discriminator}` : poly.discriminator);
+    return [header, ...children.map((f) =>
+      f.fullKey === discKey && chosen.discriminatorValue !== undefined ? { ...f, defaultValue: chosen.discriminatorValue } : f
+    )];
+  }
 
-  for (const [name, fs] of Object.entries(properties)) {
-    const fullKey = prefix ? `${prefix}.${name}` : name;
-    const isRequired = required.includes(name);
-    const type = fieldType(fs);
-    const description = fs['description'] as string | undefined;
+  // Resolve the "real" schema — unwrap nullable oneOf to get the inner type
+  let baseSchema: Record<string, unknown> = fs;
+  let nullable = Boolean(fs['nullable']);
+  if (fs['oneOf']) {
+    const arr = fs['oneOf'] as Record<string, unknown>[];
+    nullable = nullable || arr.some((s) => s['type'] === 'null');
+    const nonNull = arr.find((s) => s['type'] !== 'null');
+    if (nonNull) baseSchema = nonNull;
+  }
 
-    // Resolve the "real" schema — unwrap nullable oneOf to get the inner type
-    let baseSchema: Record<string, unknown> = fs;
-    let nullable = Boolean(fs['nullable']);
-    if (fs['oneOf']) {
-      const arr = fs['oneOf'] as Record<string, unknown>[];
-      nullable = nullable || arr.some((s) => s['type'] === 'null');
-      const nonNull = arr.find((s) => s['type'] !== 'null');
-      if (nonNull) baseSchema = nonNull;
-    }
+  const effectiveSchema = baseSchema['allOf'] ? mergeAllOf(baseSchema) : baseSchema;
 
-    const effectiveSchema = baseSchema['allOf'] ? mergeAllOf(baseSchema) : baseSchema;
+  // Enum values (from direct enum or effectiveSchema)
+  const rawEnum = (effectiveSchema['enum'] ?? fs['enum']) as unknown[] | undefined;
+  const enumValues = rawEnum && rawEnum.length > 0 ? rawEnum.map(String) : undefined;
 
-    // Enum values (from direct enum or effectiveSchema)
-    const rawEnum = (effectiveSchema['enum'] ?? fs['enum']) as unknown[] | undefined;
-    const enumValues = rawEnum && rawEnum.length > 0 ? rawEnum.map(String) : undefined;
+  // Format (date-time, date, email, etc.)
+  const format = (effectiveSchema['format'] ?? fs['format']) as string | undefined;
 
-    // Format (date-time, date, email, etc.)
-    const format = (effectiveSchema['format'] ?? fs['format']) as string | undefined;
+  // Spec example value
+  const example = effectiveSchema['example'] ?? fs['example'];
 
-    // Spec example value
-    const example = effectiveSchema['example'] ?? fs['example'];
+  const base = { label: name, fullKey, type, required: isRequired, description, indent, nullable, enumValues, format, itemIndex };
+  const recursive = ancestors.has(baseSchema);
+  const inner = new Set(ancestors).add(baseSchema);
 
-    const hasProps = Boolean(effectiveSchema['properties']) || Boolean(effectiveSchema['allOf']);
-    const isObject = (effectiveSchema['type'] === 'object' || hasProps) && indent < maxDepth;
+  const hasProps = Boolean(effectiveSchema['properties']) || Boolean(effectiveSchema['allOf']);
+  if (!recursive && (effectiveSchema['type'] === 'object' || hasProps) && hasProps) {
+    // Group header — no input
+    return [
+      { ...base, isGroupHeader: true },
+      ...extractBodyFields(effectiveSchema, fullKey, indent + 1, counts, choices, inner),
+    ];
+  }
 
-    if (isObject && hasProps) {
-      // Group header — no input
-      fields.push({ label: name, fullKey, type, required: isRequired, description, indent, isGroupHeader: true, nullable, enumValues, format });
-      fields.push(...extractBodyFields(effectiveSchema, fullKey, indent + 1, maxDepth));
-    } else {
-      fields.push({ label: name, fullKey, type, required: isRequired, description, indent, isGroupHeader: false, nullable, enumValues, format, example });
+  const items = effectiveSchema['items'] as Record<string, unknown> | undefined;
+  if (!recursive && effectiveSchema['type'] === 'array' && items) {
+    const count = counts[fullKey] ?? (isRequired ? 1 : 0);
+    const fields: BodyFieldDef[] = [{ ...base, isGroupHeader: true, arrayItems: count }];
+    for (let i = 0; i < count; i++) {
+      fields.push(...schemaFieldDefs(name, items, `${fullKey}.${i}`, false, indent + 1, counts, choices, inner, i));
     }
+    return fields;
+  }
+
+  return [{ ...base, isGroupHeader: false, example, defaultValue: defaultFieldValue(fs) }];
+}
+
+function extractBodyFields(
+  schema: Record<string, unknown>,
+  prefix = '',
+  indent = 0,
+  counts: ArrayCounts = {},
+  choices: VariantChoices = {},
+  ancestors = new Set<Record<string, unknown>>()
+): BodyFieldDef[] {
+  // A polymorphic root body gets its selector row under the empty key
+  if (!prefix && !ancestors.has(schema) && schemaVariants(schema)) {
+    return schemaFieldDefs('body', schema, '', true, indent, counts, choices, ancestors);
   }
+  ancestors = new Set(ancestors).add(schema);
+  const resolved = mergeAllOf(schema);
+  const properties = resolved['properties'] as Record<string, Record<string, unknown>> | undefined;
+  if (!properties) return [];
 
-  return fields;
+  const required = (resolved['required'] as string[]) ?? [];
+  return Object.entries(properties).flatMap(([name, fs]) =>
+    schemaFieldDefs(name, fs, prefix ? `${prefix}.${name}` : name, required.includes(name), indent, counts, choices, ancestors)
+  );
 }
 
 // ── Serialise flat field values → nested JSON object ──────────────────────
@@ -138,17 +226,106 @@ function coerceValue(raw: string, type: string): unknown {
   return raw;
 }
 
+const isIndex = (segment: string | undefined) => segment !== undefined && /^\d+$/.test(segment);
+
+/** Set a dot-path value; numeric segments (array items) create arrays. */
 function setNested(obj: Record<string, unknown>, path: string, value: unknown): void {
   const parts = path.split('.');
   let cur = obj;
   for (let i = 0; i < parts.length - 1; i++) {
     const k = parts[i]!;
-    if (typeof cur[k] !== 'object' || cur[k] === null) cur[k] = {};
+    if (typeof cur[k] !== 'object' || cur[k] === null) cur[k] = isIndex(parts[i + 1]) ? [] : {};
     cur = cur[k] as Record<string, unknown>;
   }
   cur[parts[parts.length - 1]!] = value;
 }
 
+/** Drop the holes left by array items with no values, so indices stay contiguous. */
+function compactArrays(value: unknown): unknown {
+  if (Array.isArray(value)) return value.filter(() => true).map(compactArrays);
+  if (value && typeof value === 'object') {
+    return Object.fromEntries(Object.entries(value).map(([k, v]) => [k, compactArrays(v)]));
+  }
+  return value;
+}
+
+/** Item counts implied by flat keys like `items.2.sku` — used when values come from history. */
+function arrayCountsFromKeys(keys: string[]): ArrayCounts {
+  const counts: ArrayCounts = {};
+  for (const key of keys) {
+    const parts = key.split('.');
+    parts.forEach((seg, i) => {
+      if (i === 0 || !isIndex(seg)) return;
+      const arrayKey = parts.slice(0, i).join('.');
+      counts[arrayKey] = Math.max(counts[arrayKey] ?? 0, Number(seg) + 1);
+    });
+  }
+  return counts;
+}
+
+/** Item counts for every array inside a JSON value (cURL import, spec examples). */
+function arrayCountsOf(value: unknown, prefix = ''): ArrayCounts {
+  const counts: ArrayCounts = {};
+  if (Array.isArray(value)) {
+    counts[prefix] = value.length;
+    value.forEach((v, i) => Object.assign(counts, arrayCountsOf(v, `${prefix}.${i}`)));
+  } else if (value && typeof value === 'object') {
+    for (const [k, v] of Object.entries(value)) Object.assign(counts, arrayCountsOf(v, prefix ? `${prefix}.${k}` : k));
+  }
+  return counts;
+}
+
+/** Flatten values stored as a raw JSON array (before arrays had per-item fields) into item keys. */
+function expandArrayValues(values: Record<string, string>): Record<string, string> {
+  const out: Record<string, string> = {};
+  const flatten = (key: string, v: unknown) => {
+    if (v === null || v === undefined) return;
+    if (typeof v !== 'object') { out[key] = String(v); return; }
+    for (const [k, child] of Object.entries(v)) flatten(`${key}.${k}`, child);
+  };
+  for (const [key, raw] of Object.entries(values)) {
+    if (!raw.trim().startsWith('[')) { out[key] = raw; continue; }
+    try {
+      const parsed = JSON.parse(raw) as unknown;
+      if (Array.isArray(parsed)) flatten(key, parsed);
+      else out[key] = raw;
+    } catch {
+      out[key] = raw;
+    }
+  }
+  return out;
+}
+
+/** Re-key every entry under `arrayKey.<i>` — `mapIndex` returns the new index, or null to drop it. */
+function reindexItems<T>(rec: Record<string, T>, arrayKey: string, mapIndex: (i: number) => number | null): Record<string, T> {
+  const out: Record<string, T> = {};
+  const prefix = arrayKey + '.';
+  for (const [key, v] of Object.entries(rec)) {
+    const rest = key.startsWith(prefix) ? key.slice(prefix.length) : null;
+    const m = rest !== null ? /^(\d+)(\..*)?$/.exec(rest) : null;
+    if (!m) { out[key] = v; continue; }
+    const next = mapIndex(Number(m[1]));
+    if (next !== null) out[`${prefix}${next}${m[2] ?? ''}`] = v;
+  }
+  return out;
+}
+
+/** "{{orderId}} = 42" or "✗ orderId: $.data.id not in response body" */
+function describeCapture(c: Capture): string {
+  if (c.value === undefined) return `✗ ${c.rule.variable}: ${c.error}`;
+  if (c.secret) return `{{${c.rule.variable}}} = ${MASK}`;
+  return `{{${c.rule.variable}}} = ${c.value.length > 40 ? c.value.slice(0, 40) + '…' : c.value}`;
+}
+
+/** "2 errors · 1 warning" */
+function checkSummary(check: RequestValidation): string {
+  const label = (n: number, noun: string) => `${n} ${noun}${n === 1 ? '' : 's'}`;
+  return [
+    check.errors > 0 ? label(check.errors, 'error') : null,
+    check.warnings > 0 ? label(check.warnings, 'warning') : null,
+  ].filter(Boolean).join(' · ');
+}
+
 function isChildOfCollapsed(fullKey: string, collapsedGroups: Set<string>): boolean {
   for (const groupKey of collapsedGroups) {
     if (fullKey.startsWith(groupKey + '.')) return true;
@@ -156,15 +333,50 @@ function isChildOfCollapsed(fullKey: string, collapsedGroups: Set<string>): bool
   return false;
 }
 
-function serializeBodyFields(fields: BodyFieldDef[], values: Record<string, string>, collapsedGroups: Set<string>): string {
-  const result: Record<string, unknown> = {};
+/** Deep-merge `over` onto `base` — objects and arrays merge per key, anything else is replaced. */
+function mergeBody(base: unknown, over: unknown): unknown {
+  if (base && over && typeof base === 'object' && typeof over === 'object' && Array.isArray(base) === Array.isArray(over)) {
+    const out: Record<string, unknown> = Array.isArray(base) ? [...base] as unknown as Record<string, unknown> : { ...base };
+    for (const [k, v] of Object.entries(over)) out[k] = k in out ? mergeBody(out[k], v) : v;
+    return out;
+  }
+  return over;
+}
+
+/** The parts of a JSON body no form field holds — keys the schema doesn't declare, nulls,
+ *  empty containers — so they survive a round trip through the form. */
+function uncoveredBody(json: Record<string, unknown>, covered: Record<string, string>): Record<string, unknown> {
+  const out: Record<string, unknown> = {};
+  const walk = (value: unknown, key: string) => {
+    if (key in covered) return;
+    if (value && typeof value === 'object' && Object.keys(value).length > 0) {
+      for (const [k, v] of Object.entries(value)) walk(v, `${key}.${k}`);
+      return;
+    }
+    setNested(out, key, value);
+  };
+  for (const [k, v] of Object.entries(json)) walk(v, k);
+  return out;
+}
+
+function serializeBodyFields(
+  fields: BodyFieldDef[],
+  values: Record<string, string>,
+  collapsedGroups: Set<string>,
+  extras: Record<string, unknown> = {}
+): string {
+  const result: Record<string, unknown> = structuredClone(extras);
   for (const f of fields) {
-    if (f.isGroupHeader) continue;
     if (isChildOfCollapsed(f.fullKey, collapsedGroups)) continue;
+    // A required array emptied on purpose is still sent
+    if (f.isGroupHeader) {
+      if (f.arrayItems === 0 && f.required) setNested(result, f.fullKey, []);
+      continue;
+    }
     const coerced = coerceValue(values[f.fullKey] ?? '', f.type);
-    if (coerced !== undefined) setNested(result, f.fullKey, coerced);
+    if (coerced !== undefined) setNested(result, f.fullKey, mergeBody(getNestedValue(result, f.fullKey), coerced));
   }
-  return Object.keys(result).length > 0 ? JSON.stringify(result) : '';
+  return Object.keys(result).length > 0 ? JSON.stringify(compactArrays(result)) : '';
 }
 
 // ── Deserialise nested JSON object → flat field values (reverse of serialize) ──
@@ -197,27 +409,8 @@ function defaultFieldValue(fs: Record<string, unknown>): string {
   return '';
 }
 
-function buildInitialFieldValues(fields: BodyFieldDef[], schema: Record<string, unknown> | undefined): Record<string, string> {
-  if (!schema) return {};
-  const resolved = mergeAllOf(schema);
-  const values: Record<string, string> = {};
-
-  function walk(props: Record<string, Record<string, unknown>>, prefix: string) {
-    for (const [name, fs] of Object.entries(props)) {
-      const key = prefix ? `${prefix}.${name}` : name;
-      const sub = fs['allOf'] ? mergeAllOf(fs) : fs;
-      if (sub['properties']) {
-        walk(sub['properties'] as Record<string, Record<string, unknown>>, key);
-      } else {
-        values[key] = defaultFieldValue(fs);
-      }
-    }
-  }
-
-  const props = resolved['properties'] as Record<string, Record<string, unknown>> | undefined;
-  if (props) walk(props, '');
-
-  return values;
+function buildInitialFieldValues(fields: BodyFieldDef[]): Record<string, string> {
+  return Object.fromEntries(fields.filter((f) => !f.isGroupHeader).map((f) => [f.fullKey, f.defaultValue ?? '']));
 }
 
 // ── DateTime helpers ──────────────────────────────────────────────────────
@@ -318,74 +511,337 @@ function paramMeta(p: { type: string; schema?: Record<string, unknown> }) {
   return { baseType, nullable, enumValues, format };
 }
 
+type ParamLoc = Parameter['in'];
+
+/** `header:X-Tenant-Id` → { loc: 'header', name: 'X-Tenant-Id' }; null for non-param focus ids. */
+function paramField(field: string): { loc: ParamLoc; name: string } | null {
+  const m = /^(path|query|header|cookie):(.*)$/.exec(field);
+  return m ? { loc: m[1] as ParamLoc, name: m[2]! } : null;
+}
+
+type RowPart = 'item' | 'key';
+
+/** Rows of array and object params: `query-rows:tags` is the header, `query-item:1:tags` an item or entry value,
+ *  `query-key:1:filter` an entry key. */
+function paramRowField(field: string): { loc: ParamLoc; name: string; part: RowPart | 'rows'; index: number } | null {
+  const m = /^(path|query|header|cookie)-(?:rows:(.*)|(item|key):(\d+):(.*))$/.exec(field);
+  if (!m) return null;
+  return m[2] !== undefined
+    ? { loc: m[1] as ParamLoc, name: m[2], part: 'rows', index: -1 }
+    : { loc: m[1] as ParamLoc, name: m[5]!, part: m[3] as RowPart, index: Number(m[4]) };
+}
+
+/** Focus id of a param — its input, or the header of its rows. */
+function paramId(p: Parameter): string {
+  return paramKind(p) === 'primitive' ? `${p.in}:${p.name}` : `${p.in}-rows:${p.name}`;
+}
+
+/** Item or key/value rows in a param's form value. */
+function paramRowCount(p: Parameter, raw: string): number {
+  return paramKind(p) === 'array' ? paramItems(raw).length : paramEntries(raw).length;
+}
+
+/** Focus ids of a param — one input, or the header followed by each item / key and value. */
+function paramFieldIds(p: Parameter, raw: string): string[] {
+  if (paramKind(p) === 'primitive') return [paramId(p)];
+  const rows = Array.from({ length: paramRowCount(p, raw) }, (_, i) =>
+    paramKind(p) === 'array' ? [`${p.in}-item:${i}:${p.name}`] : [`${p.in}-key:${i}:${p.name}`, `${p.in}-item:${i}:${p.name}`]);
+  return [paramId(p), ...rows.flat()];
+}
+
+/** Text of one item, entry key or entry value. */
+function rowText(p: Parameter | undefined, raw: string, part: RowPart, index: number): string {
+  if (paramKind(p) === 'array') return paramItems(raw)[index] ?? '';
+  return paramEntries(raw)[index]?.[part === 'key' ? 0 : 1] ?? '';
+}
+
+/** The param's form value with one row's text replaced. */
+function withRowText(p: Parameter | undefined, raw: string, part: RowPart, index: number, text: string): string {
+  if (paramKind(p) === 'array') return rowsValue(paramItems(raw).map((v, i) => (i === index ? text : v)));
+  return rowsValue(paramEntries(raw).map(([k, v], i): [string, string] => (i !== index ? [k, v] : part === 'key' ? [text, v] : [k, text])));
+}
+
+/** Choices an array param's items cycle through — enum or boolean items; null for free text. */
+function itemOptions(p: Parameter | undefined): string[] | null {
+  if (paramKind(p) !== 'array') return null;
+  const items = p!.schema?.['items'] as Record<string, unknown> | undefined;
+  const { baseType, enumValues } = paramMeta({ type: (items?.['type'] as string | undefined) ?? 'string', schema: items });
+  if (enumValues?.length) return ['', ...enumValues];
+  return baseType === 'boolean' ? ['', 'true', 'false'] : null;
+}
+
+/** History key holding past values for params in `loc`. */
+const HISTORY_KIND = {
+  path: 'pathParams',
+  query: 'queryParams',
+  header: 'headerParams',
+  cookie: 'cookieParams',
+} as const;
+
+// OAS 3: header params named Accept, Content-Type or Authorization are ignored
+const RESERVED_HEADER_PARAMS = new Set(['accept', 'content-type', 'authorization']);
+
 // ── Persistent cache ──────────────────────────────────────────────────────
 export interface CachedForm {
   pathValues: Record<string, string>;
   queryValues: Record<string, string>;
+  headerValues: Record<string, string>;
+  cookieValues: Record<string, string>;
   headersStr: string;
   bodyFieldValues: Record<string, string>;
+  arrayCounts?: ArrayCounts;
+  variantChoices?: VariantChoices;
+  contentType?: string;
+  /** Body parts no form field covers, kept from the last raw edit */
+  bodyExtras?: Record<string, unknown>;
+  /** Faker seed for this request — the session seed until rolled */
+  seed?: number;
+  /** Saved request the form was loaded from — its extraction rules run after sending */
+  savedRequestId?: string;
+  /** Request-local {{variables}}, overriding the global, spec and env scopes */
+  requestVars?: Record<string, string>;
 }
 const formCache = new Map<string, CachedForm>();
 
+/** oneOf/anyOf branch picked in the form for an endpoint's body (by field key, '' for the root). */
+export function cachedVariantChoices(endpointId: string): VariantChoices {
+  return formCache.get(endpointId)?.variantChoices ?? {};
+}
+
 /** Pre-fill form cache from outside (e.g. history load) */
 export function preFillFormCache(endpointId: string, values: Partial<CachedForm>): void {
   const existing = formCache.get(endpointId);
   formCache.set(endpointId, {
     pathValues: values.pathValues ?? existing?.pathValues ?? {},
     queryValues: values.queryValues ?? existing?.queryValues ?? {},
+    headerValues: values.headerValues ?? existing?.headerValues ?? {},
+    cookieValues: values.cookieValues ?? existing?.cookieValues ?? {},
     headersStr: values.headersStr ?? existing?.headersStr ?? '',
-    bodyFieldValues: values.bodyFieldValues ?? existing?.bodyFieldValues ?? {},
+    bodyFieldValues: values.bodyFieldValues ? expandArrayValues(values.bodyFieldValues) : existing?.bodyFieldValues ?? {},
+    // Item counts follow the loaded values
+    arrayCounts: values.arrayCounts ?? (values.bodyFieldValues ? undefined : existing?.arrayCounts),
+    variantChoices: values.variantChoices ?? existing?.variantChoices,
+    contentType: values.contentType ?? existing?.contentType,
+    bodyExtras: values.bodyFieldValues ? values.bodyExtras : values.bodyExtras ?? existing?.bodyExtras,
+    seed: values.seed ?? existing?.seed,
+    // Only a saved request load sets this — any other pre-fill is a different request
+    savedRequestId: values.savedRequestId,
+    requestVars: values.requestVars,
   });
 }
 
 // ── FormRow types ─────────────────────────────────────────────────────────
 type FormRow =
-  | { kind: 'path'; param: Endpoint['parameters'][0] }
-  | { kind: 'query'; param: Endpoint['parameters'][0] }
+  | { kind: 'server' }
+  | { kind: 'server-var'; name: string }
+  | { kind: 'param'; param: Parameter }
+  | { kind: 'param-row'; param: Parameter; index: number }
   | { kind: 'token' }
+  | { kind: 'security' }
   | { kind: 'headers' }
+  | { kind: 'content-type' }
   | { kind: 'body-field'; field: BodyFieldDef };
 
 // ─────────────────────────────────────────────────────────────────────────
 export function RequestForm({ endpoint, env, fallbackBaseUrl = '', onClose, height }: RequestFormProps) {
   const { state, dispatch } = useApp();
   const liveEnv = useActiveEnvironment();
-  const envVarEntries = Object.entries(liveEnv?.variables ?? {});
+  const fakerLocale = liveEnv?.fakerLocale ?? DEFAULT_FAKER_LOCALE;
 
   const pathParams = endpoint.parameters.filter((p) => p.in === 'path');
   const queryParams = endpoint.parameters.filter((p) => p.in === 'query');
+  const headerParams = endpoint.parameters.filter((p) => p.in === 'header' && !RESERVED_HEADER_PARAMS.has(p.name.toLowerCase()));
+  const cookieParams = endpoint.parameters.filter((p) => p.in === 'cookie');
+  const paramsIn: Record<ParamLoc, Parameter[]> = { path: pathParams, query: queryParams, header: headerParams, cookie: cookieParams };
+  const allParams = [...pathParams, ...queryParams, ...headerParams, ...cookieParams];
+
+  const mediaTypes = endpoint.requestBody?.content ?? [];
+  const cached = formCache.get(endpoint.id);
+
+  // Selected request media type — body fields follow its schema
+  const [contentType, setContentType] = useState(cached?.contentType ?? endpoint.requestBody?.contentType);
+  const bodySchema = selectRequestMedia(endpoint, contentType)?.schema;
 
+  const [arrayCounts, setArrayCounts] = useState<ArrayCounts>(
+    () => cached?.arrayCounts ?? arrayCountsFromKeys(Object.keys(cached?.bodyFieldValues ?? {}))
+  );
+  const [variantChoices, setVariantChoices] = useState<VariantChoices>(cached?.variantChoices ?? {});
   const bodyFieldDefs = useMemo(
-    () => endpoint.requestBody?.schema ? extractBodyFields(endpoint.requestBody.schema) : [],
-    [endpoint.requestBody]
+    () => bodySchema ? extractBodyFields(bodySchema, '', 0, arrayCounts, variantChoices) : [],
+    [bodySchema, arrayCounts, variantChoices]
   );
 
-  const cached = formCache.get(endpoint.id);
+  // An environment with a baseUrl or pinned server fixes the URL; otherwise the spec server picker applies
+  const envUrl = env ? envBaseUrl(env) : '';
+  const specServers = state.spec?.servers ?? [];
+  const showServerPicker = !envUrl && hasServerChoice(specServers);
+  const selectedServer = specServers[state.selectedServer.index] ?? specServers[0];
+  const serverVarNames = showServerPicker && selectedServer ? Object.keys(selectedServer.variables) : [];
 
-  const [baseUrlInput, setBaseUrlInput] = useState(env?.baseUrl ?? fallbackBaseUrl);
+  const [baseUrlInput, setBaseUrlInput] = useState(envUrl || fallbackBaseUrl);
   const [pathValues, setPathValues] = useState<Record<string, string>>(
     cached?.pathValues ?? Object.fromEntries(pathParams.map((p) => [p.name, p.default ?? '']))
   );
   const [queryValues, setQueryValues] = useState<Record<string, string>>(
     cached?.queryValues ?? Object.fromEntries(queryParams.map((p) => [p.name, p.default ?? '']))
   );
+  const [headerValues, setHeaderValues] = useState<Record<string, string>>(
+    cached?.headerValues ?? Object.fromEntries(headerParams.map((p) => [p.name, p.default ?? '']))
+  );
+  const [cookieValues, setCookieValues] = useState<Record<string, string>>(
+    cached?.cookieValues ?? Object.fromEntries(cookieParams.map((p) => [p.name, p.default ?? '']))
+  );
   const [headersStr, setHeadersStr] = useState(cached?.headersStr ?? '');
   const [bodyFieldValues, setBodyFieldValues] = useState<Record<string, string>>(
-    cached?.bodyFieldValues ?? buildInitialFieldValues(bodyFieldDefs, endpoint.requestBody?.schema)
+    cached?.bodyFieldValues ?? buildInitialFieldValues(bodyFieldDefs)
   );
 
+  const [bodyExtras, setBodyExtras] = useState<Record<string, unknown>>(cached?.bodyExtras ?? {});
+  const [seed, setSeed] = useState(cached?.seed ?? getSessionSeed());
+  const savedRequestId = cached?.savedRequestId;
+  const [requestVars, setRequestVars] = useState<Record<string, string>>(cached?.requestVars ?? {});
+
   useEffect(() => {
-    formCache.set(endpoint.id, { pathValues, queryValues, headersStr, bodyFieldValues });
-  }, [endpoint.id, pathValues, queryValues, headersStr, bodyFieldValues]);
+    formCache.set(endpoint.id, { pathValues, queryValues, headerValues, cookieValues, headersStr, bodyFieldValues, arrayCounts, variantChoices, contentType, bodyExtras, seed, savedRequestId, requestVars });
+  }, [endpoint.id, pathValues, queryValues, headerValues, cookieValues, headersStr, bodyFieldValues, arrayCounts, variantChoices, contentType, bodyExtras, seed, savedRequestId, requestVars]);
+
+  // Every variable in effect — re-read when a modal closes, the variables manager may have changed them
+  const scopedVars = useMemo(() => effectiveVariables(liveEnv, requestVars), [liveEnv, requestVars, state.activeModal]);
+  const varValues = useMemo(() => Object.fromEntries(scopedVars.filter((v) => !v.cycle && !v.locked).map((v) => [v.name, v.value])), [scopedVars]);
+  // What the form shows — secret values masked
+  const shownValues = useMemo(() => displayValues(scopedVars), [scopedVars]);
+  // The picker offers the variables in effect, then the dynamic ones resolved at send time
+  const varPickerEntries: { name: string; value: string; scope?: VariableScope }[] = [
+    ...scopedVars.map((v) => ({
+      name: v.name,
+      value: v.cycle ? `cycle: ${v.cycle}` : v.locked ? '🔒 locked secret' : shownValues[v.name]!,
+      scope: v.scope,
+    })),
+    ...DYNAMIC_VARIABLES.map((d) => ({ name: d.usage, value: d.description })),
+  ];
+
+  const paramValuesIn: Record<ParamLoc, Record<string, string>> = {
+    path: pathValues, query: queryValues, header: headerValues, cookie: cookieValues,
+  };
+  const setParamValuesIn: Record<ParamLoc, React.Dispatch<React.SetStateAction<Record<string, string>>>> = {
+    path: setPathValues, query: setQueryValues, header: setHeaderValues, cookie: setCookieValues,
+  };
+
+  /** Cycle the request media type; values typed so far are kept for fields the new schema shares. */
+  const cycleContentType = useCallback((dir: 1 | -1) => {
+    if (mediaTypes.length < 2) return;
+    const idx = Math.max(0, mediaTypes.findIndex((m) => m.contentType === contentType));
+    const next = mediaTypes[(idx + dir + mediaTypes.length) % mediaTypes.length]!;
+    setContentType(next.contentType);
+    const defs = next.schema ? extractBodyFields(next.schema, '', 0, arrayCounts, variantChoices) : [];
+    setBodyFieldValues((prev) => ({ ...buildInitialFieldValues(defs), ...prev }));
+  }, [mediaTypes, contentType, arrayCounts, variantChoices]);
 
   const setBodyField = useCallback((key: string, value: string) => {
     setBodyFieldValues((prev) => ({ ...prev, [key]: value }));
   }, []);
 
+  /** Map a JSON body onto field values, growing arrays to the item counts it contains
+   *  and picking the oneOf/anyOf branches it matches. */
+  const fieldValuesFromJson = useCallback((json: Record<string, unknown>): Record<string, string> => {
+    if (!bodySchema) return {};
+    const counts = { ...arrayCounts, ...arrayCountsOf(json) };
+    const choices = { ...variantChoices };
+    let defs = extractBodyFields(bodySchema, '', 0, counts, choices);
+    // Nested variants only appear once their parent's branch is chosen — settle a few levels deep
+    for (let pass = 0; pass < 4; pass++) {
+      let changed = false;
+      for (const f of defs) {
+        if (!f.variants) continue;
+        const idx = matchVariant(f.variants, f.fullKey ? getNestedValue(json, f.fullKey) : json);
+        if (choices[f.fullKey] !== idx) { choices[f.fullKey] = idx; changed = true; }
+      }
+      if (!changed) break;
+      defs = extractBodyFields(bodySchema, '', 0, counts, choices);
+    }
+    setArrayCounts(counts);
+    setVariantChoices(choices);
+    return deserializeBodyFields(defs, json);
+  }, [bodySchema, arrayCounts, variantChoices]);
+
+  /** Switch the oneOf/anyOf branch at `key`: new fields get defaults and the discriminator its value. */
+  const cycleVariant = useCallback((key: string, dir: 1 | -1) => {
+    const header = bodyFieldDefs.find((f) => f.fullKey === key && f.variants);
+    if (!header || !bodySchema) return;
+    const n = header.variants!.options.length;
+    const choices = { ...variantChoices, [key]: ((header.variantIndex ?? 0) + dir + n) % n };
+    setVariantChoices(choices);
+    const defs = extractBodyFields(bodySchema, '', 0, arrayCounts, choices)
+      .filter((f) => !key || f.fullKey === key || f.fullKey.startsWith(key + '.'));
+    const disc = header.variants!.discriminator;
+    const discKey = disc && (key ? `${key}.${disc}` : disc);
+    const discValue = discKey ? defs.find((f) => f.fullKey === discKey)?.defaultValue : undefined;
+    setBodyFieldValues((prev) => ({
+      ...buildInitialFieldValues(defs),
+      ...prev,
+      ...(discKey && discValue !== undefined ? { [discKey]: discValue } : {}),
+    }));
+  }, [bodyFieldDefs, bodySchema, variantChoices, arrayCounts]);
+
+  // ── Array items: add / remove / reorder ──
+
+  /** Re-key body values, nested item counts and collapsed groups under an array after items move.
+   *  Returns the new item counts. */
+  const reindexArray = useCallback((arrayKey: string, mapIndex: (i: number) => number | null, countDelta: number): ArrayCounts => {
+    const counts = reindexItems(arrayCounts, arrayKey, mapIndex);
+    const current = bodyFieldDefs.find((f) => f.fullKey === arrayKey)?.arrayItems ?? 0;
+    counts[arrayKey] = Math.max(0, current + countDelta);
+    setArrayCounts(counts);
+    setBodyFieldValues((prev) => reindexItems(prev, arrayKey, mapIndex));
+    setCollapsedBodyGroups((prev) => {
+      const rec = reindexItems(Object.fromEntries([...prev].map((k) => [k, true])), arrayKey, mapIndex);
+      return new Set(Object.keys(rec));
+    });
+    return counts;
+  }, [arrayCounts, bodyFieldDefs]);
+
+  /** Insert a new item at `at`, pre-filled with defaults, and focus it. */
+  const insertArrayItem = useCallback((arrayKey: string, at: number) => {
+    if (!bodySchema) return;
+    const counts = reindexArray(arrayKey, (i) => (i >= at ? i + 1 : i), 1);
+    const itemKey = `${arrayKey}.${at}`;
+    const defs = extractBodyFields(bodySchema, '', 0, counts)
+      .filter((f) => f.fullKey === itemKey || f.fullKey.startsWith(itemKey + '.'));
+    setBodyFieldValues((prev) => ({ ...prev, ...buildInitialFieldValues(defs) }));
+    setCollapsedBodyGroups((prev) => {
+      const next = new Set(prev);
+      next.delete(arrayKey);
+      return next;
+    });
+    const first = defs[0];
+    if (first) setFocusedField(first.isGroupHeader ? `body-group:${first.fullKey}` : `body:${first.fullKey}`);
+  }, [bodySchema, reindexArray]);
+
+  const removeArrayItem = useCallback((arrayKey: string, index: number) => {
+    reindexArray(arrayKey, (i) => (i === index ? null : i > index ? i - 1 : i), -1);
+    setFocusedField(`body-group:${arrayKey}`);
+  }, [reindexArray]);
+
+  /** Swap an item with its neighbour; focus follows the moved item. */
+  const moveArrayItem = useCallback((arrayKey: string, index: number, dir: 1 | -1, count: number) => {
+    const target = index + dir;
+    if (target < 0 || target >= count) return;
+    reindexArray(arrayKey, (i) => (i === index ? target : i === target ? index : i), 0);
+    const from = `${arrayKey}.${index}`;
+    setFocusedField((cur) => {
+      const m = /^(body(?:-group)?:)(.*)$/.exec(cur);
+      if (!m || !(m[2] === from || m[2]!.startsWith(from + '.'))) return cur;
+      return `${m[1]}${arrayKey}.${target}${m[2]!.slice(from.length)}`;
+    });
+  }, [reindexArray]);
+
   const [focusedField, setFocusedField] = useState<string>('baseUrl');
   const [editingField, setEditingField] = useState<string | null>(null);
   const [scrollOff, setScrollOff] = useState(0);
   const [treeMode, setTreeMode] = useState(false);
+  const [violationsMode, setViolationsMode] = useState(false);
+  const [sendCheckOpen, setSendCheckOpen] = useState(false);
+  const [sendCheckIdx, setSendCheckIdx] = useState(0);
   const [collapsedBodyGroups, setCollapsedBodyGroups] = useState<Set<string>>(new Set());
   const [dateSegIdx, setDateSegIdx] = useState(0);
   const [dtTypeBuf, setDtTypeBuf] = useState('');
@@ -393,18 +849,29 @@ export function RequestForm({ endpoint, env, fallbackBaseUrl = '', onClose, heig
   const [saveName, setSaveName] = useState('');
   const [varPickerOpen, setVarPickerOpen] = useState(false);
   const [varPickerIdx, setVarPickerIdx] = useState(0);
+  // Unresolved placeholder the picked variable replaces — null appends it
+  const [varPickerReplace, setVarPickerReplace] = useState<string | null>(null);
   const [fakerOpen, setFakerOpen] = useState(false);
   const [fakerIdx, setFakerIdx] = useState(0);
   const [fakerValues, setFakerValues] = useState<Record<string, string>>({});
+  // Bumped when the custom generators change, so the catalogue is rebuilt
+  const [generatorsVersion, setGeneratorsVersion] = useState(0);
+  const fakerCatalogue = useMemo(() => fakerEntries(fakerLocale), [fakerLocale, generatorsVersion]);
   const [importOpen, setImportOpen] = useState(false);
   const [importInput, setImportInput] = useState('');
   const [importError, setImportError] = useState('');
   const [histCompValues, setHistCompValues] = useState<string[]>([]);
   const [histCompIdx, setHistCompIdx] = useState(-1);
-  const [fieldPatterns, setFieldPatterns] = useState<Record<string, string>>(() => getFieldPatterns());
+  const [fieldPatterns, setFieldPatterns] = useState<FieldPattern[]>(() => getFieldPatterns());
   const [fakerPatternMode, setFakerPatternMode] = useState(false);
+  // Which of patternCandidates [p] saves
+  const [patternRuleIdx, setPatternRuleIdx] = useState(0);
   const [patternFeedback, setPatternFeedback] = useState('');
+  const [notice, setNotice] = useState<{ text: string; error: boolean } | null>(null);
   const [patternsOpen, setPatternsOpen] = useState(false);
+  const [extractOpen, setExtractOpen] = useState(false);
+  // What the extraction rules captured from the last response
+  const [lastCaptures, setLastCaptures] = useState<Capture[]>([]);
   const [patternsIdx, setPatternsIdx] = useState(0);
   // Field lookup state
   const [fieldLookups, setFieldLookups] = useState<Record<string, FieldLookup>>(() => getFieldLookups());
@@ -437,9 +904,10 @@ export function RequestForm({ endpoint, env, fallbackBaseUrl = '', onClose, heig
   const fields = useMemo(() => {
     const result: string[] = [
       'baseUrl',
-      ...pathParams.map((p) => `path:${p.name}`),
-      ...queryParams.map((p) => `query:${p.name}`),
+      ...(showServerPicker ? ['server', ...serverVarNames.map((n) => `server-var:${n}`)] : []),
+      ...allParams.flatMap((p) => paramFieldIds(p, paramValuesIn[p.in][p.name] ?? '')),
       'headers',
+      ...(mediaTypes.length > 1 ? ['contentType'] : []),
     ];
     for (const f of bodyFieldDefs) {
       if (isChildOfCollapsed(f.fullKey, collapsedBodyGroups)) continue;
@@ -447,28 +915,39 @@ export function RequestForm({ endpoint, env, fallbackBaseUrl = '', onClose, heig
     }
     result.push('__submit__');
     return result;
-  }, [pathParams, queryParams, bodyFieldDefs, collapsedBodyGroups]);
+  }, [showServerPicker, serverVarNames.join(','), endpoint.parameters, pathValues, queryValues, headerValues, cookieValues, mediaTypes.length, bodyFieldDefs, collapsedBodyGroups]);
 
   const { state: reqState, result, execute } = useRequest();
 
   const scrollRows: FormRow[] = useMemo(() => [
-    ...pathParams.map((p) => ({ kind: 'path' as const, param: p })),
-    ...queryParams.map((p) => ({ kind: 'query' as const, param: p })),
-    ...(env?.tokenProvider ? [{ kind: 'token' as const }] : []),
+    ...(showServerPicker ? [{ kind: 'server' as const }, ...serverVarNames.map((name) => ({ kind: 'server-var' as const, name }))] : []),
+    ...allParams.flatMap((p) => [
+      { kind: 'param' as const, param: p },
+      ...Array.from({ length: paramKind(p) === 'primitive' ? 0 : paramRowCount(p, paramValuesIn[p.in][p.name] ?? '') }, (_, index) => ({ kind: 'param-row' as const, param: p, index })),
+    ]),
+    ...(env?.tokenProvider || env?.oauth2 ? [{ kind: 'token' as const }] : []),
+    ...(endpoint.security.length > 0 ? [{ kind: 'security' as const }] : []),
     { kind: 'headers' as const },
+    ...(mediaTypes.length > 1 ? [{ kind: 'content-type' as const }] : []),
     ...bodyFieldDefs
       .filter((f) => !isChildOfCollapsed(f.fullKey, collapsedBodyGroups))
       .map((f) => ({ kind: 'body-field' as const, field: f })),
-  ], [pathParams, queryParams, env, bodyFieldDefs, collapsedBodyGroups]);
+  ], [showServerPicker, serverVarNames.join(','), endpoint.parameters, pathValues, queryValues, headerValues, cookieValues, env, endpoint.security, bodyFieldDefs, collapsedBodyGroups]);
 
   const responseHeight = result ? Math.min(Math.floor(height / 2), 14) : 0;
   const formHeight = height - responseHeight;
   const maxScrollVisible = Math.max(1, formHeight - 5);
 
   const focusedRowIdx = useMemo(() => scrollRows.findIndex((row) => {
-    if (row.kind === 'path') return focusedField === `path:${row.param.name}`;
-    if (row.kind === 'query') return focusedField === `query:${row.param.name}`;
+    if (row.kind === 'server') return focusedField === 'server';
+    if (row.kind === 'server-var') return focusedField === `server-var:${row.name}`;
+    if (row.kind === 'param') return focusedField === paramId(row.param);
+    if (row.kind === 'param-row') {
+      const rf = paramRowField(focusedField);
+      return rf !== null && rf.part !== 'rows' && rf.loc === row.param.in && rf.name === row.param.name && rf.index === row.index;
+    }
     if (row.kind === 'headers') return focusedField === 'headers';
+    if (row.kind === 'content-type') return focusedField === 'contentType';
     if (row.kind === 'body-field') {
       if (row.field.isGroupHeader) return focusedField === `body-group:${row.field.fullKey}`;
       return focusedField === `body:${row.field.fullKey}`;
@@ -489,6 +968,59 @@ export function RequestForm({ endpoint, env, fallbackBaseUrl = '', onClose, heig
   const hasMoreAbove = scrollOff > 0;
   const hasMoreBelow = scrollOff + maxScrollVisible < scrollRows.length;
 
+  /** Innermost array the focused body row belongs to — index is null on the array's own header. */
+  const focusedArray = useMemo((): { arrayKey: string; index: number | null; count: number } | null => {
+    const m = /^body(?:-group)?:(.*)$/.exec(focusedField);
+    if (!m) return null;
+    const arrays = new Map(bodyFieldDefs.filter((f) => f.arrayItems !== undefined).map((f) => [f.fullKey, f.arrayItems!]));
+    const key = m[1]!;
+    if (arrays.has(key)) return { arrayKey: key, index: null, count: arrays.get(key)! };
+    const parts = key.split('.');
+    for (let i = parts.length - 1; i > 0; i--) {
+      const arrayKey = parts.slice(0, i).join('.');
+      if (isIndex(parts[i]) && arrays.has(arrayKey)) return { arrayKey, index: Number(parts[i]), count: arrays.get(arrayKey)! };
+    }
+    return null;
+  }, [focusedField, bodyFieldDefs]);
+
+  /** Array or object param whose rows the focus is on — index is null on the param's header. */
+  const focusedParamRows = useMemo((): { param: Parameter; index: number | null; count: number } | null => {
+    const rf = paramRowField(focusedField);
+    const param = rf ? paramsIn[rf.loc].find((p) => p.name === rf.name) : undefined;
+    if (!rf || !param) return null;
+    return { param, index: rf.part === 'rows' ? null : rf.index, count: paramRowCount(param, paramValuesIn[rf.loc][rf.name] ?? '') };
+  }, [focusedField, endpoint.parameters, pathValues, queryValues, headerValues, cookieValues]);
+
+  // ── Array and object params: add / remove / reorder rows ──
+
+  /** Rewrite the item or key/value rows of a param. */
+  function editParamRows(p: Parameter, edit: <T>(rows: T[], blank: T) => T[]) {
+    setParamValuesIn[p.in]((prev) => {
+      const raw = prev[p.name] ?? '';
+      const next = paramKind(p) === 'array' ? rowsValue(edit(paramItems(raw), '')) : rowsValue(edit<[string, string]>(paramEntries(raw), ['', '']));
+      return { ...prev, [p.name]: next };
+    });
+  }
+
+  /** Insert a blank row at `at` and focus it — an entry's key first. */
+  function insertParamRow(p: Parameter, at: number) {
+    editParamRows(p, (rows, blank) => [...rows.slice(0, at), blank, ...rows.slice(at)]);
+    setFocusedField(`${p.in}-${paramKind(p) === 'array' ? 'item' : 'key'}:${at}:${p.name}`);
+  }
+
+  function removeParamRow(p: Parameter, index: number) {
+    editParamRows(p, (rows) => rows.filter((_, i) => i !== index));
+    setFocusedField(paramId(p));
+  }
+
+  /** Swap a row with its neighbour; focus follows the moved row. */
+  function moveParamRow(p: Parameter, index: number, dir: 1 | -1, count: number) {
+    const target = index + dir;
+    if (target < 0 || target >= count) return;
+    editParamRows(p, (rows) => rows.map((r, i) => (i === index ? rows[target]! : i === target ? rows[index]! : r)));
+    setFocusedField((cur) => cur.replace(`:${index}:`, `:${target}:`));
+  }
+
   const moveFocus = useCallback((dir: 1 | -1) => {
     setFocusedField((cur) => {
       const idx = fields.indexOf(cur);
@@ -497,69 +1029,304 @@ export function RequestForm({ endpoint, env, fallbackBaseUrl = '', onClose, heig
     });
   }, [fields]);
 
-  // Load history completion values when entering edit mode on a path/query param
+  // Load history completion values when entering edit mode on a param
   useEffect(() => {
-    if (!editingField || (!editingField.startsWith('path:') && !editingField.startsWith('query:'))) {
+    const pf = editingField ? paramField(editingField) : null;
+    if (!pf) {
       setHistCompValues([]);
       setHistCompIdx(-1);
       return;
     }
-    const isPath = editingField.startsWith('path:');
-    const paramName = isPath ? editingField.slice(5) : editingField.slice(6);
-    const vals = getPastParamValues(endpoint.id, isPath ? 'pathParams' : 'queryParams', paramName);
+    const vals = getPastParamValues(endpoint.id, HISTORY_KIND[pf.loc], pf.name);
     setHistCompValues(vals);
     setHistCompIdx(-1);
   }, [editingField, endpoint.id]);
 
-  const effectiveBaseUrl = env?.baseUrl ?? baseUrlInput.trim();
+  const effectiveBaseUrl = envUrl || baseUrlInput.trim();
+  // Operation/path-level servers override whatever base URL applies to the rest of the spec
+  const operationUrl = operationServerUrl(endpoint, effectiveBaseUrl, env?.server?.variables);
+
+  /** Update the picker selection and mirror the resolved URL into the Base URL input. */
+  const selectServer = useCallback((index: number, variables: Record<string, string>) => {
+    const server = specServers[index];
+    if (!server) return;
+    dispatch({ type: 'SELECT_SERVER', selection: { index, variables } });
+    setBaseUrlInput(resolveServerUrl(server.url, variables, server));
+  }, [specServers, dispatch]);
+
+  const cycleServerOption = useCallback((field: string, dir: 1 | -1): boolean => {
+    if (field === 'server') {
+      const next = (state.selectedServer.index + dir + specServers.length) % specServers.length;
+      selectServer(next, defaultServerVariables(specServers[next]!));
+      return true;
+    }
+    const opts = field.startsWith('server-var:') ? selectedServer?.variables[field.slice(11)]?.enum : undefined;
+    if (!opts?.length) return false;
+    const name = field.slice(11);
+    const cur = state.selectedServer.variables[name] ?? selectedServer!.variables[name]!.default;
+    const next = opts[(Math.max(0, opts.indexOf(cur)) + dir + opts.length) % opts.length]!;
+    selectServer(state.selectedServer.index, { ...state.selectedServer.variables, [name]: next });
+    return true;
+  }, [specServers, selectedServer, state.selectedServer, selectServer]);
 
   const resolvedPath = useMemo(() => {
     let p = endpoint.path;
     for (const [k, v] of Object.entries(pathValues)) {
-      if (v) p = p.replace(`{${k}}`, v);
+      if (v) p = p.replace(`{${k}}`, serializePathParam(pathParams.find((pp) => pp.name === k), k, v));
     }
     return p;
-  }, [endpoint.path, pathValues]);
+  }, [endpoint.path, endpoint.parameters, pathValues]);
 
-  const handleSubmit = useCallback(async (queryOverrides?: Record<string, string>) => {
-    setEditingField(null);
+  /** What would be sent right now — shared by send, save and the pre-send check. */
+  const requestValues = useMemo((): RequestValues => {
     let parsedHeaders: Record<string, string> = {};
     if (headersStr.trim()) {
       try { parsedHeaders = JSON.parse(headersStr); } catch { /* ignore */ }
     }
-    const bodyStr = bodyFieldDefs.length > 0
-      ? serializeBodyFields(bodyFieldDefs, bodyFieldValues, collapsedBodyGroups)
+    const bodyStr = endpoint.requestBody
+      ? serializeBodyFields(bodyFieldDefs, bodyFieldValues, collapsedBodyGroups, bodyExtras)
       : '';
-    const values: RequestValues = {
+    return {
       pathParams: pathValues,
-      queryParams: queryOverrides ? { ...queryValues, ...queryOverrides } : queryValues,
+      queryParams: queryValues,
+      headerParams: headerValues,
+      cookieParams: cookieValues,
       headers: parsedHeaders,
       body: bodyStr,
+      ...(contentType ? { contentType } : {}),
+      ...(Object.keys(requestVars).length > 0 ? { variables: requestVars } : {}),
     };
-    await execute(endpoint, values, env, effectiveBaseUrl);
-  }, [pathValues, queryValues, headersStr, bodyFieldValues, bodyFieldDefs, collapsedBodyGroups, endpoint, env, effectiveBaseUrl, execute]);
+  }, [pathValues, queryValues, headerValues, cookieValues, headersStr, bodyFieldValues, bodyFieldDefs, collapsedBodyGroups, bodyExtras, contentType, endpoint.requestBody, requestVars]);
+
+  const blockUnresolved = Boolean((liveEnv ?? env)?.blockUnresolved);
+  const requestCheck = useMemo(
+    () => validateRequest(endpoint, requestValues, { baseUrl: effectiveBaseUrl, variables: varValues, locale: fakerLocale, block: blockUnresolved }),
+    [endpoint, requestValues, effectiveBaseUrl, varValues, fakerLocale, blockUnresolved]
+  );
+  // The environment refuses to send these — not even past the pre-send check
+  const unresolvedBlocked = requestCheck.violations.some((v) => v.kind === 'unresolved' && v.severity === 'error');
+
+  // First violation per form field, errors before warnings
+  const fieldIssues = useMemo(() => {
+    const map = new Map<string, RequestViolation>();
+    for (const v of requestCheck.violations) {
+      const cur = map.get(v.field);
+      if (!cur || (cur.severity === 'warning' && v.severity === 'error')) map.set(v.field, v);
+    }
+    return map;
+  }, [requestCheck]);
+
+  const report = useCallback((text: string, error: boolean) => {
+    setNotice({ text, error });
+    setTimeout(() => setNotice(null), error ? 4000 : 2500);
+  }, []);
+
+  const handleSubmit = useCallback(async (queryOverrides?: Record<string, string>) => {
+    setEditingField(null);
+    setSendCheckOpen(false);
+    const values: RequestValues = queryOverrides
+      ? { ...requestValues, queryParams: { ...requestValues.queryParams, ...queryOverrides } }
+      : requestValues;
+    const res = await execute(endpoint, values, env, effectiveBaseUrl, seed);
+    // Chaining: the endpoint's extraction rules, plus the saved request's when loaded from one
+    const saved = savedRequestId ? getSavedRequests().find((r) => r.id === savedRequestId) : undefined;
+    const rules = [...getExtractionRules(endpoint.id), ...(saved?.extract ?? [])];
+    const captures = rules.length > 0 ? runExtraction(endpoint.id, rules, res) : [];
+    const target = liveEnv ?? env;
+    if (!target) {
+      setLastCaptures(captures);
+      if (captures.some((c) => c.value !== undefined)) report('Captured values not stored — no active environment', true);
+      return;
+    }
+    // Marks what it couldn't store on the captures, so the log shows why
+    const variables = applyCaptures(target, captures);
+    setLastCaptures(captures);
+    if (variables) dispatch({ type: 'UPDATE_ENV_VARIABLES', envName: target.name, variables });
+  }, [requestValues, endpoint, env, liveEnv, effectiveBaseUrl, execute, seed, savedRequestId, report, dispatch]);
+
+  /** Send unless the request breaks the spec — then show the summary, which can force-send. */
+  const trySubmit = useCallback(() => {
+    setEditingField(null);
+    if (requestCheck.errors > 0) {
+      setSendCheckOpen(true);
+      setSendCheckIdx(0);
+      return;
+    }
+    void handleSubmit();
+  }, [requestCheck, handleSubmit]);
+
+  /** Replace the body with a JSON object — fields follow it, keys outside the schema are kept aside.
+   *  Returns how many top-level keys no field covers. */
+  const applyBodyJson = useCallback((obj: Record<string, unknown>): number => {
+    const mapped = fieldValuesFromJson(obj);
+    const extras = uncoveredBody(obj, mapped);
+    setBodyFieldValues(mapped);
+    setBodyExtras(extras);
+    // Groups that now hold values are expanded, or their fields wouldn't be sent
+    setCollapsedBodyGroups((prev) => new Set([...prev].filter((g) => getNestedValue(obj, g) === undefined)));
+    return Object.keys(extras).length;
+  }, [fieldValuesFromJson]);
+
+  /** Edit the whole body as JSON in $VISUAL / $EDITOR, then map it back onto the fields. */
+  const editBodyExternally = useCallback(() => {
+    const current = requestValues.body;
+    const edited = editInEditor(current ? JSON.stringify(JSON.parse(current), null, 2) + '\n' : '{}\n', '.json');
+    if ('error' in edited) { report(edited.error, true); return; }
+    let json: unknown = {};
+    if (edited.text.trim()) {
+      try {
+        json = JSON.parse(edited.text);
+      } catch (err) {
+        report(`Body not applied — invalid JSON: ${err instanceof Error ? err.message : String(err)}`, true);
+        return;
+      }
+    }
+    if (!json || typeof json !== 'object' || Array.isArray(json)) {
+      report('Body not applied — expected a JSON object', true);
+      return;
+    }
+    const extraCount = applyBodyJson(json as Record<string, unknown>);
+    report(`✓ Body updated from ${editorCommand()}${extraCount > 0 ? ` · ${extraCount} field${extraCount === 1 ? '' : 's'} outside the schema kept` : ''}`, false);
+  }, [requestValues, applyBodyJson, report]);
+
+  /** Edit the custom faker generators as JSON in $VISUAL / $EDITOR — saved only when they all check out. */
+  const editGenerators = useCallback(() => {
+    const current = getCustomGenerators();
+    const text = JSON.stringify(current.length > 0 ? current : GENERATORS_SAMPLE, null, 2) + '\n';
+    const edited = editInEditor(text, '.json');
+    if ('error' in edited) { report(edited.error, true); return; }
+    if (edited.text === text) return;
+    let list: unknown;
+    try {
+      list = edited.text.trim() ? JSON.parse(edited.text) : [];
+    } catch (err) {
+      report(`Generators not saved — invalid JSON: ${err instanceof Error ? err.message : String(err)}`, true);
+      return;
+    }
+    const problems = checkGenerators(list);
+    if (problems.length > 0) {
+      report(`Generators not saved — ${problems[0]}${problems.length > 1 ? ` (+${problems.length - 1} more)` : ''}`, true);
+      return;
+    }
+    saveCustomGenerators(list as CustomGenerator[]);
+    const entries = fakerEntries(fakerLocale);
+    setGeneratorsVersion((v) => v + 1);
+    setFakerIdx((i) => Math.min(i, entries.length - 1));
+    const generated: Record<string, string> = {};
+    withSeed(deriveSeed(seed, focusedField), () => {
+      for (const entry of entries) generated[entry.id] = entry.generate();
+    });
+    setFakerValues(generated);
+    report(`✓ ${(list as CustomGenerator[]).length} custom generator${(list as CustomGenerator[]).length === 1 ? '' : 's'} saved`, false);
+  }, [report, fakerLocale, seed, focusedField]);
+
+  /** Edit the field pattern rules as JSON in $VISUAL / $EDITOR — the way to write /regex/ rules. */
+  const editPatterns = useCallback(() => {
+    const text = JSON.stringify(getFieldPatterns(), null, 2) + '\n';
+    const edited = editInEditor(text, '.json');
+    if ('error' in edited) { report(edited.error, true); return; }
+    if (edited.text === text) return;
+    let list: unknown;
+    try {
+      list = edited.text.trim() ? JSON.parse(edited.text) : [];
+    } catch (err) {
+      report(`Patterns not saved — invalid JSON: ${err instanceof Error ? err.message : String(err)}`, true);
+      return;
+    }
+    const problems = checkFieldPatterns(list, (id) => Boolean(findFakerEntry(id, fakerLocale)));
+    if (problems.length > 0) {
+      report(`Patterns not saved — ${problems[0]}${problems.length > 1 ? ` (+${problems.length - 1} more)` : ''}`, true);
+      return;
+    }
+    saveFieldPatterns(list as FieldPattern[]);
+    setFieldPatterns(list as FieldPattern[]);
+    setPatternsIdx(0);
+    report(`✓ ${(list as FieldPattern[]).length} pattern rule${(list as FieldPattern[]).length === 1 ? '' : 's'} saved`, false);
+  }, [report, fakerLocale]);
+
+  /** Edit extraction rules as JSON in $VISUAL / $EDITOR — the endpoint's, or the loaded saved request's. */
+  const editExtraction = useCallback((forSaved: boolean) => {
+    const saved = savedRequestId ? getSavedRequests().find((r) => r.id === savedRequestId) : undefined;
+    if (forSaved && !saved) return;
+    const current = forSaved ? saved?.extract ?? [] : getExtractionRules(endpoint.id);
+    const sample: ExtractionRule[] = [
+      { variable: 'orderId', source: 'body', expr: '$.data.id' },
+      { variable: 'resourceUrl', source: 'header', expr: 'Location' },
+    ];
+    const text = JSON.stringify(current.length > 0 ? current : sample, null, 2) + '\n';
+    const edited = editInEditor(text, '.json');
+    if ('error' in edited) { report(edited.error, true); return; }
+    if (edited.text === text) return;
+    let list: unknown;
+    try {
+      list = edited.text.trim() ? JSON.parse(edited.text) : [];
+    } catch (err) {
+      report(`Rules not saved — invalid JSON: ${err instanceof Error ? err.message : String(err)}`, true);
+      return;
+    }
+    const problems = checkExtractionRules(list);
+    if (problems.length > 0) {
+      report(`Rules not saved — ${problems[0]}${problems.length > 1 ? ` (+${problems.length - 1} more)` : ''}`, true);
+      return;
+    }
+    if (forSaved) setSavedRequestExtract(saved!.id, list as ExtractionRule[]);
+    else setExtractionRules(endpoint.id, list as ExtractionRule[]);
+    report(`✓ ${(list as ExtractionRule[]).length} extraction rule${(list as ExtractionRule[]).length === 1 ? '' : 's'} saved`, false);
+  }, [endpoint.id, savedRequestId, report]);
+
+  /** Edit the request-local variables as a JSON object in $VISUAL / $EDITOR. */
+  const editRequestVars = useCallback(() => {
+    const text = JSON.stringify(requestVars, null, 2) + '\n';
+    const edited = editInEditor(text, '.json');
+    if ('error' in edited) { report(edited.error, true); return; }
+    if (edited.text === text) return;
+    let vars: unknown;
+    try {
+      vars = edited.text.trim() ? JSON.parse(edited.text) : {};
+    } catch (err) {
+      report(`Variables not applied — invalid JSON: ${err instanceof Error ? err.message : String(err)}`, true);
+      return;
+    }
+    if (!vars || typeof vars !== 'object' || Array.isArray(vars)) { report('Variables not applied — expected a JSON object', true); return; }
+    const bad = Object.entries(vars).find(([k, v]) => !/^\w+$/.test(k) || typeof v !== 'string');
+    if (bad) { report(`Variables not applied — "${bad[0]}" must be a {{name}} with a string value`, true); return; }
+    setRequestVars(vars as Record<string, string>);
+    report(`✓ ${Object.keys(vars).length} request variable${Object.keys(vars).length === 1 ? '' : 's'} — they override global, spec and env ones`, false);
+  }, [requestVars, report]);
+
+  /** Fill every body field at once — the media example when the spec has one, else a generated instance. */
+  const fillWholeBody = useCallback(() => {
+    if (!bodySchema) return;
+    const media = selectRequestMedia(endpoint, contentType);
+    const body = media?.example
+      ?? withSeed(seed, () => generateExample(bodySchema, {
+        choices: variantChoices, patterns: fieldPatterns, operation: { id: endpoint.id, tags: endpoint.tags }, locale: fakerLocale,
+      }));
+    if (!body || typeof body !== 'object' || Array.isArray(body)) {
+      report('Only object bodies can be filled into the form', true);
+      return;
+    }
+    applyBodyJson(structuredClone(body) as Record<string, unknown>);
+    report(media?.example !== undefined ? '✓ Body filled from the spec example' : '✓ Body filled with generated values', false);
+  }, [bodySchema, endpoint, contentType, variantChoices, fieldPatterns, applyBodyJson, report, seed, fakerLocale]);
 
   const handleSave = useCallback(() => {
     const name = saveName.trim() || `${endpoint.method.toUpperCase()} ${endpoint.path}`;
-    let parsedHeaders: Record<string, string> = {};
-    if (headersStr.trim()) {
-      try { parsedHeaders = JSON.parse(headersStr); } catch { /* ignore */ }
-    }
-    const bodyStr = bodyFieldDefs.length > 0
-      ? serializeBodyFields(bodyFieldDefs, bodyFieldValues, collapsedBodyGroups)
-      : '';
+    // Secret values typed into the form are saved as their {{name}}
+    const secrets = secretValues(liveEnv ?? env, requestVars);
     saveRequest({
       name,
       endpointId: endpoint.id,
       method: endpoint.method,
       path: endpoint.path,
       envName: env?.name ?? null,
-      values: { pathParams: pathValues, queryParams: queryValues, headers: parsedHeaders, body: bodyStr },
-      bodyFieldValues,
+      values: redactSecrets(requestValues, secrets),
+      bodyFieldValues: Object.fromEntries(Object.entries(bodyFieldValues).map(([k, v]) => [k, replaceSecrets(v, secrets, (n) => `{{${n}}}`)])),
+      seed,
     });
     setSaveMode(false);
     setSaveName('');
-  }, [saveName, headersStr, bodyFieldDefs, bodyFieldValues, collapsedBodyGroups, pathValues, queryValues, endpoint, env]);
+  }, [saveName, requestValues, bodyFieldValues, endpoint, env, liveEnv, requestVars, seed]);
 
   const handleNextUrl = useCallback((url: string) => {
     try {
@@ -579,11 +1346,11 @@ export function RequestForm({ endpoint, env, fallbackBaseUrl = '', onClose, heig
 
   // Whether this endpoint has any spec-defined examples to offer
   const hasSpecExamples = useMemo(() => {
-    if (endpoint.requestBody?.schema?.['example']) return true;
+    if (bodySchema?.['example']) return true;
     if (bodyFieldDefs.some((f) => !f.isGroupHeader && f.example !== undefined)) return true;
-    if ([...pathParams, ...queryParams].some((p) => p.schema?.['example'] !== undefined)) return true;
+    if (allParams.some((p) => p.schema?.['example'] !== undefined)) return true;
     return false;
-  }, [endpoint, bodyFieldDefs, pathParams, queryParams]);
+  }, [endpoint, bodyFieldDefs]);
 
   // Spec example for the currently focused field (used in faker picker)
   const currentSpecExample = useMemo((): string | null => {
@@ -592,18 +1359,14 @@ export function RequestForm({ endpoint, env, fallbackBaseUrl = '', onClose, heig
       const def = bodyFieldDefs.find((d) => d.fullKey === f.slice(5) && !d.isGroupHeader);
       if (def?.example !== undefined) return String(def.example);
     }
-    if (f.startsWith('path:')) {
-      const param = pathParams.find((p) => p.name === f.slice(5));
-      const ex = param?.schema?.['example'];
-      if (ex !== undefined) return String(ex);
-    }
-    if (f.startsWith('query:')) {
-      const param = queryParams.find((p) => p.name === f.slice(6));
+    const pf = paramField(f);
+    if (pf) {
+      const param = paramsIn[pf.loc].find((p) => p.name === pf.name);
       const ex = param?.schema?.['example'];
       if (ex !== undefined) return String(ex);
     }
     return null;
-  }, [focusedField, bodyFieldDefs, pathParams, queryParams]);
+  }, [focusedField, bodyFieldDefs, endpoint.parameters]);
 
   const handleImport = useCallback(() => {
     const parsed = parseCurl(importInput.trim());
@@ -627,10 +1390,28 @@ export function RequestForm({ endpoint, env, fallbackBaseUrl = '', onClose, heig
       setQueryValues((prev) => ({ ...prev, ...filteredQuery }));
     }
 
-    // Headers: exclude content-type (auto-managed); store the rest as JSON
+    // Spec-declared header params and cookies get their own fields
+    const headerParamByLower = new Map(headerParams.map((p) => [p.name.toLowerCase(), p.name]));
+    const importedHeaderParams: Record<string, string> = {};
+    for (const [k, v] of Object.entries(parsed.headers)) {
+      const name = headerParamByLower.get(k);
+      if (name) importedHeaderParams[name] = v;
+    }
+    if (Object.keys(importedHeaderParams).length > 0) {
+      setHeaderValues((prev) => ({ ...prev, ...importedHeaderParams }));
+    }
+    const knownCookies = new Set(cookieParams.map((p) => p.name));
+    const importedCookies = parseCookieHeader(parsed.headers['cookie'] ?? '');
+    const filteredCookies = Object.fromEntries(Object.entries(importedCookies).filter(([k]) => knownCookies.has(k)));
+    if (Object.keys(filteredCookies).length > 0) {
+      setCookieValues((prev) => ({ ...prev, ...filteredCookies }));
+    }
+
+    // Headers: exclude content-type (auto-managed) and the fields filled above; store the rest as JSON
     const importHeaders = Object.fromEntries(
       Object.entries(parsed.headers)
-        .filter(([k]) => k !== 'content-type')
+        .filter(([k]) => k !== 'content-type' && !headerParamByLower.has(k))
+        .filter(([k]) => k !== 'cookie' || Object.keys(filteredCookies).length === 0)
         .map(([k, v]) => [k, v])
     );
     if (Object.keys(importHeaders).length > 0) {
@@ -639,7 +1420,7 @@ export function RequestForm({ endpoint, env, fallbackBaseUrl = '', onClose, heig
 
     // Body: map JSON to structured fields when schema exists
     if (parsed.bodyJson && bodyFieldDefs.length > 0) {
-      const mapped = deserializeBodyFields(bodyFieldDefs, parsed.bodyJson);
+      const mapped = fieldValuesFromJson(parsed.bodyJson);
       if (Object.keys(mapped).length > 0) {
         setBodyFieldValues((prev) => ({ ...prev, ...mapped }));
       }
@@ -648,32 +1429,77 @@ export function RequestForm({ endpoint, env, fallbackBaseUrl = '', onClose, heig
     setImportOpen(false);
     setImportInput('');
     setImportError('');
-  }, [importInput, endpoint.path, queryParams, bodyFieldDefs]);
+  }, [importInput, endpoint.path, endpoint.parameters, bodyFieldDefs, fieldValuesFromJson]);
+
+  /** Update the text of a field that can hold {{variables}} — base URL, params, headers or a body field. */
+  const updateFieldText = useCallback((f: string, update: (prev: string) => string) => {
+    const pf = paramField(f);
+    const rf = paramRowField(f);
+    if (f.startsWith('body:')) {
+      const fKey = f.slice(5);
+      setBodyFieldValues((prev) => ({ ...prev, [fKey]: update(prev[fKey] ?? '') }));
+    } else if (pf) {
+      setParamValuesIn[pf.loc]((prev) => ({ ...prev, [pf.name]: update(prev[pf.name] ?? '') }));
+    } else if (rf && rf.part !== 'rows') {
+      const { loc, name, index } = rf;
+      const part = rf.part;
+      const p = paramsIn[loc].find((x) => x.name === name);
+      setParamValuesIn[loc]((prev) => {
+        const raw = prev[name] ?? '';
+        return { ...prev, [name]: withRowText(p, raw, part, index, update(rowText(p, raw, part, index))) };
+      });
+    } else if (f === 'headers') {
+      setHeadersStr(update);
+    } else if (f === 'baseUrl') {
+      setBaseUrlInput(update);
+    }
+  }, [setBodyFieldValues, endpoint.parameters]);
 
   const insertFakerValue = useCallback((value: string) => {
     const f = focusedField;
     if (f.startsWith('body:')) {
       const fKey = f.slice(5);
       setBodyFieldValues((prev) => ({ ...prev, [fKey]: value }));
-    } else if (f.startsWith('path:')) {
-      setPathValues((prev) => ({ ...prev, [f.slice(5)]: value }));
-    } else if (f.startsWith('query:')) {
-      setQueryValues((prev) => ({ ...prev, [f.slice(6)]: value }));
+    } else if (paramField(f)) {
+      const pf = paramField(f)!;
+      setParamValuesIn[pf.loc]((prev) => ({ ...prev, [pf.name]: value }));
+    } else if (paramRowField(f)) {
+      updateFieldText(f, () => value);
     } else if (f === 'headers') {
       setHeadersStr(value);
     }
-  }, [focusedField]);
+  }, [focusedField, updateFieldText]);
 
   // Fill the currently-editing param field (used by history completion Ctrl+↑↓)
   const setEditingFieldValue = useCallback((val: string) => {
-    if (!editingField) return;
-    if (editingField.startsWith('path:'))  setPathValues((p)  => ({ ...p, [editingField.slice(5)]: val }));
-    if (editingField.startsWith('query:')) setQueryValues((p) => ({ ...p, [editingField.slice(6)]: val }));
+    const pf = editingField ? paramField(editingField) : null;
+    if (pf) setParamValuesIn[pf.loc]((p) => ({ ...p, [pf.name]: val }));
   }, [editingField]);
 
+  /** What field pattern rules are tested against for a form field. */
+  const patternTarget = useCallback((field: string): PatternTarget | null => {
+    const target = (name: string, path: string) => ({ name, path, endpointId: endpoint.id, tags: endpoint.tags });
+    if (field.startsWith('body:')) {
+      const def = bodyFieldDefs.find((d) => d.fullKey === field.slice(5) && !d.isGroupHeader);
+      return def ? target(def.label, def.fullKey) : null;
+    }
+    const pf = paramField(field);
+    return pf ? target(pf.name, pf.name) : null;
+  }, [bodyFieldDefs, endpoint]);
+
+  /** The rules [p] can save for the focused field: by name or by dot-path, for all endpoints, a tag or this endpoint. */
+  const patternCandidates = useMemo((): Omit<FieldPattern, 'fakerId'>[] => {
+    const target = patternTarget(focusedField);
+    if (!target) return [];
+    const path = target.path.split('.').filter((seg) => !/^\d+$/.test(seg)).join('.');
+    const matches = path.includes('.') ? [target.name, path] : [target.name];
+    const scopes = [{}, ...endpoint.tags.map((tag) => ({ tag })), { endpoint: endpoint.id }];
+    return matches.flatMap((match) => scopes.map((scope) => ({ match, ...scope })));
+  }, [patternTarget, focusedField, endpoint]);
+
   // Compute a smart auto-fill suggestion for an empty field (feature 3)
   const computeFieldSuggestion = useCallback((field: string): string | null => {
-    const vars = liveEnv?.variables ?? {};
+    const vars = varValues;
 
     /** Check env vars for a matching name — inserts {{varName}} reference */
     const matchVar = (name: string): string | null => {
@@ -693,50 +1519,52 @@ export function RequestForm({ endpoint, env, fallbackBaseUrl = '', onClose, heig
       if (def.example !== undefined) return String(def.example);
       const v = matchVar(def.label) ?? matchVar(fKey);
       if (v) return v;
-      return suggestFakerForField(def.label, def.type, def.format, def.enumValues, fieldPatterns);
-    }
-    if (field.startsWith('path:')) {
-      const name = field.slice(5);
-      if (pathValues[name]) return null;
-      const p = pathParams.find((x) => x.name === name);
-      if (!p) return null;
-      const ex = p.schema?.['example'];
-      if (ex !== undefined) return String(ex);
-      if (p.default) return p.default;
-      const v = matchVar(name);
-      if (v) return v;
-      return suggestFakerForField(name, p.type, p.schema?.['format'] as string | undefined, undefined, fieldPatterns);
+      return withSeed(deriveSeed(seed, field), () => suggestFakerForField(def.label, def.type, def.format, def.enumValues, matchFieldPattern(fieldPatterns, patternTarget(field)!)?.fakerId, fakerLocale));
     }
-    if (field.startsWith('query:')) {
-      const name = field.slice(6);
-      if (queryValues[name]) return null;
-      const p = queryParams.find((x) => x.name === name);
+    const pf = paramField(field);
+    if (pf) {
+      const name = pf.name;
+      if (paramValuesIn[pf.loc][name]) return null;
+      const p = paramsIn[pf.loc].find((x) => x.name === name);
       if (!p) return null;
       const ex = p.schema?.['example'];
       if (ex !== undefined) return String(ex);
       if (p.default) return p.default;
       const v = matchVar(name);
       if (v) return v;
-      return suggestFakerForField(name, p.type, p.schema?.['format'] as string | undefined, undefined, fieldPatterns);
+      return withSeed(deriveSeed(seed, field), () => suggestFakerForField(name, p.type, p.schema?.['format'] as string | undefined, undefined, matchFieldPattern(fieldPatterns, patternTarget(field)!)?.fakerId, fakerLocale));
     }
     return null;
-  }, [bodyFieldValues, bodyFieldDefs, pathValues, queryValues, pathParams, queryParams, liveEnv, fieldPatterns]);
+  }, [bodyFieldValues, bodyFieldDefs, pathValues, queryValues, headerValues, cookieValues, endpoint.parameters, varValues, fieldPatterns, patternTarget, seed, fakerLocale]);
 
-  const insertVar = useCallback((varName: string) => {
+  /** Append {{varName}} to the focused field — or put it in place of the unresolved placeholder `replacing`. */
+  const insertVar = useCallback((varName: string, replacing: string | null) => {
     const placeholder = `{{${varName}}}`;
-    if (focusedField.startsWith('body:')) {
-      const fKey = focusedField.slice(5);
-      setBodyFieldValues((prev) => ({ ...prev, [fKey]: (prev[fKey] ?? '') + placeholder }));
-    } else if (focusedField.startsWith('path:')) {
-      const pName = focusedField.slice(5);
-      setPathValues((prev) => ({ ...prev, [pName]: (prev[pName] ?? '') + placeholder }));
-    } else if (focusedField.startsWith('query:')) {
-      const pName = focusedField.slice(6);
-      setQueryValues((prev) => ({ ...prev, [pName]: (prev[pName] ?? '') + placeholder }));
-    } else if (focusedField === 'headers') {
-      setHeadersStr((prev) => prev + placeholder);
-    }
-  }, [focusedField, setBodyFieldValues, setPathValues, setQueryValues]);
+    const unresolved = replacing && new RegExp(`\\{\\{\\s*${replacing.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')}\\s*\\}\\}`);
+    updateFieldText(focusedField, (prev) => (unresolved ? prev.replace(unresolved, placeholder) : prev + placeholder));
+  }, [focusedField, updateFieldText]);
+
+  /** Text of a field that can hold {{variables}} — null for any other field. */
+  function fieldText(f: string): string | null {
+    if (f === 'baseUrl') return envUrl || baseUrlInput;
+    if (f === 'headers') return headersStr;
+    if (f.startsWith('body:')) return bodyFieldValues[f.slice(5)] ?? '';
+    const pf = paramField(f);
+    if (pf) return paramValuesIn[pf.loc][pf.name] ?? '';
+    const rf = paramRowField(f);
+    if (!rf || rf.part === 'rows') return null;
+    const p = paramsIn[rf.loc].find((x) => x.name === rf.name);
+    return rowText(p, paramValuesIn[rf.loc][rf.name] ?? '', rf.part, rf.index);
+  }
+
+  /** Open the variables manager to define the first unresolved {{name}} in a field. */
+  function defineMissingVar(f: string) {
+    const text = fieldText(f);
+    const name = text !== null ? unresolvedVariables(text, varValues, fakerLocale).find((n) => /^\w+$/.test(n)) : undefined;
+    if (!name) { report('No unresolved {{variable}} to define here', true); return; }
+    draftVariable(name);
+    dispatch({ type: 'OPEN_MODAL', modal: 'variables' });
+  }
 
   /** Returns the key used for field-lookup storage for the currently focused field */
   const currentFieldLookupKey = useCallback((): string | null => {
@@ -745,9 +1573,7 @@ export function RequestForm({ endpoint, env, fallbackBaseUrl = '', onClose, heig
       const def = bodyFieldDefs.find((d) => d.fullKey === f.slice(5) && !d.isGroupHeader);
       return def?.label ?? null;
     }
-    if (f.startsWith('path:')) return f.slice(5);
-    if (f.startsWith('query:')) return f.slice(6);
-    return null;
+    return paramField(f)?.name ?? null;
   }, [focusedField, bodyFieldDefs]);
 
   /** Execute the configured lookup endpoint and open the value picker */
@@ -762,7 +1588,7 @@ export function RequestForm({ endpoint, env, fallbackBaseUrl = '', onClose, heig
       headers: {},
       body: lookup.body ?? '',
     };
-    void executeRequest(lookupEndpoint, lookupValues, liveEnv, liveEnv?.baseUrl ?? env?.baseUrl ?? '')
+    void executeRequest(lookupEndpoint, lookupValues, liveEnv, effectiveBaseUrl)
       .then((result) => {
         setLookupFetching(false);
         if (result.error || result.body === null || result.body === undefined) {
@@ -783,10 +1609,40 @@ export function RequestForm({ endpoint, env, fallbackBaseUrl = '', onClose, heig
         setLookupPickerScrollOff(0);
         setLookupPickerOpen(true);
       });
-  }, [state.spec, liveEnv, env]);
+  }, [state.spec, liveEnv, effectiveBaseUrl]);
 
   useInput((input, key) => {
-    if (treeMode) return;
+    if (treeMode || violationsMode) return;
+
+    // Pre-send check — the request breaks the spec; send anyway or go fix it
+    if (sendCheckOpen) {
+      const issues = requestCheck.violations;
+      if (key.escape) { setSendCheckOpen(false); return; }
+      if (key.return || input === '!') {
+        if (unresolvedBlocked) report(`Not sent — ${(liveEnv ?? env)?.name} blocks unresolved {{variables}}`, true);
+        else void handleSubmit();
+        return;
+      }
+      if (input === 'n' && issues[sendCheckIdx]?.kind === 'unresolved') {
+        setSendCheckOpen(false);
+        defineMissingVar(issues[sendCheckIdx]!.field);
+        return;
+      }
+      if (key.upArrow) { setSendCheckIdx((i) => Math.max(0, i - 1)); return; }
+      if (key.downArrow) { setSendCheckIdx((i) => Math.min(issues.length - 1, i + 1)); return; }
+      if (input === 'g') {
+        const issue = issues[sendCheckIdx];
+        const bodyKey = issue?.field.startsWith('body:') ? issue.field.slice(5) : null;
+        const pf = issue ? paramField(issue.field) : null;
+        const target = issue && fields.includes(issue.field) ? issue.field
+          : bodyKey !== null && fields.includes(`body-group:${bodyKey}`) ? `body-group:${bodyKey}`
+          : pf && fields.includes(`${pf.loc}-rows:${pf.name}`) ? `${pf.loc}-rows:${pf.name}`
+          : null;
+        if (target) setFocusedField(target);
+        setSendCheckOpen(false);
+      }
+      return;
+    }
 
     if (lookupPickerOpen) {
       // Reserve 4 lines: title + optional col header + margin + hints = ~4
@@ -891,7 +1747,7 @@ export function RequestForm({ endpoint, env, fallbackBaseUrl = '', onClose, heig
           void executeRequest(
             ep!,
             { pathParams: {}, queryParams: filledQp, headers: {}, body: lookupSetupBody.trim() },
-            liveEnv, liveEnv?.baseUrl ?? env?.baseUrl ?? ''
+            liveEnv, effectiveBaseUrl
           ).then((result) => {
             setLookupSetupFetching(false);
             if (result.error || result.body === null || result.body === undefined) {
@@ -906,7 +1762,7 @@ export function RequestForm({ endpoint, env, fallbackBaseUrl = '', onClose, heig
           // Pre-fill body skeleton from spec, then go to body step (or directly fetch)
           if (ep?.requestBody?.schema) {
             const bFields = extractBodyFields(ep.requestBody.schema);
-            const bValues = buildInitialFieldValues(bFields, ep.requestBody.schema);
+            const bValues = buildInitialFieldValues(bFields);
             const skeleton = serializeBodyFields(bFields, bValues, new Set());
             setLookupSetupBody(skeleton);
             setLookupSetupStep('body');
@@ -952,7 +1808,7 @@ export function RequestForm({ endpoint, env, fallbackBaseUrl = '', onClose, heig
           void executeRequest(
             ep!,
             { pathParams: {}, queryParams: filledQp, headers: {}, body: lookupSetupBody.trim() },
-            liveEnv, liveEnv?.baseUrl ?? env?.baseUrl ?? ''
+            liveEnv, effectiveBaseUrl
           ).then((result) => {
             setLookupSetupFetching(false);
             if (result.error || result.body === null || result.body === undefined) {
@@ -1016,18 +1872,26 @@ export function RequestForm({ endpoint, env, fallbackBaseUrl = '', onClose, heig
       return;
     }
 
+    if (extractOpen) {
+      if (key.escape) { setExtractOpen(false); return; }
+      if (input === 'e') { editExtraction(false); return; }
+      if (input === 'E') { editExtraction(true); return; }
+      return;
+    }
+
     if (patternsOpen) {
-      const patternList = Object.entries(fieldPatterns);
+      const patternList = rankPatterns(fieldPatterns);
       if (key.escape) { setPatternsOpen(false); return; }
       if (key.upArrow) { setPatternsIdx((i) => Math.max(0, i - 1)); return; }
       if (key.downArrow) { setPatternsIdx((i) => Math.min(Math.max(0, patternList.length - 1), i + 1)); return; }
+      if (input === 'e') { editPatterns(); return; }
       if (input === 'd' && patternList.length > 0) {
-        const entry = patternList[patternsIdx];
-        if (entry) {
-          removeFieldPattern(entry[0]);
+        const rule = patternList[patternsIdx];
+        if (rule) {
+          removeFieldPattern(rule);
           const next = getFieldPatterns();
           setFieldPatterns(next);
-          setPatternsIdx((i) => Math.max(0, Math.min(i, Object.keys(next).length - 1)));
+          setPatternsIdx((i) => Math.max(0, Math.min(i, next.length - 1)));
         }
         return;
       }
@@ -1037,10 +1901,10 @@ export function RequestForm({ endpoint, env, fallbackBaseUrl = '', onClose, heig
     if (varPickerOpen) {
       if (key.escape) { setVarPickerOpen(false); return; }
       if (key.upArrow) { setVarPickerIdx((i) => Math.max(0, i - 1)); return; }
-      if (key.downArrow) { setVarPickerIdx((i) => Math.min(envVarEntries.length - 1, i + 1)); return; }
-      if (key.return && envVarEntries.length > 0) {
-        const entry = envVarEntries[varPickerIdx];
-        if (entry) { insertVar(entry[0]); }
+      if (key.downArrow) { setVarPickerIdx((i) => Math.min(varPickerEntries.length - 1, i + 1)); return; }
+      if (key.return) {
+        const entry = varPickerEntries[varPickerIdx];
+        if (entry) { insertVar(entry.name, varPickerReplace); }
         setVarPickerOpen(false);
         return;
       }
@@ -1059,14 +1923,20 @@ export function RequestForm({ endpoint, env, fallbackBaseUrl = '', onClose, heig
       if (key.downArrow) {
         setFakerIdx((i) => {
           if (i === -1) return 0;
-          return Math.min(FAKER_ENTRIES.length - 1, i + 1);
+          return Math.min(fakerCatalogue.length - 1, i + 1);
         });
         return;
       }
+      if (input === 'e') { editGenerators(); return; }
+      if (fakerPatternMode && (key.leftArrow || key.rightArrow) && patternCandidates.length > 0) {
+        const n = patternCandidates.length;
+        setPatternRuleIdx((i) => (i + (key.leftArrow ? -1 : 1) + n) % n);
+        return;
+      }
       if (input === ' ') {
         // Regenerate value for current type (not applicable to spec example)
         if (fakerIdx >= 0) {
-          const entry = FAKER_ENTRIES[fakerIdx];
+          const entry = fakerCatalogue[fakerIdx];
           if (entry) setFakerValues((prev) => ({ ...prev, [entry.id]: entry.generate() }));
         }
         return;
@@ -1075,24 +1945,13 @@ export function RequestForm({ endpoint, env, fallbackBaseUrl = '', onClose, heig
         if (fakerPatternMode) {
           // Save pattern instead of inserting value
           if (fakerIdx >= 0) {
-            const entry = FAKER_ENTRIES[fakerIdx];
-            if (entry) {
-              const f = focusedField;
-              let patternKey = '';
-              if (f.startsWith('body:')) {
-                const def = bodyFieldDefs.find((d) => d.fullKey === f.slice(5) && !d.isGroupHeader);
-                patternKey = def?.label ?? f.slice(5);
-              } else if (f.startsWith('path:')) {
-                patternKey = f.slice(5);
-              } else if (f.startsWith('query:')) {
-                patternKey = f.slice(6);
-              }
-              if (patternKey) {
-                setFieldPattern(patternKey, entry.id);
-                setFieldPatterns(getFieldPatterns());
-                setPatternFeedback(`✓ Pattern saved: ${patternKey} → ${entry.label}`);
-                setTimeout(() => setPatternFeedback(''), 2500);
-              }
+            const entry = fakerCatalogue[fakerIdx];
+            const candidate = patternCandidates[patternRuleIdx];
+            if (entry && candidate) {
+              setFieldPattern({ ...candidate, fakerId: entry.id });
+              setFieldPatterns(getFieldPatterns());
+              setPatternFeedback(`✓ Pattern saved: ${candidate.match} (${describeScope(candidate)}) → ${entry.label}`);
+              setTimeout(() => setPatternFeedback(''), 2500);
             }
           }
           setFakerOpen(false);
@@ -1102,7 +1961,7 @@ export function RequestForm({ endpoint, env, fallbackBaseUrl = '', onClose, heig
         if (fakerIdx === -1 && currentSpecExample !== null) {
           insertFakerValue(currentSpecExample);
         } else {
-          const entry = FAKER_ENTRIES[fakerIdx];
+          const entry = fakerCatalogue[fakerIdx];
           if (entry) {
             const value = fakerValues[entry.id] ?? entry.generate();
             insertFakerValue(value);
@@ -1127,7 +1986,7 @@ export function RequestForm({ endpoint, env, fallbackBaseUrl = '', onClose, heig
     }
 
     if (editingField !== null) {
-      if (key.ctrl && key.return) { void handleSubmit(); return; }
+      if (key.ctrl && key.return) { trySubmit(); return; }
       // Ctrl+↑↓: cycle through history values for path/query params (feature 7)
       if (key.ctrl && (key.upArrow || key.downArrow) && histCompValues.length > 0) {
         const newIdx = key.upArrow
@@ -1207,14 +2066,24 @@ export function RequestForm({ endpoint, env, fallbackBaseUrl = '', onClose, heig
         }
       }
 
-      // Specialized path/query param handling
-      if (editingField.startsWith('path:') || editingField.startsWith('query:')) {
-        const isPath = editingField.startsWith('path:');
-        const pName = isPath ? editingField.slice(5) : editingField.slice(6);
-        const params = isPath ? pathParams : queryParams;
-        const setValues = isPath ? setPathValues : setQueryValues;
-        const values = isPath ? pathValues : queryValues;
-        const p = params.find((pp) => pp.name === pName);
+      // Enum and boolean items of array params cycle in place
+      const editingRow = paramRowField(editingField);
+      if (editingRow?.part === 'item') {
+        const opts = itemOptions(paramsIn[editingRow.loc].find((pp) => pp.name === editingRow.name));
+        if (opts) {
+          const step = (dir: 1 | -1) => updateFieldText(editingField, (cur) => opts[(Math.max(0, opts.indexOf(cur)) + dir + opts.length) % opts.length]!);
+          if (key.leftArrow) { step(-1); return; }
+          if (key.rightArrow || input === ' ') { step(1); return; }
+        }
+      }
+
+      // Specialized param handling (path / query / header / cookie)
+      const editingParam = paramField(editingField);
+      if (editingParam) {
+        const pName = editingParam.name;
+        const setValues = setParamValuesIn[editingParam.loc];
+        const values = paramValuesIn[editingParam.loc];
+        const p = paramsIn[editingParam.loc].find((pp) => pp.name === pName);
         if (p) {
           const { baseType, nullable, enumValues, format } = paramMeta(p);
           const cur = values[pName] ?? '';
@@ -1279,10 +2148,9 @@ export function RequestForm({ endpoint, env, fallbackBaseUrl = '', onClose, heig
       // Fill all fields that have spec-defined examples
       const bodyUpdates: Record<string, string> = {};
       // Try top-level request body example first
-      const bodyEx = endpoint.requestBody?.schema?.['example'];
+      const bodyEx = bodySchema?.['example'];
       if (bodyEx && typeof bodyEx === 'object' && !Array.isArray(bodyEx) && bodyFieldDefs.length > 0) {
-        const mapped = deserializeBodyFields(bodyFieldDefs, bodyEx as Record<string, unknown>);
-        Object.assign(bodyUpdates, mapped);
+        Object.assign(bodyUpdates, fieldValuesFromJson(bodyEx as Record<string, unknown>));
       }
       // Individual field examples
       for (const f of bodyFieldDefs) {
@@ -1291,17 +2159,26 @@ export function RequestForm({ endpoint, env, fallbackBaseUrl = '', onClose, heig
         }
       }
       if (Object.keys(bodyUpdates).length > 0) setBodyFieldValues((prev) => ({ ...prev, ...bodyUpdates }));
-      // Path + query params
-      for (const p of pathParams) {
+      // Path, query, header and cookie params
+      for (const p of allParams) {
         const ex = p.schema?.['example'];
-        if (ex !== undefined) setPathValues((prev) => ({ ...prev, [p.name]: String(ex) }));
-      }
-      for (const p of queryParams) {
-        const ex = p.schema?.['example'];
-        if (ex !== undefined) setQueryValues((prev) => ({ ...prev, [p.name]: String(ex) }));
+        if (ex !== undefined) setParamValuesIn[p.in]((prev) => ({ ...prev, [p.name]: typeof ex === 'object' ? JSON.stringify(ex) : String(ex) }));
       }
       return;
     }
+    if (input === 'R') {
+      setSeed(newSeed());
+      report('✓ New seed — fake values and [F] now generate differently', false);
+      return;
+    }
+    if (input === 'F' && bodySchema) {
+      fillWholeBody();
+      return;
+    }
+    if (input === 'E' && endpoint.requestBody) {
+      editBodyExternally();
+      return;
+    }
     if (input === 'i') {
       setImportOpen(true);
       setImportInput('');
@@ -1310,10 +2187,13 @@ export function RequestForm({ endpoint, env, fallbackBaseUrl = '', onClose, heig
     }
     if (input === 'f') {
       const field = focusedField;
-      if (field.startsWith('body:') || field.startsWith('path:') || field.startsWith('query:') || field === 'headers') {
-        // Pre-generate all values
+      const rf = paramRowField(field);
+      if (field.startsWith('body:') || paramField(field) || (rf && rf.part !== 'rows') || field === 'headers') {
+        // Pre-generate all values — reproducible from the request seed and the field
         const generated: Record<string, string> = {};
-        for (const entry of FAKER_ENTRIES) generated[entry.id] = entry.generate();
+        withSeed(deriveSeed(seed, field), () => {
+          for (const entry of fakerCatalogue) generated[entry.id] = entry.generate();
+        });
         setFakerValues(generated);
         setFakerIdx(currentSpecExample !== null ? -1 : 0);
         setFakerOpen(true);
@@ -1322,11 +2202,14 @@ export function RequestForm({ endpoint, env, fallbackBaseUrl = '', onClose, heig
     }
     if (input === 'p') {
       const field = focusedField;
-      if (field.startsWith('body:') || field.startsWith('path:') || field.startsWith('query:')) {
+      if (field.startsWith('body:') || paramField(field)) {
         const generated: Record<string, string> = {};
-        for (const entry of FAKER_ENTRIES) generated[entry.id] = entry.generate();
+        withSeed(deriveSeed(seed, field), () => {
+          for (const entry of fakerCatalogue) generated[entry.id] = entry.generate();
+        });
         setFakerValues(generated);
         setFakerIdx(0);
+        setPatternRuleIdx(0);
         setFakerPatternMode(true);
         setFakerOpen(true);
         return;
@@ -1337,6 +2220,10 @@ export function RequestForm({ endpoint, env, fallbackBaseUrl = '', onClose, heig
       setPatternsOpen(true);
       return;
     }
+    if (input === 'X') {
+      setExtractOpen(true);
+      return;
+    }
     if (input === 'l') {
       const fieldKey = currentFieldLookupKey();
       if (!fieldKey) return;
@@ -1368,30 +2255,40 @@ export function RequestForm({ endpoint, env, fallbackBaseUrl = '', onClose, heig
       setLookupSetupOpen(true);
       return;
     }
-    if (input === 'v' && envVarEntries.length > 0) {
+    if (input === 'v') {
       const f = focusedField;
-      if (f.startsWith('body:') || f.startsWith('path:') || f.startsWith('query:') || f === 'headers') {
-        let curVal = '';
-        if (f.startsWith('body:')) curVal = bodyFieldValues[f.slice(5)] ?? '';
-        else if (f.startsWith('path:')) curVal = pathValues[f.slice(5)] ?? '';
-        else if (f.startsWith('query:')) curVal = queryValues[f.slice(6)] ?? '';
-        else curVal = headersStr;
-
-        if (/\{\{/.test(curVal)) {
+      const curVal = fieldText(f);
+      if (curVal !== null && !(f === 'baseUrl' && envUrl)) {
+        // An unresolved placeholder gets swapped for the picked variable
+        const missing = unresolvedVariables(curVal, varValues, fakerLocale)[0] ?? null;
+        if (!missing && /\{\{/.test(curVal)) {
           // Clear back to empty
-          if (f.startsWith('body:')) setBodyFieldValues((prev) => ({ ...prev, [f.slice(5)]: '' }));
-          else if (f.startsWith('path:')) setPathValues((prev) => ({ ...prev, [f.slice(5)]: '' }));
-          else if (f.startsWith('query:')) setQueryValues((prev) => ({ ...prev, [f.slice(6)]: '' }));
-          else setHeadersStr('');
+          updateFieldText(f, () => '');
           return;
         }
-
+        setVarPickerReplace(missing);
         setVarPickerIdx(0);
         setVarPickerOpen(true);
         return;
       }
     }
+    if (input === 'N' && fieldText(focusedField) !== null) { defineMissingVar(focusedField); return; }
+    if (focusedArray && (input === '+' || input === '-' || input === '[' || input === ']')) {
+      const { arrayKey, index, count } = focusedArray;
+      if (input === '+') insertArrayItem(arrayKey, index === null ? count : index + 1);
+      else if (index !== null && input === '-') removeArrayItem(arrayKey, index);
+      else if (index !== null) moveArrayItem(arrayKey, index, input === '[' ? -1 : 1, count);
+      return;
+    }
+    if (focusedParamRows && (input === '+' || input === '-' || input === '[' || input === ']')) {
+      const { param, index, count } = focusedParamRows;
+      if (input === '+') insertParamRow(param, index === null ? count : index + 1);
+      else if (index !== null && input === '-') removeParamRow(param, index);
+      else if (index !== null) moveParamRow(param, index, input === '[' ? -1 : 1, count);
+      return;
+    }
     if (input === 'h') { dispatch({ type: 'OPEN_MODAL', modal: 'history' }); return; }
+    if (input === 'W') { editRequestVars(); return; }
     if (input === 's') { setSaveMode(true); setSaveName(`${endpoint.method.toUpperCase()} ${endpoint.path}`); return; }
     if (input === 'S') { dispatch({ type: 'OPEN_MODAL', modal: 'saved-requests' }); return; }
     if (key.tab && !key.shift) {
@@ -1403,9 +2300,28 @@ export function RequestForm({ endpoint, env, fallbackBaseUrl = '', onClose, heig
     }
     if ((key.tab && key.shift) || key.upArrow) { moveFocus(-1); return; }
     if (key.downArrow) { moveFocus(1); return; }
+    if ((focusedField === 'server' || focusedField.startsWith('server-var:')) && !key.ctrl && (key.leftArrow || key.rightArrow || input === ' ' || key.return)) {
+      // Enum / server choices cycle in place; free-form variables fall through to edit mode on Enter
+      if (cycleServerOption(focusedField, key.leftArrow ? -1 : 1)) return;
+    }
+    if (focusedField === 'contentType' && !key.ctrl && (key.leftArrow || key.rightArrow || input === ' ' || key.return)) {
+      cycleContentType(key.leftArrow ? -1 : 1);
+      return;
+    }
+    if (focusedField.startsWith('body-group:') && !key.ctrl && (key.leftArrow || key.rightArrow)) {
+      const groupKey = focusedField.slice('body-group:'.length);
+      if (bodyFieldDefs.some((f) => f.fullKey === groupKey && f.variants)) {
+        cycleVariant(groupKey, key.leftArrow ? -1 : 1);
+        return;
+      }
+    }
     if (key.return) {
-      if (key.ctrl || focusedField === '__submit__') { void handleSubmit(); return; }
-      if (focusedField === 'baseUrl' && env) { moveFocus(1); return; }
+      if (key.ctrl || focusedField === '__submit__') { trySubmit(); return; }
+      if (focusedField === 'baseUrl' && envUrl) { moveFocus(1); return; }
+      if (focusedParamRows && focusedParamRows.index === null) {
+        insertParamRow(focusedParamRows.param, focusedParamRows.count);
+        return;
+      }
       if (focusedField.startsWith('body-group:')) {
         const groupKey = focusedField.slice('body-group:'.length);
         setCollapsedBodyGroups((prev) => {
@@ -1430,13 +2346,12 @@ export function RequestForm({ endpoint, env, fallbackBaseUrl = '', onClose, heig
             }
           }
         }
-        if (focusedField.startsWith('path:') || focusedField.startsWith('query:')) {
-          const isPath = focusedField.startsWith('path:');
-          const pName = isPath ? focusedField.slice(5) : focusedField.slice(6);
-          const params = isPath ? pathParams : queryParams;
-          const setValues = isPath ? setPathValues : setQueryValues;
-          const values = isPath ? pathValues : queryValues;
-          const p = params.find((pp) => pp.name === pName);
+        const focusedParam = paramField(focusedField);
+        if (focusedParam) {
+          const pName = focusedParam.name;
+          const setValues = setParamValuesIn[focusedParam.loc];
+          const values = paramValuesIn[focusedParam.loc];
+          const p = paramsIn[focusedParam.loc].find((pp) => pp.name === pName);
           if (p) {
             const { baseType, enumValues, format } = paramMeta(p);
             const cur = values[pName] ?? '';
@@ -1456,15 +2371,16 @@ export function RequestForm({ endpoint, env, fallbackBaseUrl = '', onClose, heig
   function fieldDisplay(value: string, placeholder: string) {
     if (!value) return <Text color="gray" dimColor>{placeholder}</Text>;
     const display = value.length > 60 ? value.slice(0, 60) + '…' : value;
-    const vars = liveEnv?.variables;
-    if (/\{\{/.test(value) && vars) {
-      const resolved = value.replace(/\{\{(\w+)\}\}/g, (_, n: string) => vars[n] ?? `{{${n}}}`);
+    if (/\{\{/.test(value)) {
+      const resolved = value.replace(/\{\{(\w+)\}\}/g, (_, n: string) => (varValues[n] !== undefined ? shownValues[n] : undefined) ?? `{{${n}}}`);
       const resolvedDisplay = resolved !== value
         ? (resolved.length > 50 ? resolved.slice(0, 50) + '…' : resolved)
         : null;
+      // Placeholders nothing resolves are sent as literal text
+      const unresolved = unresolvedVariables(value, varValues, fakerLocale).length > 0;
       return (
         <Box>
-          <Text color="cyan">{display}</Text>
+          <Text color={unresolved ? 'yellow' : 'cyan'}>{display}</Text>
           {resolvedDisplay && <Text color="gray">{`  → ${resolvedDisplay}`}</Text>}
         </Box>
       );
@@ -1472,6 +2388,15 @@ export function RequestForm({ endpoint, env, fallbackBaseUrl = '', onClose, heig
     return <Text color="white">{display}</Text>;
   }
 
+  /** Inline marker for a field the pre-send check flags. */
+  function issueMark(id: string) {
+    const issue = fieldIssues.get(id);
+    if (!issue) return null;
+    const error = issue.severity === 'error';
+    const fix = issue.kind === 'unresolved' && isFocused(id) ? '  [v] pick  [N] define' : '';
+    return <Text color={error ? 'red' : 'yellow'} wrap="truncate">{`  ${error ? '✗' : '⚠'} ${issue.message}${fix}`}</Text>;
+  }
+
   const form = (
     <Box flexDirection="column" height={height}>
       <Box flexDirection="column" height={formHeight} paddingX={1}>
@@ -1490,13 +2415,15 @@ export function RequestForm({ endpoint, env, fallbackBaseUrl = '', onClose, heig
             ? <Text color="cyan">{'Fetching lookup options...'}</Text>
             : lookupError
             ? <Text color="red">{`✗ ${lookupError}`}</Text>
+            : notice
+            ? <Text wrap="truncate" color={notice.error ? 'red' : 'green'}>{notice.error ? `✗ ${notice.text}` : notice.text}</Text>
             : patternFeedback
             ? <Text color="green">{patternFeedback}</Text>
             : <Text wrap="truncate" color="gray">{(() => {
                 const fieldKey = currentFieldLookupKey();
                 const hasLookup = fieldKey ? Boolean(fieldLookups[fieldKey]) : false;
                 const lookupHint = fieldKey ? (hasLookup ? '  [l] fetch  [L] relink' : '  [L] link lookup') : '';
-                return `[↑↓] nav  [↵] edit  [^↵] send  [i] cURL  [s] save  [h] hist  [f] fake  [p] pattern  [P] patterns${lookupHint}${hasSpecExamples ? '  [e] examples' : ''}${envVarEntries.length > 0 ? '  [v] vars' : ''}  [Esc]`;
+                return `[↑↓] nav  [↵] edit  [^↵] send  [i] cURL  [s] save  [h] hist  [f] fake${bodySchema ? '  [F] fill body' : ''}  [p] pattern  [P] patterns  [X] extract${lookupHint}${hasSpecExamples ? '  [e] examples' : ''}${endpoint.requestBody ? '  [E] $EDITOR' : ''}  [v] vars  [W] request vars${focusedArray ? (focusedArray.index === null ? '  [+] add item' : '  [+] insert  [-] remove  [[ ]] move') : ''}${focusedParamRows ? (focusedParamRows.index === null ? `  [+/↵] add ${paramKind(focusedParamRows.param) === 'array' ? 'item' : 'entry'}` : '  [+] insert  [-] remove  [[ ]] move') : ''}  [Esc]`;
               })()}</Text>
           }
           {saveMode && (
@@ -1507,67 +2434,101 @@ export function RequestForm({ endpoint, env, fallbackBaseUrl = '', onClose, heig
 
         {/* Base URL */}
         <Box>
-          <Text color={isFocused('baseUrl') ? 'cyan' : env ? 'green' : 'yellow'}>
+          <Text color={isFocused('baseUrl') ? 'cyan' : envUrl ? 'green' : 'yellow'}>
             {isFocused('baseUrl') ? '▶ ' : '  '}{'Base URL: '}
           </Text>
-          {env ? (
-            <Text color="green">{env.baseUrl}<Text color="gray">{`  (${env.name})`}</Text></Text>
+          {env && envUrl ? (
+            <Text color="green">{envUrl}<Text color="gray">{`  (${env.name}${env.server ? ' · pinned server' : ''})`}</Text></Text>
           ) : isEditing('baseUrl') ? (
             <TextInput value={baseUrlInput} onChange={setBaseUrlInput} focus placeholder="https://api.example.com" />
           ) : (
             fieldDisplay(baseUrlInput, 'https://api.example.com')
           )}
+          {issueMark('baseUrl')}
         </Box>
 
         {/* URL preview */}
         <Box>
           <Text color="gray">{'  URL:     '}</Text>
-          <Text color={effectiveBaseUrl ? 'white' : 'red'} wrap="truncate">
-            {effectiveBaseUrl ? effectiveBaseUrl + resolvedPath : '⚠ type a Base URL above'}
-          </Text>
+          {operationUrl ? (
+            <Text color="white" wrap="truncate">
+              {operationUrl + resolvedPath}<Text color="yellow">{'  (operation server)'}</Text>
+            </Text>
+          ) : (
+            <Text color={effectiveBaseUrl ? 'white' : 'red'} wrap="truncate">
+              {effectiveBaseUrl ? effectiveBaseUrl + resolvedPath : '⚠ type a Base URL above'}
+            </Text>
+          )}
         </Box>
 
         {hasMoreAbove && <Box><Text color="gray">{'  ↑ more...'}</Text></Box>}
 
         {visibleRows.map((row) => {
-          // ── Path param ──
-          if (row.kind === 'path') {
-            const p = row.param;
-            const id = `path:${p.name}`;
-            const { baseType, nullable, enumValues, format } = paramMeta(p);
-            const placeholder = p.default ? `default: ${p.default}` : p.type;
-            const labelColor = isEditing(id) ? 'green' : isFocused(id) ? 'cyan' : p.required ? 'white' : 'gray';
-            const val = pathValues[p.name] ?? '';
-            const setVal = (v: string) => setPathValues((prev) => ({ ...prev, [p.name]: v }));
-            function renderPathInput() {
-              if (!isEditing(id)) return fieldDisplay(val, placeholder);
-              if (baseType === 'boolean') return <BooleanDisplay value={val} nullable={nullable} />;
-              if (enumValues?.length) return <EnumDisplay value={val} opts={['', ...(nullable ? [...enumValues, 'null'] : enumValues)]} />;
-              if (format === 'date-time' || format === 'date') return <DateTimeDisplay value={val} segIdx={dateSegIdx} dateOnly={format === 'date'} />;
-              if (baseType === 'integer') return <TextInput value={val} onChange={(v) => { if (/^-?\d*$/.test(v)) setVal(v); }} focus placeholder="0" />;
-              if (baseType === 'number') return <TextInput value={val} onChange={(v) => { if (/^-?\d*\.?\d*$/.test(v)) setVal(v); }} focus placeholder="0.0" />;
-              return <TextInput value={val} onChange={setVal} focus placeholder={placeholder} />;
-            }
+          // ── Spec server picker ──
+          if (row.kind === 'server') {
+            const focused = isFocused('server');
             return (
-              <Box key={id}>
-                <Text color={labelColor}>
-                  {isFocused(id) ? '▶ ' : '  '}{p.name}{p.required ? <Text color="red">*</Text> : ''}{' (path): '}
+              <Box key="__server__">
+                <Text color={focused ? 'cyan' : 'gray'}>{focused ? '▶ ' : '  '}{'Server: '}</Text>
+                <Text color={focused ? 'cyan' : 'white'} wrap="truncate">
+                  {`${state.selectedServer.index + 1}/${specServers.length} `}
+                  {selectedServer?.description ?? selectedServer?.url}
                 </Text>
-                {renderPathInput()}
+                {focused && <Text color="gray">{'  [←→] switch'}</Text>}
               </Box>
             );
           }
 
-          // ── Query param ──
-          if (row.kind === 'query') {
+          if (row.kind === 'server-var') {
+            const id = `server-var:${row.name}`;
+            const spec = selectedServer?.variables[row.name];
+            const val = state.selectedServer.variables[row.name] ?? spec?.default ?? '';
+            const labelColor = isEditing(id) ? 'green' : isFocused(id) ? 'cyan' : 'gray';
+            return (
+              <Box key={id}>
+                <Text color={labelColor}>{isFocused(id) ? '▶ ' : '  '}{'  {' + row.name + '}: '}</Text>
+                {isEditing(id) ? (
+                  <TextInput
+                    value={val}
+                    onChange={(v) => selectServer(state.selectedServer.index, { ...state.selectedServer.variables, [row.name]: v })}
+                    focus
+                    placeholder={spec?.default}
+                  />
+                ) : spec?.enum?.length ? (
+                  <EnumDisplay value={val} opts={spec.enum} />
+                ) : (
+                  fieldDisplay(val, spec?.default ?? '')
+                )}
+                {spec?.description && !isEditing(id) && <Text color="gray">{' — ' + spec.description.slice(0, 40)}</Text>}
+              </Box>
+            );
+          }
+
+          // ── Path / query / header / cookie param ──
+          if (row.kind === 'param') {
             const p = row.param;
-            const id = `query:${p.name}`;
+            const id = paramId(p);
             const { baseType, nullable, enumValues, format } = paramMeta(p);
             const placeholder = p.default ? `default: ${p.default}` : p.type;
             const labelColor = isEditing(id) ? 'green' : isFocused(id) ? 'cyan' : p.required ? 'white' : 'gray';
-            const val = queryValues[p.name] ?? '';
-            const setVal = (v: string) => setQueryValues((prev) => ({ ...prev, [p.name]: v }));
-            function renderQueryInput() {
+            const styleNote = p.style ? `, ${p.style}${p.explode !== undefined ? (p.explode ? ' explode' : ' no-explode') : ''}` : '';
+            const val = paramValuesIn[p.in][p.name] ?? '';
+            // Array and object params: a header over their item or key/value rows
+            if (paramKind(p) !== 'primitive') {
+              const count = paramRowCount(p, val);
+              const unit = paramKind(p) === 'array' ? 'item' : count === 1 ? 'entry' : 'entries';
+              return (
+                <Box key={id}>
+                  <Text color={labelColor}>
+                    {isFocused(id) ? '▶ ' : '  '}{p.name}{p.required ? <Text color="red">*</Text> : ''}{` (${p.in}${styleNote})`}
+                  </Text>
+                  <Text color={count > 0 ? 'yellow' : 'gray'}>{` · ${count} ${unit}${unit === 'item' && count !== 1 ? 's' : ''}`}</Text>
+                  {issueMark(`${p.in}:${p.name}`)}
+                </Box>
+              );
+            }
+            const setVal = (v: string) => setParamValuesIn[p.in]((prev) => ({ ...prev, [p.name]: v }));
+            function renderParamInput() {
               if (!isEditing(id)) return fieldDisplay(val, placeholder);
               if (baseType === 'boolean') return <BooleanDisplay value={val} nullable={nullable} />;
               if (enumValues?.length) return <EnumDisplay value={val} opts={['', ...(nullable ? [...enumValues, 'null'] : enumValues)]} />;
@@ -1579,27 +2540,100 @@ export function RequestForm({ endpoint, env, fallbackBaseUrl = '', onClose, heig
             return (
               <Box key={id}>
                 <Text color={labelColor}>
-                  {isFocused(id) ? '▶ ' : '  '}{p.name}{p.required ? <Text color="red">*</Text> : ''}{' (query): '}
+                  {isFocused(id) ? '▶ ' : '  '}{p.name}{p.required ? <Text color="red">*</Text> : ''}{` (${p.in}${styleNote}): `}
                 </Text>
-                {renderQueryInput()}
+                {renderParamInput()}
+                {issueMark(id)}
+              </Box>
+            );
+          }
+
+          // ── Item or key/value row of an array or object param ──
+          if (row.kind === 'param-row') {
+            const { param: p, index } = row;
+            const raw = paramValuesIn[p.in][p.name] ?? '';
+            const opts = itemOptions(p);
+            function rowInput(part: RowPart, placeholder: string) {
+              const id = `${p.in}-${part}:${index}:${p.name}`;
+              const text = rowText(p, raw, part, index);
+              if (!isEditing(id)) return fieldDisplay(text, placeholder);
+              if (part === 'item' && opts) return <EnumDisplay value={text} opts={opts} />;
+              return <TextInput value={text} onChange={(v) => updateFieldText(id, () => v)} focus placeholder={placeholder} />;
+            }
+            const itemId = `${p.in}-item:${index}:${p.name}`;
+            const keyId = `${p.in}-key:${index}:${p.name}`;
+            const color = (id: string) => (isEditing(id) ? 'green' : isFocused(id) ? 'cyan' : 'gray');
+            if (paramKind(p) === 'array') {
+              return (
+                <Box key={itemId}>
+                  <Text color={color(itemId)}>{isFocused(itemId) ? '▶ ' : '  '}{`    [${index}] `}</Text>
+                  {rowInput('item', (p.schema?.['items'] as Record<string, unknown> | undefined)?.['type'] as string | undefined ?? 'string')}
+                </Box>
+              );
+            }
+            return (
+              <Box key={itemId}>
+                <Text color={color(keyId)}>{isFocused(keyId) ? '▶ ' : '  '}{'    '}</Text>
+                {rowInput('key', 'key')}
+                <Text color={color(itemId)}>{isFocused(itemId) ? ' ▶ = ' : ' = '}</Text>
+                {rowInput('item', 'value')}
               </Box>
             );
           }
 
           // ── Token indicator ──
           if (row.kind === 'token') {
+            const ttl = tokenTimeToExpiry(env!.name);
+            const source = env!.oauth2
+              ? 'OAuth2 ' + env!.oauth2.grantType + ' at ' + env!.oauth2.tokenUrl
+              : env!.tokenProvider!.method.toUpperCase() + ' ' + env!.tokenProvider!.path;
             return (
               <Box key="__token__">
                 <Text color="gray">{'  '}</Text>
                 {hasTokenCached(env!.name)
-                  ? <Text color="green">{'⚡ ✓ token cached → ' + (env!.tokenProvider!.headerName || 'Authorization') + ' injected'}</Text>
-                  : <Text color="yellow">{'⚡ will fetch token from ' + env!.tokenProvider!.method.toUpperCase() + ' ' + env!.tokenProvider!.path}</Text>
+                  ? <Text color="green">{'⚡ ✓ token cached → ' + (env!.oauth2 ? 'Authorization' : env!.tokenProvider!.headerName || 'Authorization') + ' injected'}</Text>
+                  : <Text color="yellow" wrap="truncate">{'⚡ will fetch token from ' + source}</Text>
+                }
+                {ttl !== null && ttl > 0 && <Text color="gray">{' · expires in ' + formatTimeToExpiry(ttl)}</Text>}
+              </Box>
+            );
+          }
+
+          // ── Security indicator ──
+          if (row.kind === 'security') {
+            const { requirement, missing, unresolved } = resolveSecurity(endpoint, liveEnv);
+            return (
+              <Box key="__security__">
+                <Text color="gray">{'  '}</Text>
+                {requirement
+                  ? requirement.schemes.length > 0
+                    ? <Text color="green">{'🔒 ' + requirement.schemes.map(({ scheme }) => `${scheme.name} (${describeScheme(scheme)})`).join(' + ') + ' injected'}</Text>
+                    : <Text color="gray">{'🔓 anonymous access allowed'}</Text>
+                  : unresolved.length > 0
+                    ? <Text color="red">{'🔒 ' + unresolved.join(' + ') + ' not defined in the spec — sent without credentials'}</Text>
+                    : <Text color="yellow">{'🔒 no credentials for ' + missing.join(' + ') + (liveEnv ? ' — set them in [e] env' : ' — activate an env')}</Text>
                 }
               </Box>
             );
           }
 
           // ── Headers ──
+          // ── Request media type selector ──
+          if (row.kind === 'content-type') {
+            const focused = isFocused('contentType');
+            return (
+              <Box key="__content_type__">
+                <Text color={focused ? 'cyan' : 'gray'}>{focused ? '▶ ' : '  '}{'Content-Type: '}</Text>
+                {mediaTypes.map((m) => (
+                  <Text key={m.contentType} color={m.contentType === contentType ? (focused ? 'cyan' : 'white') : 'gray'} bold={m.contentType === contentType}>
+                    {m.contentType === contentType ? `[${m.contentType}]` : ` ${m.contentType} `}{' '}
+                  </Text>
+                ))}
+                {focused && <Text color="gray">{'[←→] switch'}</Text>}
+              </Box>
+            );
+          }
+
           if (row.kind === 'headers') {
             const placeholder = env?.tokenProvider ? '{"X-Extra":"value"}' : '{"Authorization":"Bearer ..."}';
             const labelColor = isEditing('headers') ? 'green' : isFocused('headers') ? 'cyan' : 'gray';
@@ -1609,6 +2643,7 @@ export function RequestForm({ endpoint, env, fallbackBaseUrl = '', onClose, heig
                 {isEditing('headers')
                   ? <TextInput value={headersStr} onChange={setHeadersStr} focus placeholder={placeholder} />
                   : fieldDisplay(headersStr, placeholder)}
+                {issueMark('headers')}
               </Box>
             );
           }
@@ -1628,9 +2663,19 @@ export function RequestForm({ endpoint, env, fallbackBaseUrl = '', onClose, heig
               return (
                 <Box key={f.fullKey}>
                   <Text color={isFoc ? 'cyan' : 'white'}>
-                    {cursor}{indent}{toggle}{' '}<Text bold>{f.label}</Text>
+                    {cursor}{indent}{toggle}{' '}<Text bold>{f.itemIndex !== undefined ? `[${f.itemIndex}]` : f.label}</Text>
                   </Text>
                   <Text color="gray">{' (' + f.type + ')'}</Text>
+                  {f.variants && f.variants.options.map((o, i) => (
+                    <Text key={i} color={i === f.variantIndex ? (isFoc ? 'cyan' : 'white') : 'gray'} bold={i === f.variantIndex}>
+                      {i === f.variantIndex ? ` [${o.label}]` : `  ${o.label} `}
+                    </Text>
+                  ))}
+                  {f.variants && isFoc && <Text color="gray">{'  [←→] variant'}</Text>}
+                  {f.arrayItems !== undefined && (
+                    <Text color={f.arrayItems > 0 ? 'yellow' : 'gray'}>{` · ${f.arrayItems} item${f.arrayItems === 1 ? '' : 's'}`}</Text>
+                  )}
+                  {issueMark(`body:${f.fullKey}`)}
                   {f.description && <Text color="gray">{' — ' + f.description.slice(0, 40)}</Text>}
                 </Box>
               );
@@ -1650,6 +2695,7 @@ export function RequestForm({ endpoint, env, fallbackBaseUrl = '', onClose, heig
             const isDateTime = f.format === 'date-time' || f.format === 'date';
             const isInteger = baseType === 'integer';
             const isNumber = baseType === 'number';
+            const isFile = baseType === 'file';
 
             function renderInput() {
               if (!isEditing(id)) return fieldDisplay(value, f.type);
@@ -1665,19 +2711,20 @@ export function RequestForm({ endpoint, env, fallbackBaseUrl = '', onClose, heig
               if (isNumber) {
                 return <TextInput value={value} onChange={(v) => { if (/^-?\d*\.?\d*$/.test(v)) setBodyField(f.fullKey, v); }} focus placeholder="0.0" />;
               }
-              return <TextInput value={value} onChange={(v) => setBodyField(f.fullKey, v)} focus placeholder={f.type} />;
+              return <TextInput value={value} onChange={(v) => setBodyField(f.fullKey, v)} focus placeholder={isFile ? './path/to/file' : f.type} />;
             }
 
             return (
               <Box key={f.fullKey}>
                 <Text color={labelColor}>
                   {f.indent > 0 ? <Text color="gray">{indent}{'↳ '}</Text> : arrow}
-                  {f.label}{f.required ? <Text color="red">*</Text> : ''}{' '}
+                  {f.itemIndex !== undefined ? `[${f.itemIndex}]` : f.label}{f.required ? <Text color="red">*</Text> : ''}{' '}
                 </Text>
                 <Text color="gray">{'('}</Text>
                 <Text color={labelColor === 'gray' ? 'gray' : 'cyan'}>{f.type}</Text>
                 <Text color="gray">{'): '}</Text>
                 {renderInput()}
+                {issueMark(id)}
               </Box>
             );
           }
@@ -1695,15 +2742,31 @@ export function RequestForm({ endpoint, env, fallbackBaseUrl = '', onClose, heig
           ) : (
             <Text color="gray">{'  '}<Text color="green">{'[Send]'}</Text>{' Tab to reach · or Ctrl+Enter from anywhere'}</Text>
           )}
+          <Text color="gray">{`  seed ${seed}${seed === getSessionSeed() ? ' (session)' : ''} [R] roll`}</Text>
+          {reqState !== 'loading' && requestCheck.violations.length > 0 && (
+            <Text color={requestCheck.errors > 0 ? 'red' : 'yellow'}>
+              {`  ${requestCheck.errors > 0 ? '✗' : '⚠'} ${checkSummary(requestCheck)}`}
+            </Text>
+          )}
         </Box>
 
       </Box>
 
+      {result && lastCaptures.length > 0 && (
+        <Text wrap="truncate">
+          <Text color="gray">{' captured  '}</Text>
+          {lastCaptures.map((c, i) => (
+            <Text key={i} color={c.value === undefined ? 'red' : 'green'}>{(i > 0 ? '  ·  ' : '') + describeCapture(c)}</Text>
+          ))}
+        </Text>
+      )}
       {result && (
         <ResponseView
           result={result}
-          height={responseHeight}
+          endpoint={endpoint}
+          height={responseHeight - (lastCaptures.length > 0 ? 1 : 0)}
           onFullView={() => setTreeMode(true)}
+          onViolations={() => setViolationsMode(true)}
           onRepeat={() => { void handleSubmit(); }}
           onNextUrl={handleNextUrl}
           onNextCursor={handleNextCursor}
@@ -1712,6 +2775,37 @@ export function RequestForm({ endpoint, env, fallbackBaseUrl = '', onClose, heig
     </Box>
   );
 
+  if (sendCheckOpen) {
+    const issues = requestCheck.violations;
+    const listHeight = Math.max(3, height - 6);
+    const offset = Math.max(0, Math.min(sendCheckIdx - listHeight + 1, issues.length - listHeight));
+    return (
+      <Box flexDirection="column" height={height} paddingX={1}>
+        <Box>
+          <Text bold color="red">{unresolvedBlocked ? 'UNRESOLVED VARIABLES — NOT SENT  ' : 'REQUEST DOES NOT MATCH THE SPEC  '}</Text>
+          <Text color="gray">{`${unresolvedBlocked ? '' : '[↵/!] send anyway  '}[g] go to field${issues[sendCheckIdx]?.kind === 'unresolved' ? '  [n] define variable' : ''}  [↑↓] select  [Esc] back`}</Text>
+        </Box>
+        <Text color="gray">{`${endpoint.method.toUpperCase()} ${endpoint.path} — ${checkSummary(requestCheck)}`}</Text>
+        <Box flexDirection="column" marginTop={1}>
+          {issues.slice(offset, offset + listHeight).map((v, i) => {
+            const sel = offset + i === sendCheckIdx;
+            const where = v.field.startsWith('body:') ? `body ${v.path}`
+              : v.field.includes(':') ? `${v.field.slice(v.field.indexOf(':') + 1)} (${v.field.slice(0, v.field.indexOf(':'))})`
+              : v.path;
+            return (
+              <Text key={offset + i} wrap="truncate" color={sel ? 'cyan' : undefined}>
+                {sel ? '▶ ' : '  '}
+                <Text color={v.severity === 'error' ? 'red' : 'yellow'}>{v.severity === 'error' ? '✗ ' : '⚠ '}</Text>
+                <Text color={sel ? 'cyan' : 'white'}>{where}</Text>
+                <Text color="gray">{'  ' + v.message}</Text>
+              </Text>
+            );
+          })}
+        </Box>
+      </Box>
+    );
+  }
+
   if (importOpen) {
     return (
       <Box flexDirection="column" height={height} paddingX={1}>
@@ -1741,8 +2835,7 @@ export function RequestForm({ endpoint, env, fallbackBaseUrl = '', onClose, heig
   if (fakerOpen) {
     const targetLabel = focusedField.startsWith('body:') ? focusedField.slice(5)
       : focusedField.startsWith('path:') ? `{${focusedField.slice(5)}}`
-      : focusedField.startsWith('query:') ? focusedField.slice(6)
-      : 'headers';
+      : paramField(focusedField)?.name ?? 'headers';
 
     const patternTargetLabel = (() => {
       const f = focusedField;
@@ -1750,12 +2843,10 @@ export function RequestForm({ endpoint, env, fallbackBaseUrl = '', onClose, heig
         const def = bodyFieldDefs.find((d) => d.fullKey === f.slice(5) && !d.isGroupHeader);
         return def?.label ?? f.slice(5);
       }
-      if (f.startsWith('path:')) return f.slice(5);
-      if (f.startsWith('query:')) return f.slice(6);
-      return '';
+      return paramField(f)?.name ?? '';
     })();
 
-    const categories = Array.from(new Set(FAKER_ENTRIES.map((e) => e.category)));
+    const categories = Array.from(new Set(fakerCatalogue.map((e) => e.category)));
 
     return (
       <Box flexDirection="column" height={height} paddingX={1}>
@@ -1765,7 +2856,7 @@ export function RequestForm({ endpoint, env, fallbackBaseUrl = '', onClose, heig
               <Text bold color="magenta">{'DEFINE PATTERN  '}</Text>
               <Text color="gray">{'for field '}</Text>
               <Text color="white">{patternTargetLabel}</Text>
-              <Text color="gray">{'  [↑↓] navigate  [Enter] save  [Esc] cancel'}</Text>
+              <Text color="gray">{'  [↑↓] navigate  [←→] rule  [Enter] save  [Esc] cancel'}</Text>
             </>
           ) : (
             <>
@@ -1776,6 +2867,15 @@ export function RequestForm({ endpoint, env, fallbackBaseUrl = '', onClose, heig
             </>
           )}
         </Box>
+        {notice && <Text wrap="truncate" color={notice.error ? 'red' : 'green'}>{notice.error ? `✗ ${notice.text}` : notice.text}</Text>}
+        {fakerPatternMode && patternCandidates[patternRuleIdx] && (
+          <Text wrap="truncate">
+            <Text color="gray">{'rule: '}</Text>
+            <Text color="magenta">{patternCandidates[patternRuleIdx]!.match}</Text>
+            <Text color="gray">{` (${patternKind(patternCandidates[patternRuleIdx]!.match)}) · ${describeScope(patternCandidates[patternRuleIdx]!)}`}</Text>
+            <Text color="gray" dimColor>{`  ${patternRuleIdx + 1}/${patternCandidates.length}`}</Text>
+          </Text>
+        )}
         <Box flexDirection="column">
           {/* Spec example row (only in insert mode, not pattern mode) */}
           {!fakerPatternMode && currentSpecExample !== null && (
@@ -1792,9 +2892,9 @@ export function RequestForm({ endpoint, env, fallbackBaseUrl = '', onClose, heig
           )}
           {categories.map((cat) => (
             <Box key={cat} flexDirection="column">
-              <Text color="gray">{`  ${cat}`}</Text>
-              {FAKER_ENTRIES.filter((e) => e.category === cat).map((entry) => {
-                const idx = FAKER_ENTRIES.indexOf(entry);
+              <Text color="gray">{`  ${cat}`}{cat === 'Custom' && <Text dimColor>{'  [e] edit generators'}</Text>}</Text>
+              {fakerCatalogue.filter((e) => e.category === cat).map((entry) => {
+                const idx = fakerCatalogue.indexOf(entry);
                 const sel = idx === fakerIdx;
                 const value = fakerValues[entry.id] ?? '';
                 const displayVal = value.length > 38 ? value.slice(0, 38) + '…' : value;
@@ -1810,6 +2910,9 @@ export function RequestForm({ endpoint, env, fallbackBaseUrl = '', onClose, heig
               })}
             </Box>
           ))}
+          {!categories.includes('Custom') && (
+            <Text color="gray">{'  Custom'}<Text dimColor>{'  [e] define your own generators'}</Text></Text>
+          )}
         </Box>
       </Box>
     );
@@ -1818,27 +2921,31 @@ export function RequestForm({ endpoint, env, fallbackBaseUrl = '', onClose, heig
   if (varPickerOpen) {
     const targetLabel = focusedField.startsWith('body:') ? focusedField.slice(5)
       : focusedField.startsWith('path:') ? `{${focusedField.slice(5)}}`
-      : focusedField.startsWith('query:') ? focusedField.slice(6)
-      : 'headers';
+      : focusedField === 'baseUrl' ? 'base URL'
+      : paramField(focusedField)?.name ?? 'headers';
     return (
       <Box flexDirection="column" height={height} paddingX={1}>
         <Box>
           <Text bold color="cyan">{'VARIABLES  '}</Text>
-          <Text color="gray">{'inserting into '}</Text>
+          <Text color="gray">{varPickerReplace ? 'replacing ' : 'inserting into '}</Text>
+          {varPickerReplace && <Text color="yellow">{`{{${varPickerReplace}}}`}</Text>}
+          {varPickerReplace && <Text color="gray">{' in '}</Text>}
           <Text color="white">{targetLabel}</Text>
           <Text color="gray">{'  [↑↓] navigate  [Enter] insert  [Esc] cancel'}</Text>
         </Box>
         <Box flexDirection="column">
-          {envVarEntries.map(([name, value], i) => {
+          {varPickerEntries.map(({ name, value, scope }, i) => {
             const sel = i === varPickerIdx;
+            const dynamic = !scope;
             const displayVal = value.length > 60 ? value.slice(0, 60) + '…' : value;
             return (
               <Box key={name}>
                 <Text backgroundColor={sel ? 'cyan' : undefined}>
                   <Text color={sel ? 'black' : 'gray'}>{sel ? '  ▶ ' : '    '}</Text>
-                  <Text color={sel ? 'black' : 'cyan'}>{`{{${name}}}`}</Text>
-                  <Text color={sel ? 'black' : 'gray'}>{`  =  `}</Text>
-                  <Text color={sel ? 'black' : 'white'}>{displayVal}</Text>
+                  <Text color={sel ? 'black' : dynamic ? 'magenta' : 'cyan'}>{`{{${name}}}`}</Text>
+                  <Text color={sel ? 'black' : 'gray'}>{dynamic ? '  ·  ' : '  =  '}</Text>
+                  <Text color={sel ? 'black' : dynamic ? 'gray' : 'white'}>{displayVal}</Text>
+                  {scope && <Text color={sel ? 'black' : 'gray'}>{`  ${scope}`}</Text>}
                 </Text>
               </Box>
             );
@@ -1848,28 +2955,90 @@ export function RequestForm({ endpoint, env, fallbackBaseUrl = '', onClose, heig
     );
   }
 
+  if (extractOpen) {
+    const saved = savedRequestId ? getSavedRequests().find((r) => r.id === savedRequestId) : undefined;
+    const sections: [string, ExtractionRule[]][] = [[`Endpoint ${endpoint.method.toUpperCase()} ${endpoint.path}  [e] edit`, getExtractionRules(endpoint.id)]];
+    if (saved) sections.push([`Saved request "${saved.name}"  [E] edit`, saved.extract ?? []]);
+    const log = captureLog().slice(0, Math.max(3, height - 12));
+    return (
+      <Box flexDirection="column" height={height} paddingX={1}>
+        <Box>
+          <Text bold color="magenta">{'EXTRACTION RULES  '}</Text>
+          <Text color="gray">{'set env variables after every 2xx response  [Esc] close'}</Text>
+        </Box>
+        {notice && <Text wrap="truncate" color={notice.error ? 'red' : 'green'}>{notice.error ? `✗ ${notice.text}` : notice.text}</Text>}
+        {sections.map(([title, rules]) => (
+          <Box key={title} flexDirection="column" marginTop={1}>
+            <Text color="cyan">{title}</Text>
+            {rules.length === 0 ? (
+              <Text color="gray">{'  no rules'}</Text>
+            ) : rules.map((r, i) => (
+              <Text key={i} wrap="truncate">
+                <Text color="white">{`  {{${r.variable}}}`.padEnd(24)}</Text>
+                <Text color="gray">{` ← ${r.source.padEnd(6)} `}</Text>
+                <Text color="yellow">{r.expr}</Text>
+              </Text>
+            ))}
+          </Box>
+        ))}
+        <Box flexDirection="column" marginTop={1}>
+          <Text color="cyan">{'Captured this session'}</Text>
+          {log.length === 0 ? (
+            <Text color="gray">{'  nothing yet'}</Text>
+          ) : log.map((c, i) => (
+            <Text key={i} wrap="truncate">
+              <Text color="gray">{`  ${new Date(c.at).toLocaleTimeString()}  ${c.endpointId}  `}</Text>
+              <Text color={c.value === undefined ? 'red' : 'green'}>{describeCapture(c)}</Text>
+            </Text>
+          ))}
+        </Box>
+      </Box>
+    );
+  }
+
   if (patternsOpen) {
-    const patternList = Object.entries(fieldPatterns);
+    const patternList = rankPatterns(fieldPatterns);
+    const target = patternTarget(focusedField);
+    const matched = target ? matchFieldPattern(fieldPatterns, target) : undefined;
     return (
       <Box flexDirection="column" height={height} paddingX={1}>
         <Box>
           <Text bold color="magenta">{'FIELD PATTERNS  '}</Text>
-          <Text color="gray">{'[↑↓] navigate  [d] delete  [Esc] close'}</Text>
+          <Text color="gray">{'[↑↓] navigate  [d] delete  [e] edit as JSON  [Esc] close'}</Text>
         </Box>
+        {notice && <Text wrap="truncate" color={notice.error ? 'red' : 'green'}>{notice.error ? `✗ ${notice.text}` : notice.text}</Text>}
+        {target && (
+          <Text wrap="truncate">
+            <Text color="gray">{'field '}</Text>
+            <Text color="white">{target.path}</Text>
+            {matched ? (
+              <>
+                <Text color="gray">{' ← matched by '}</Text>
+                <Text color="magenta">{matched.match}</Text>
+                <Text color="gray">{` (${describeScope(matched)})`}</Text>
+              </>
+            ) : (
+              <Text color="gray">{' ← no rule matches, name heuristics apply'}</Text>
+            )}
+          </Text>
+        )}
         <Box marginTop={1} flexDirection="column">
           {patternList.length === 0 ? (
             <Text color="gray">{'No patterns defined yet. Press [p] on any body/path/query field to define one.'}</Text>
           ) : (
-            patternList.map(([fieldName, fakerId], i) => {
-              const fakerEntry = FAKER_ENTRIES.find((e) => e.id === fakerId);
+            patternList.map((rule, i) => {
+              const fakerEntry = findFakerEntry(rule.fakerId, fakerLocale);
               const sel = i === patternsIdx;
+              const hit = rule === matched;
               return (
-                <Box key={fieldName}>
+                <Box key={`${rule.match}|${rule.endpoint ?? ''}|${rule.tag ?? ''}`}>
                   <Text backgroundColor={sel ? 'cyan' : undefined}>
                     <Text color={sel ? 'black' : 'gray'}>{sel ? '  ▶ ' : '    '}</Text>
-                    <Text color={sel ? 'black' : 'white'}>{fieldName.padEnd(24)}</Text>
+                    <Text color={sel ? 'black' : hit ? 'magenta' : 'white'}>{rule.match.padEnd(24)}</Text>
+                    <Text color={sel ? 'black' : 'gray'}>{` ${patternKind(rule.match).padEnd(5)}  ${describeScope(rule).padEnd(24)}`}</Text>
                     <Text color={sel ? 'black' : 'gray'}>{'  →  '}</Text>
-                    <Text color={sel ? 'black' : 'green'}>{fakerEntry?.label ?? fakerId}</Text>
+                    <Text color={sel ? 'black' : 'green'}>{fakerEntry?.label ?? rule.fakerId}</Text>
+                    {hit && <Text color={sel ? 'black' : 'magenta'}>{'  ◀ matches'}</Text>}
                   </Text>
                 </Box>
               );
@@ -1884,6 +3053,7 @@ export function RequestForm({ endpoint, env, fallbackBaseUrl = '', onClose, heig
         <Box marginTop={1}>
           <Text color="gray">{'Patterns auto-fill empty fields when you press [Tab]'}</Text>
         </Box>
+        <Text color="gray" dimColor>{'First match wins: endpoint › tag › all, then path › name › /regex/, then definition order'}</Text>
       </Box>
     );
   }
@@ -2216,6 +3386,21 @@ export function RequestForm({ endpoint, env, fallbackBaseUrl = '', onClose, heig
     );
   }
 
+  if (violationsMode && result) {
+    const validation = validateResponse(endpoint, result);
+    return (
+      <Box flexDirection="column" height={height} paddingX={1}>
+        <ValidationView
+          title={`RESPONSE CONTRACT  ${result.status}${validation?.matchedStatus ? ` → ${validation.matchedStatus}` : ''}`}
+          violations={validation?.violations ?? []}
+          height={height}
+          isFocused
+          onClose={() => setViolationsMode(false)}
+        />
+      </Box>
+    );
+  }
+
   if (treeMode && result) {
     const statusColor = result.status >= 200 && result.status < 300 ? 'green'
       : result.status >= 400 ? 'red' : 'gray';
@@ -2227,7 +3412,7 @@ export function RequestForm({ endpoint, env, fallbackBaseUrl = '', onClose, heig
           <Text color="gray">{`  ${result.durationMs}ms  `}</Text>
           <Text color="gray">{'[Esc] back to request'}</Text>
         </Box>
-        <JsonTree body={result.body} height={height - 1} isFocused onClose={() => setTreeMode(false)} />
+        <JsonTree body={result.body} height={height - 1} isFocused endpointId={endpoint.id} onClose={() => setTreeMode(false)} />
       </Box>
     );
   }
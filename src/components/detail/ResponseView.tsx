@@ -1,18 +1,22 @@
 import React, { useState, useCallback, useMemo } from 'react';
 import { Box, Text, useInput } from 'ink';
 import fs from 'node:fs';
-import type { RequestResult } from '../../types/openapi.js';
+import type { Endpoint, RequestResult } from '../../types/openapi.js';
 import { copyToClipboard } from '../../lib/clipboard.js';
 import { detectNextPageUrl, detectNextCursor } from '../../lib/pagination.js';
+import { validateResponse } from '../../lib/response-validation.js';
 
 interface ResponseViewProps {
   result: RequestResult;
+  /** When set, the response is validated against the endpoint's declared responses */
+  endpoint?: Endpoint;
   height?: number;
   isFocused?: boolean;
   onFullView?: () => void;
   onRepeat?: () => void;
   onNextUrl?: (url: string) => void;
   onNextCursor?: (queryParam: string, value: string) => void;
+  onViolations?: () => void;
 }
 
 function formatBody(body: unknown): string {
@@ -25,7 +29,7 @@ function formatBody(body: unknown): string {
   }
 }
 
-export function ResponseView({ result, height = 12, isFocused = true, onFullView, onRepeat, onNextUrl, onNextCursor }: ResponseViewProps) {
+export function ResponseView({ result, endpoint, height = 12, isFocused = true, onFullView, onRepeat, onNextUrl, onNextCursor, onViolations }: ResponseViewProps) {
   type FeedbackState = 'idle' | 'ok' | 'fail' | 'body-ok' | 'body-fail' | 'export-ok' | 'export-fail';
   const [feedback, setFeedback] = useState<FeedbackState>('idle');
   const [exportFilename, setExportFilename] = useState('');
@@ -33,6 +37,7 @@ export function ResponseView({ result, height = 12, isFocused = true, onFullView
   const nextUrl = useMemo(() => detectNextPageUrl(result.body), [result.body]);
   const nextCursor = useMemo(() => detectNextCursor(result.body), [result.body]);
   const hasNext = !result.error && Boolean(nextUrl ?? nextCursor);
+  const validation = useMemo(() => (endpoint ? validateResponse(endpoint, result) : null), [endpoint, result]);
 
   const handleCopyCurl = useCallback(async () => {
     if (!result.curlCommand) return;
@@ -76,6 +81,7 @@ export function ResponseView({ result, height = 12, isFocused = true, onFullView
     if (input === 'b' && result.body !== null && result.body !== undefined) { void handleCopyBody(); return; }
     if (input === 'r' && onRepeat) { onRepeat(); return; }
     if (input === 'f' && onFullView && !result.error) { onFullView(); return; }
+    if (input === 'V' && validation && validation.violations.length > 0 && onViolations) { onViolations(); return; }
     if (input === 'x' && result.body !== null && result.body !== undefined && !result.error) { handleExport(); return; }
     if (input === 'n' && hasNext) {
       if (nextUrl && onNextUrl) { onNextUrl(nextUrl); return; }
@@ -93,8 +99,13 @@ export function ResponseView({ result, height = 12, isFocused = true, onFullView
       : 'gray';
 
   const bodyText = result.error ? `Error: ${result.error}` : formatBody(result.body);
-  const bodyLines = bodyText.split('\n').slice(0, Math.max(1, height - 3));
-  const truncated = bodyText.split('\n').length > height - 3;
+  // Reserve one extra line each for the validation verdict and the security warning when present
+  const bodyBudget = height - 3 - (validation ? 1 : 0) - (result.securityError ? 1 : 0);
+  const bodyLines = bodyText.split('\n').slice(0, Math.max(1, bodyBudget));
+  const truncated = bodyText.split('\n').length > bodyBudget;
+
+  const errorCount = validation?.violations.filter((v) => v.severity === 'error').length ?? 0;
+  const warningCount = (validation?.violations.length ?? 0) - errorCount;
 
   return (
     <Box flexDirection="column" borderStyle="single" borderTop paddingX={1}>
@@ -125,6 +136,27 @@ export function ResponseView({ result, height = 12, isFocused = true, onFullView
         </Box>
       </Box>
 
+      {result.securityError && <Text color="yellow" wrap="truncate">{`⚠ ${result.securityError}`}</Text>}
+
+      {/* Contract verdict */}
+      {validation && (
+        <Box>
+          {validation.verdict === 'valid' && (
+            <Text color="green">{`✓ matches ${validation.matchedStatus}${validation.matchedContentType ? ' ' + validation.matchedContentType : ''} schema`}</Text>
+          )}
+          {validation.verdict === 'warnings' && (
+            <Text color="yellow">{`⚠ matches ${validation.matchedStatus} schema with ${warningCount} warning${warningCount === 1 ? '' : 's'}`}</Text>
+          )}
+          {validation.verdict === 'invalid' && (
+            <Text color="red">{`✗ ${errorCount} contract violation${errorCount === 1 ? '' : 's'} vs ${validation.matchedStatus}${warningCount > 0 ? ` (+${warningCount} warning${warningCount === 1 ? '' : 's'})` : ''}`}</Text>
+          )}
+          {validation.verdict === 'undeclared' && (
+            <Text color="red">{`✗ status ${result.status} not declared in spec`}</Text>
+          )}
+          {validation.violations.length > 0 && onViolations && <Text color="gray">{'  [V] details'}</Text>}
+        </Box>
+      )}
+
       {/* Body */}
       {result.error ? (
         <Text color="red">{result.error}</Text>
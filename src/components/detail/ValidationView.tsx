@@ -0,0 +1,88 @@
+import React, { useState } from 'react';
+import { Box, Text, useInput } from 'ink';
+import type { SchemaViolation } from '../../lib/schema-validator.js';
+
+interface ValidationViewProps {
+  title: string;
+  violations: SchemaViolation[];
+  height: number;
+  isFocused: boolean;
+  onClose: () => void;
+}
+
+const KIND_COLORS: Record<SchemaViolation['kind'], string> = {
+  missing: 'red',
+  type: 'red',
+  extra: 'yellow',
+  enum: 'magenta',
+  format: 'magenta',
+  constraint: 'magenta',
+  variant: 'red',
+};
+
+export function ValidationView({ title, violations, height, isFocused, onClose }: ValidationViewProps) {
+  const [cursor, setCursor] = useState(0);
+  const [scrollOff, setScrollOff] = useState(0);
+
+  // title + selected detail + hint
+  const visibleCount = Math.max(1, height - 4);
+
+  const move = (dir: 1 | -1) => {
+    setCursor((prev) => {
+      const next = Math.max(0, Math.min(violations.length - 1, prev + dir));
+      setScrollOff((off) => {
+        if (next < off) return next;
+        if (next >= off + visibleCount) return next - visibleCount + 1;
+        return off;
+      });
+      return next;
+    });
+  };
+
+  useInput((_input, key) => {
+    if (!isFocused) return;
+    if (key.escape) { onClose(); return; }
+    if (key.upArrow) { move(-1); return; }
+    if (key.downArrow) { move(1); return; }
+  });
+
+  const errors = violations.filter((v) => v.severity === 'error').length;
+  const warnings = violations.length - errors;
+  const selected = violations[cursor];
+
+  return (
+    <Box flexDirection="column" height={height}>
+      <Box>
+        <Text bold color="cyan">{title + '  '}</Text>
+        {errors > 0 && <Text color="red">{`${errors} error${errors === 1 ? '' : 's'}  `}</Text>}
+        {warnings > 0 && <Text color="yellow">{`${warnings} warning${warnings === 1 ? '' : 's'}  `}</Text>}
+        {violations.length === 0 && <Text color="green">{'✓ no violations  '}</Text>}
+        <Text color="gray">{'[↑↓] move  [Esc] back'}</Text>
+      </Box>
+
+      <Box flexDirection="column">
+        {violations.slice(scrollOff, scrollOff + visibleCount).map((v, i) => {
+          const absIdx = scrollOff + i;
+          const sel = absIdx === cursor;
+          return (
+            <Box key={absIdx}>
+              <Text backgroundColor={sel ? 'cyan' : undefined} wrap="truncate">
+                <Text color={sel ? 'black' : 'gray'}>{sel ? '▶ ' : '  '}</Text>
+                <Text color={sel ? 'black' : v.severity === 'error' ? 'red' : 'yellow'}>{v.severity === 'error' ? '✗ ' : '⚠ '}</Text>
+                <Text color={sel ? 'black' : KIND_COLORS[v.kind]}>{v.kind.padEnd(11)}</Text>
+                <Text color={sel ? 'black' : 'white'}>{v.path}</Text>
+              </Text>
+            </Box>
+          );
+        })}
+      </Box>
+
+      {selected && (
+        <Box marginTop={1}>
+          <Text color="gray">{'  '}</Text>
+          <Text color="white" wrap="truncate">{`${selected.path}: ${selected.message}`}</Text>
+        </Box>
+      )}
+    </Box>
+  );
+}
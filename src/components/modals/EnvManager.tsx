@@ -2,21 +2,26 @@ import React, { useState } from 'react';
 import { Box, Text, useInput } from 'ink';
 import TextInput from 'ink-text-input';
 import { useApp } from '../../context/AppContext.js';
+import { describeScheme } from '../../lib/security.js';
+import { envBaseUrl, defaultServerVariables, resolveServerUrl } from '../../lib/servers.js';
+import { FAKER_LOCALES, DEFAULT_FAKER_LOCALE, type FakerLocale } from '../../lib/faker.js';
 import {
   saveEnvironment,
   deleteEnvironment,
   setActiveEnvironment,
   getConfig,
 } from '../../lib/config-store.js';
-import type { Environment } from '../../types/config.js';
+import { MASK, maskCredentials, maskRecord, secretsConfigured, secretsUnlocked, unmaskCredentials, unmaskRecord } from '../../lib/secrets.js';
+import type { Environment, SchemeCredential } from '../../types/config.js';
+import type { ServerSpec } from '../../types/openapi.js';
 
 type View = 'list' | 'add' | 'edit';
-type FormField = 'name' | 'specUrl' | 'baseUrl' | 'headers' | 'variables' | 'hook';
+type FormField = 'name' | 'specUrl' | 'baseUrl' | 'server' | 'serverVars' | 'headers' | 'variables' | 'secrets' | 'unresolved' | 'locale' | 'credentials' | 'hook';
 
-const FIELDS: FormField[] = ['name', 'specUrl', 'baseUrl', 'headers', 'variables', 'hook'];
+const FIELDS: FormField[] = ['name', 'specUrl', 'baseUrl', 'server', 'serverVars', 'headers', 'variables', 'secrets', 'unresolved', 'locale', 'credentials', 'hook'];
 
-function parseJsonSilent(v: string): Record<string, string> {
-  try { return JSON.parse(v); } catch { return {}; }
+function parseJsonSilent<T = Record<string, string>>(v: string): T {
+  try { return JSON.parse(v); } catch { return {} as T; }
 }
 
 export function EnvManager() {
@@ -30,17 +35,47 @@ export function EnvManager() {
   const [baseUrlVal, setBaseUrlVal] = useState('');
   const [headersVal, setHeadersVal] = useState('{}');
   const [variablesVal, setVariablesVal] = useState('{}');
+  // Comma-separated header / variable names kept encrypted — their values show masked above
+  const [secretsVal, setSecretsVal] = useState('');
+  const [editedEnv, setEditedEnv] = useState<Environment | undefined>(undefined);
+  const [saveError, setSaveError] = useState<string | null>(null);
+  const [credentialsVal, setCredentialsVal] = useState('{}');
   const [hookVal, setHookVal] = useState('');
+  // Faker locale — undefined = default
+  const [localeVal, setLocaleVal] = useState<FakerLocale | undefined>(undefined);
+  const [blockVal, setBlockVal] = useState(false);
+  // Pinned spec server: index into serverOptions, -1 = use Base URL
+  const [serverIdx, setServerIdx] = useState(-1);
+  const [serverVarsVal, setServerVarsVal] = useState('{}');
+  const [pinnedUrl, setPinnedUrl] = useState<string | null>(null);
 
   const envs = state.environments;
 
+  // Spec servers, plus the env's pinned one when the current spec doesn't declare it
+  const specServers = state.spec?.servers ?? [];
+  const serverOptions: ServerSpec[] = pinnedUrl && !specServers.some((sv) => sv.url === pinnedUrl)
+    ? [...specServers, { url: pinnedUrl, variables: {} }]
+    : specServers;
+  const pickedServer = serverIdx >= 0 ? serverOptions[serverIdx] : undefined;
+
   const openForm = (env?: Environment) => {
     setNameVal(env?.name ?? '');
     setSpecUrlVal(env?.specUrl ?? '');
     setBaseUrlVal(env?.baseUrl ?? '');
-    setHeadersVal(env?.headers && Object.keys(env.headers).length ? JSON.stringify(env.headers) : '{}');
-    setVariablesVal(env?.variables && Object.keys(env.variables).length ? JSON.stringify(env.variables) : '{}');
+    const secrets = env?.secrets ?? [];
+    setHeadersVal(env?.headers && Object.keys(env.headers).length ? JSON.stringify(maskRecord(env.headers, secrets)) : '{}');
+    setVariablesVal(env?.variables && Object.keys(env.variables).length ? JSON.stringify(maskRecord(env.variables, secrets)) : '{}');
+    setSecretsVal(secrets.join(', '));
+    setEditedEnv(env);
+    setSaveError(null);
+    setCredentialsVal(env?.credentials && Object.keys(env.credentials).length ? JSON.stringify(maskCredentials(env.credentials)) : '{}');
     setHookVal(env?.preRequestHook ?? '');
+    setLocaleVal(env?.fakerLocale);
+    setBlockVal(env?.blockUnresolved ?? false);
+    setPinnedUrl(env?.server?.url ?? null);
+    const pinnedIdx = env?.server ? specServers.findIndex((sv) => sv.url === env.server!.url) : -1;
+    setServerIdx(env?.server ? (pinnedIdx >= 0 ? pinnedIdx : specServers.length) : -1);
+    setServerVarsVal(env?.server && Object.keys(env.server.variables).length ? JSON.stringify(env.server.variables) : '{}');
     setFocusedField('name');
   };
 
@@ -55,17 +90,33 @@ export function EnvManager() {
   const handleSave = () => {
     const name = nameVal.trim();
     const baseUrl = baseUrlVal.trim();
-    if (!name || !baseUrl) return;
+    if (!name || (!baseUrl && !pickedServer)) return;
 
+    // Keep settings that aren't edited in this form (e.g. token provider)
+    const existing = envs.find((e) => e.name === name);
+    const credentials = unmaskCredentials(parseJsonSilent<Record<string, SchemeCredential>>(credentialsVal), editedEnv?.credentials ?? {});
+    const secrets = secretsVal.split(',').map((n) => n.trim()).filter(Boolean);
+    // Masked values that weren't retyped keep what the env held
     const env: Environment = {
+      ...existing,
       name,
       baseUrl,
-      ...(specUrlVal.trim() ? { specUrl: specUrlVal.trim() } : {}),
-      headers: parseJsonSilent(headersVal),
-      variables: parseJsonSilent(variablesVal),
-      ...(hookVal.trim() ? { preRequestHook: hookVal.trim() } : {}),
+      specUrl: specUrlVal.trim() || undefined,
+      headers: unmaskRecord(parseJsonSilent(headersVal), editedEnv?.headers ?? {}),
+      variables: unmaskRecord(parseJsonSilent(variablesVal), editedEnv?.variables ?? {}),
+      secrets: secrets.length > 0 ? secrets : undefined,
+      credentials: Object.keys(credentials).length > 0 ? credentials : undefined,
+      preRequestHook: hookVal.trim() || undefined,
+      fakerLocale: localeVal,
+      blockUnresolved: blockVal || undefined,
+      server: pickedServer ? { url: pickedServer.url, variables: parseJsonSilent(serverVarsVal) } : undefined,
     };
-    saveEnvironment(env);
+    try {
+      saveEnvironment(env);
+    } catch (err) {
+      setSaveError(err instanceof Error ? err.message : String(err));
+      return;
+    }
 
     // Auto-activate if no env active yet, or editing the current active env
     const shouldActivate = !state.activeEnvName || state.activeEnvName === name;
@@ -83,13 +134,38 @@ export function EnvManager() {
     setView('list');
   };
 
+  // Server fields only make sense when there is something to pick / a server picked
+  const activeFields = FIELDS.filter((f) =>
+    (f !== 'server' || serverOptions.length > 0) && (f !== 'serverVars' || Boolean(pickedServer))
+  );
+
   const moveFocus = (dir: 1 | -1) => {
     setFocusedField((cur) => {
-      const idx = FIELDS.indexOf(cur);
-      return FIELDS[(idx + dir + FIELDS.length) % FIELDS.length] ?? 'name';
+      const idx = activeFields.indexOf(cur);
+      return activeFields[(idx + dir + activeFields.length) % activeFields.length] ?? 'name';
     });
   };
 
+  /** Cycle the pinned server; variable values carry over where the new server declares the same name. */
+  const cycleServer = (dir: 1 | -1) => {
+    const count = serverOptions.length + 1;
+    const next = ((serverIdx + 1 + dir + count) % count) - 1;
+    setServerIdx(next);
+    const server = next >= 0 ? serverOptions[next] : undefined;
+    if (!server) { setServerVarsVal('{}'); return; }
+    const current = parseJsonSilent(serverVarsVal);
+    const vars = Object.fromEntries(
+      Object.entries(defaultServerVariables(server)).map(([k, v]) => [k, current[k] ?? v])
+    );
+    setServerVarsVal(Object.keys(vars).length ? JSON.stringify(vars) : '{}');
+  };
+
+  const cycleLocale = (dir: 1 | -1) => {
+    const options = [undefined, ...FAKER_LOCALES];
+    const idx = options.indexOf(localeVal);
+    setLocaleVal(options[(idx + dir + options.length) % options.length]);
+  };
+
   useInput((input, key) => {
     if (key.escape) {
       if (view !== 'list') { setView('list'); }
@@ -131,6 +207,18 @@ export function EnvManager() {
       if (key.tab && key.shift) { moveFocus(-1); return; }
       if (key.upArrow) { moveFocus(-1); return; }
       if (key.downArrow) { moveFocus(1); return; }
+      if (focusedField === 'server' && (key.leftArrow || key.rightArrow || input === ' ')) {
+        cycleServer(key.leftArrow ? -1 : 1);
+        return;
+      }
+      if (focusedField === 'unresolved' && (key.leftArrow || key.rightArrow || input === ' ')) {
+        setBlockVal((b) => !b);
+        return;
+      }
+      if (focusedField === 'locale' && (key.leftArrow || key.rightArrow || input === ' ')) {
+        cycleLocale(key.leftArrow ? -1 : 1);
+        return;
+      }
       if (key.return) {
         if (focusedField === 'hook') { handleSave(); }
         else { moveFocus(1); }
@@ -160,9 +248,11 @@ export function EnvManager() {
                     <Text backgroundColor={isSelected ? 'blue' : undefined}>
                       <Text color={isActive ? 'green' : 'gray'}>{isActive ? '● ' : '○ '}</Text>
                       <Text color="white" bold={isSelected}>{env.name}</Text>
-                      <Text color={isSelected ? 'white' : 'gray'}>{' — ' + env.baseUrl}</Text>
+                      <Text color={isSelected ? 'white' : 'gray'}>{' — ' + envBaseUrl(env)}</Text>
+                      {env.server && <Text color={isSelected ? 'cyan' : 'gray'}>{' ⌂'}</Text>}
                       {env.preRequestHook && <Text color={isSelected ? 'yellow' : 'gray'}>{' ⚡'}</Text>}
                       {env.tokenProvider && <Text color={isSelected ? 'cyan' : 'gray'}>{' 🔑'}</Text>}
+                      {env.secrets?.length ? <Text color={isSelected ? 'yellow' : 'gray'}>{' 🔒'}</Text> : null}
                     </Text>
                   </Box>
                   {isSelected && env.specUrl && (
@@ -223,7 +313,32 @@ export function EnvManager() {
           </Box>
           {fa('baseUrl') && (
             <Box paddingLeft={4}>
-              <Text color="gray" dimColor>{'Base URL used for all HTTP requests'}</Text>
+              <Text color="gray" dimColor>{'Base URL used for all HTTP requests — ignored when a server is pinned'}</Text>
+            </Box>
+          )}
+
+          {/* Pinned spec server */}
+          {serverOptions.length > 0 && (
+            <Box>
+              <Text color={fa('server') ? 'cyan' : 'gray'}>{fa('server') ? '▶ ' : '  '}{'Server:   '}</Text>
+              <Text color={pickedServer ? 'white' : 'gray'} wrap="truncate">
+                {pickedServer ? (pickedServer.description ? `${pickedServer.description} — ${pickedServer.url}` : pickedServer.url) : '— use Base URL —'}
+              </Text>
+              {fa('server') && <Text color="gray">{'  [←→]'}</Text>}
+            </Box>
+          )}
+          {pickedServer && (
+            <Box>
+              <Text color={fa('serverVars') ? 'cyan' : 'gray'}>{fa('serverVars') ? '▶ ' : '  '}{'  Vars:   '}</Text>
+              <TextInput value={serverVarsVal} onChange={setServerVarsVal} focus={fa('serverVars')} placeholder={'{"region":"eu"}'} />
+            </Box>
+          )}
+          {pickedServer && (fa('server') || fa('serverVars')) && (
+            <Box paddingLeft={4} flexDirection="column">
+              <Text color="gray" dimColor wrap="truncate">{'→ ' + resolveServerUrl(pickedServer.url, parseJsonSilent(serverVarsVal), pickedServer)}</Text>
+              {Object.entries(pickedServer.variables).filter(([, v]) => v.enum?.length).map(([name, v]) => (
+                <Text key={name} color="gray" dimColor wrap="truncate">{`${name}: ${v.enum!.join(' | ')}`}</Text>
+              ))}
             </Box>
           )}
 
@@ -239,6 +354,48 @@ export function EnvManager() {
             <TextInput value={variablesVal} onChange={setVariablesVal} focus={fa('variables')} placeholder={'{"userId":"123"}'} />
           </Box>
 
+          {/* Secret header / variable names */}
+          <Box>
+            <Text color={fa('secrets') ? 'cyan' : 'gray'}>{fa('secrets') ? '▶ ' : '  '}{'Secret:   '}</Text>
+            <TextInput value={secretsVal} onChange={setSecretsVal} focus={fa('secrets')} placeholder={'Authorization, apiKey  (names stored encrypted)'} />
+          </Box>
+          {fa('secrets') && (
+            <Box paddingLeft={4}>
+              <Text color="gray" dimColor>
+                {'masked above — retype ' + MASK + ' to change · passphrase: '
+                  + (!secretsConfigured() ? 'not set [k]' : secretsUnlocked() ? 'unlocked' : 'locked [k]')}
+              </Text>
+            </Box>
+          )}
+
+          {/* Unresolved {{variables}} */}
+          <Box>
+            <Text color={fa('unresolved') ? 'cyan' : 'gray'}>{fa('unresolved') ? '▶ ' : '  '}{'{{vars}}: '}</Text>
+            <Text color={blockVal ? 'red' : 'white'}>{blockVal ? 'block sending while unresolved' : 'warn when unresolved'}</Text>
+            {fa('unresolved') && <Text color="gray">{'  [←→]'}</Text>}
+          </Box>
+
+          {/* Faker locale */}
+          <Box>
+            <Text color={fa('locale') ? 'cyan' : 'gray'}>{fa('locale') ? '▶ ' : '  '}{'Locale:   '}</Text>
+            <Text color={localeVal ? 'white' : 'gray'}>{localeVal ?? `— default (${DEFAULT_FAKER_LOCALE}) —`}</Text>
+            {fa('locale') && <Text color="gray">{'  [←→]  fake names, phones, addresses, documents'}</Text>}
+          </Box>
+
+          {/* Security scheme credentials */}
+          <Box>
+            <Text color={fa('credentials') ? 'cyan' : 'gray'}>{fa('credentials') ? '▶ ' : '  '}{'Auth:     '}</Text>
+            <TextInput value={credentialsVal} onChange={setCredentialsVal} focus={fa('credentials')} placeholder={'{"bearerAuth":{"value":"..."}}'} />
+          </Box>
+          {fa('credentials') && (
+            <Box paddingLeft={4} flexDirection="column">
+              <Text color="gray" dimColor>{'per scheme: {"value":"key or token"} · basic: {"username":"u","password":"p"} · ' + MASK + ' keeps the stored value'}</Text>
+              {(state.spec?.securitySchemes.length ?? 0) > 0 && (
+                <Text color="gray" dimColor>{'spec schemes: ' + state.spec!.securitySchemes.map((sc) => `${sc.name} (${describeScheme(sc)})`).join(', ')}</Text>
+              )}
+            </Box>
+          )}
+
           {/* Hook */}
           <Box marginTop={1}>
             <Text color={fa('hook') ? 'cyan' : 'gray'}>{fa('hook') ? '▶ ' : '  '}{'Hook ⚡:  '}</Text>
@@ -257,9 +414,10 @@ export function EnvManager() {
           ) : (
             <Text color="gray">{'  [Enter] next field  ·  Tab until Hook → Enter to save'}</Text>
           )}
-          {(!nameVal.trim() || !baseUrlVal.trim()) && (
-            <Text color="red">{'  name & baseUrl required'}</Text>
+          {(!nameVal.trim() || (!baseUrlVal.trim() && !pickedServer)) && (
+            <Text color="red">{'  name & baseUrl (or server) required'}</Text>
           )}
+          {saveError && <Text color="red">{`  ${saveError}`}</Text>}
         </Box>
       </Box>
     </Box>
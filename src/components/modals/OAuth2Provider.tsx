@@ -0,0 +1,320 @@
+import React, { useState, useCallback, useEffect, useRef } from 'react';
+import { Box, Text, useInput } from 'ink';
+import TextInput from 'ink-text-input';
+import Spinner from 'ink-spinner';
+import { useApp, useActiveEnvironment } from '../../context/AppContext.js';
+import { saveEnvironment, getConfig } from '../../lib/config-store.js';
+import { interpolateVariables } from '../../lib/executor.js';
+import { testOAuth2, type OAuthTokenResult } from '../../lib/oauth.js';
+import { authorizeUrlError, authorizeWithPkce } from '../../lib/oauth-pkce.js';
+import { isSealed } from '../../lib/secrets.js';
+import { clearTokenCache, tokenTimeToExpiry, formatTimeToExpiry } from '../../lib/token-cache.js';
+import { variableValues } from '../../lib/variables.js';
+import type { OAuth2Config, OAuth2GrantType } from '../../types/config.js';
+
+type FormField =
+  | 'grantType' | 'tokenUrl' | 'authorizeUrl' | 'redirectPort' | 'clientId' | 'clientSecret' | 'clientAuth'
+  | 'scopes' | 'audience' | 'username' | 'password' | 'refreshToken';
+
+const GRANTS: OAuth2GrantType[] = ['client_credentials', 'authorization_code', 'password', 'refresh_token'];
+const CLIENT_AUTH: NonNullable<OAuth2Config['clientAuth']>[] = ['basic', 'body'];
+
+/** Sealed at rest once a master passphrase is set, and never shown. */
+const secret = (f: FormField) => f === 'clientSecret' || f === 'password' || f === 'refreshToken';
+
+function fieldsFor(grant: OAuth2GrantType): FormField[] {
+  return [
+    'grantType', 'tokenUrl',
+    ...(grant === 'authorization_code' ? (['authorizeUrl', 'redirectPort'] as FormField[]) : []),
+    'clientId', 'clientSecret', 'clientAuth', 'scopes', 'audience',
+    ...(grant === 'password' ? (['username', 'password'] as FormField[]) : []),
+    ...(grant === 'refresh_token' ? (['refreshToken'] as FormField[]) : []),
+  ];
+}
+
+const LABELS: Record<FormField, string> = {
+  grantType:    'Grant:         ',
+  tokenUrl:     'Token URL:     ',
+  authorizeUrl: 'Authorize URL: ',
+  redirectPort: 'Redirect port: ',
+  clientId:     'Client ID:     ',
+  clientSecret: 'Client secret: ',
+  clientAuth:   'Client auth:   ',
+  scopes:       'Scopes:        ',
+  audience:     'Audience:      ',
+  username:     'Username:      ',
+  password:     'Password:      ',
+  refreshToken: 'Refresh token: ',
+};
+
+const PLACEHOLDERS: Partial<Record<FormField, string>> = {
+  tokenUrl: 'https://auth.example.com/oauth/token',
+  authorizeUrl: 'https://auth.example.com/authorize',
+  redirectPort: 'any free port — set one if the client only allows a fixed redirect URI',
+  scopes: 'read write  (space-separated)',
+};
+
+type TestState = 'idle' | 'loading' | 'ok' | 'error';
+
+interface OAuth2FormProps {
+  onClose: () => void;
+}
+
+export function OAuth2Form({ onClose }: OAuth2FormProps) {
+  const { state, dispatch } = useApp();
+  const activeEnv = useActiveEnvironment();
+  const existing = activeEnv?.oauth2;
+
+  // Pre-fill URLs from the spec's oauth2 flows when nothing is configured yet
+  const specFlows = state.spec?.securitySchemes.flatMap((s) => Object.values(s.flows ?? {})) ?? [];
+  const specTokenUrl = specFlows.find((f) => f.tokenUrl)?.tokenUrl ?? '';
+  const specAuthorizeUrl = specFlows.find((f) => f.authorizationUrl)?.authorizationUrl ?? '';
+
+  const [grantType, setGrantType] = useState<OAuth2GrantType>(existing?.grantType ?? 'client_credentials');
+  const [clientAuth, setClientAuth] = useState<NonNullable<OAuth2Config['clientAuth']>>(existing?.clientAuth ?? 'basic');
+  const [values, setValues] = useState<Record<string, string>>({
+    tokenUrl: existing?.tokenUrl ?? specTokenUrl,
+    authorizeUrl: existing?.authorizeUrl ?? specAuthorizeUrl,
+    redirectPort: existing?.redirectPort ? String(existing.redirectPort) : '',
+    clientId: existing?.clientId ?? '',
+    clientSecret: existing?.clientSecret ?? '',
+    scopes: existing?.scopes ?? '',
+    audience: existing?.audience ?? '',
+    username: existing?.username ?? '',
+    password: existing?.password ?? '',
+    refreshToken: existing?.refreshToken ?? '',
+  });
+  const [focusedField, setFocusedField] = useState<FormField>('grantType');
+  const [testState, setTestState] = useState<TestState>('idle');
+  const [testMsg, setTestMsg] = useState('');
+  const [authorizeUrl, setAuthorizeUrl] = useState('');
+  const abortRef = useRef<AbortController | null>(null);
+  const [ttl, setTtl] = useState<number | null>(activeEnv ? tokenTimeToExpiry(activeEnv.name) : null);
+
+  const fields = fieldsFor(grantType);
+  const lastField = fields[fields.length - 1]!;
+
+  useEffect(() => {
+    if (!activeEnv) return;
+    const t = setInterval(() => setTtl(tokenTimeToExpiry(activeEnv.name)), 1000);
+    return () => clearInterval(t);
+  }, [activeEnv]);
+
+  const setValue = (key: string) => (v: string) => setValues((prev) => ({ ...prev, [key]: v }));
+
+  const buildConfig = useCallback((): OAuth2Config => ({
+    grantType,
+    clientAuth,
+    tokenUrl: values['tokenUrl']!.trim(),
+    clientId: values['clientId']!.trim(),
+    ...(values['clientSecret'] ? { clientSecret: values['clientSecret'] } : {}),
+    ...(values['scopes']!.trim() ? { scopes: values['scopes']!.trim() } : {}),
+    ...(values['audience']!.trim() ? { audience: values['audience']!.trim() } : {}),
+    ...(grantType === 'password' ? { username: values['username'], password: values['password'] } : {}),
+    ...(grantType === 'refresh_token' ? { refreshToken: values['refreshToken'] } : {}),
+    ...(grantType === 'authorization_code' ? {
+      authorizeUrl: values['authorizeUrl']!.trim(),
+      ...(Number(values['redirectPort']) > 0 ? { redirectPort: Number(values['redirectPort']) } : {}),
+    } : {}),
+  }), [grantType, clientAuth, values]);
+
+  const refreshEnvs = () => {
+    const config = getConfig();
+    dispatch({ type: 'SET_ENVIRONMENTS', environments: config.environments });
+  };
+
+  const handleSave = useCallback(() => {
+    if (!activeEnv) return;
+    const cfg = buildConfig();
+    if (!cfg.tokenUrl || !cfg.clientId) return;
+    if (cfg.grantType === 'authorization_code' && !cfg.authorizeUrl) return;
+    // {{vars}} resolve when the flow runs — the URL must parse once they do
+    const vars = variableValues(activeEnv);
+    const urlError = cfg.authorizeUrl ? authorizeUrlError(interpolateVariables(cfg.authorizeUrl, vars)) : null;
+    if (urlError) {
+      setTestState('error');
+      setTestMsg(`✗ ${urlError}`);
+      return;
+    }
+    clearTokenCache(activeEnv.name);
+    // OAuth2 replaces the endpoint-based provider — only one token source per env
+    const { tokenProvider: _replaced, ...rest } = activeEnv;
+    try {
+      saveEnvironment({ ...rest, oauth2: cfg });
+    } catch (err) {
+      // Secret fields are sealed once a master passphrase is set — refused while locked
+      setTestState('error');
+      setTestMsg(`✗ ${err instanceof Error ? err.message : String(err)}`);
+      return;
+    }
+    refreshEnvs();
+    onClose();
+  }, [activeEnv, buildConfig, onClose]);
+
+  const handleRemove = useCallback(() => {
+    if (!activeEnv) return;
+    clearTokenCache(activeEnv.name);
+    const { oauth2: _removed, ...rest } = activeEnv;
+    saveEnvironment(rest);
+    refreshEnvs();
+    onClose();
+  }, [activeEnv, onClose]);
+
+  const handleTest = useCallback(async () => {
+    if (!activeEnv) return;
+    // Sealed while the secrets are locked — would be sent as ciphertext
+    const locked = fields.filter((f) => secret(f) && isSealed(values[f] ?? ''));
+    if (locked.length > 0) {
+      setTestState('error');
+      setTestMsg(`✗ ${locked.join(', ')} locked — unlock the secrets with [k] first`);
+      return;
+    }
+    setTestState('loading');
+    setTestMsg('');
+    clearTokenCache(activeEnv.name);
+    const vars = variableValues(activeEnv);
+    const interpolate = (s: string) => interpolateVariables(s, vars);
+    let result: OAuthTokenResult;
+    if (grantType === 'authorization_code') {
+      // Interactive: wait for the browser redirect to the loopback listener
+      const ctrl = new AbortController();
+      abortRef.current = ctrl;
+      result = await authorizeWithPkce(buildConfig(), activeEnv.name, interpolate, {
+        onAuthorizeUrl: setAuthorizeUrl,
+        signal: ctrl.signal,
+      });
+      abortRef.current = null;
+      setAuthorizeUrl('');
+    } else {
+      result = await testOAuth2(buildConfig(), activeEnv.name, interpolate);
+    }
+    setTtl(tokenTimeToExpiry(activeEnv.name));
+    if (result.token) {
+      setTestState('ok');
+      const exp = result.token.expiresAt ? ` · expires in ${formatTimeToExpiry(result.token.expiresAt - Date.now())}` : '';
+      setTestMsg(`✓ ${result.status} token cached${result.token.refreshToken ? ' (+refresh token)' : ''}${exp}`);
+    } else {
+      setTestState('error');
+      setTestMsg(`✗ ${result.status || 'network'} ${result.error ?? ''}`);
+    }
+  }, [activeEnv, buildConfig, grantType, fields, values]);
+
+  // Stop a pending authorization listener if the modal goes away
+  useEffect(() => () => abortRef.current?.abort(), []);
+
+  const moveFocus = (dir: 1 | -1) => {
+    setFocusedField((cur) => {
+      const idx = fields.indexOf(cur);
+      return fields[(idx + dir + fields.length) % fields.length] ?? 'grantType';
+    });
+  };
+
+  const cycle = <T,>(opts: T[], cur: T, dir: 1 | -1): T => opts[(opts.indexOf(cur) + dir + opts.length) % opts.length]!;
+
+  useInput((input, key) => {
+    if (abortRef.current) {
+      // Waiting for the browser — Esc cancels the listener, everything else is ignored
+      if (key.escape) abortRef.current.abort();
+      return;
+    }
+    if (key.escape) { onClose(); return; }
+    if (key.tab && !key.shift) { moveFocus(1); return; }
+    if ((key.tab && key.shift) || key.upArrow) { moveFocus(-1); return; }
+    if (key.downArrow) { moveFocus(1); return; }
+    if (focusedField === 'grantType' && (key.leftArrow || key.rightArrow || input === ' ')) {
+      setGrantType((g) => cycle(GRANTS, g, key.leftArrow ? -1 : 1));
+      return;
+    }
+    if (focusedField === 'clientAuth' && (key.leftArrow || key.rightArrow || input === ' ')) {
+      setClientAuth((a) => cycle(CLIENT_AUTH, a, key.leftArrow ? -1 : 1));
+      return;
+    }
+    if (key.return) {
+      if (focusedField === lastField) { handleSave(); return; }
+      moveFocus(1);
+      return;
+    }
+    if (key.ctrl && input === 't') { void handleTest(); return; }
+    if (key.ctrl && input === 'd') { handleRemove(); return; }
+    if (key.ctrl && input === 'x') {
+      if (activeEnv) { clearTokenCache(activeEnv.name); setTtl(null); }
+      return;
+    }
+  });
+
+  if (!activeEnv) {
+    return (
+      <Box flexGrow={1} alignItems="center" justifyContent="center">
+        <Text color="red">{'Select an environment first [e]'}</Text>
+      </Box>
+    );
+  }
+
+  const fa = (f: FormField) => focusedField === f;
+
+  return (
+    <Box flexDirection="column">
+      <Box>
+        <Text color="gray">{'Environment: '}</Text>
+        <Text color="yellow">{activeEnv.name}</Text>
+        {ttl !== null && (
+          <Text color={ttl > 60_000 ? 'green' : 'yellow'}>{`  token ${formatTimeToExpiry(ttl)}`}</Text>
+        )}
+      </Box>
+
+      <Box flexDirection="column" marginTop={1}>
+        {fields.map((f) => (
+          <Box key={f}>
+            <Text color={fa(f) ? 'cyan' : 'gray'}>{fa(f) ? '▶ ' : '  '}{LABELS[f]}</Text>
+            {f === 'grantType' ? (
+              <Text color={fa(f) ? 'cyan' : 'white'}>{grantType}{fa(f) ? <Text color="gray">{'  [←→]'}</Text> : ''}</Text>
+            ) : f === 'clientAuth' ? (
+              <Text color={fa(f) ? 'cyan' : 'white'}>
+                {clientAuth === 'basic' ? 'HTTP Basic header' : 'client_id/secret in body'}
+                {fa(f) ? <Text color="gray">{'  [←→]'}</Text> : ''}
+              </Text>
+            ) : (
+              <TextInput
+                value={values[f] ?? ''}
+                onChange={setValue(f)}
+                focus={fa(f)}
+                mask={secret(f) ? '•' : undefined}
+                placeholder={PLACEHOLDERS[f] ?? '{{variable}} allowed'}
+              />
+            )}
+          </Box>
+        ))}
+      </Box>
+
+      {testState !== 'idle' && (
+        <Box marginTop={1}>
+          {testState === 'loading'
+            ? (authorizeUrl
+              ? (
+                <Box flexDirection="column">
+                  <Text><Text color="cyan"><Spinner type="dots" /></Text>{' Waiting for authorization in the browser...  [Esc] cancel'}</Text>
+                  <Text color="gray">{'If no browser opened, visit:'}</Text>
+                  <Text color="white">{authorizeUrl}</Text>
+                </Box>
+              )
+              : <Text><Text color="cyan"><Spinner type="dots" /></Text>{' Requesting token...'}</Text>)
+            : <Text color={testState === 'ok' ? 'green' : 'red'} wrap="truncate">{testMsg}</Text>}
+        </Box>
+      )}
+
+      <Box marginTop={1} flexDirection="column">
+        {focusedField === lastField ? (
+          <Text backgroundColor="green" color="black">{' [Enter] Save '}</Text>
+        ) : (
+          <Text color="gray">{'  [Enter] next field  •  Enter on the last field saves'}</Text>
+        )}
+        <Box>
+          <Text color="gray">{grantType === 'authorization_code' ? '  [Ctrl+T] Authorize  ' : '  [Ctrl+T] Test  '}</Text>
+          {existing && <Text color="gray">{'[Ctrl+D] Remove  '}</Text>}
+          {ttl !== null && <Text color="gray">{'[Ctrl+X] Clear cache  '}</Text>}
+          <Text color="gray">{'[Esc] Cancel'}</Text>
+        </Box>
+      </Box>
+    </Box>
+  );
+}
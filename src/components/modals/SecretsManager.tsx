@@ -0,0 +1,154 @@
+import React, { useState } from 'react';
+import { Box, Text, useInput } from 'ink';
+import TextInput from 'ink-text-input';
+import { useApp } from '../../context/AppContext.js';
+import { changeMasterPassphrase, getConfig } from '../../lib/config-store.js';
+import { KEY_FILE_ENV, PASSPHRASE_ENV, lockSecrets, secretsConfigured, secretsUnlocked, unlockSecrets } from '../../lib/secrets.js';
+import { readVariableScopes } from '../../lib/variables.js';
+
+type View = 'status' | 'unlock' | 'set';
+
+export function SecretsManager() {
+  const { state, dispatch } = useApp();
+  const [view, setView] = useState<View>(() => (!secretsConfigured() ? 'set' : secretsUnlocked() ? 'status' : 'unlock'));
+  const [passphrase, setPassphrase] = useState('');
+  const [confirm, setConfirm] = useState('');
+  const [field, setField] = useState<0 | 1>(0); // 0=passphrase, 1=confirm
+  const [error, setError] = useState<string | null>(null);
+  const [notice, setNotice] = useState<string | null>(null);
+
+  // Environments in app state were read under the previous lock state
+  const reloadEnvs = () => dispatch({ type: 'SET_ENVIRONMENTS', environments: getConfig().environments });
+
+  const openView = (next: View) => {
+    setPassphrase('');
+    setConfirm('');
+    setField(0);
+    setError(null);
+    setView(next);
+  };
+
+  const submit = () => {
+    if (view === 'unlock') {
+      if (!unlockSecrets(passphrase)) { setError('Wrong passphrase'); setPassphrase(''); return; }
+      reloadEnvs();
+      dispatch({ type: 'CLOSE_MODAL' });
+      return;
+    }
+    if (!passphrase) { setError('Enter a passphrase'); return; }
+    if (field === 0) { setField(1); return; }
+    if (passphrase !== confirm) { setError('Passphrases do not match'); setConfirm(''); return; }
+    const first = !secretsConfigured();
+    try {
+      changeMasterPassphrase(passphrase);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : String(err));
+      return;
+    }
+    reloadEnvs();
+    openView('status');
+    setNotice(first ? '✓ Passphrase set — mark secrets in the env or variables manager' : '✓ Passphrase changed — secrets re-encrypted');
+  };
+
+  useInput((input, key) => {
+    if (key.escape) {
+      if (view === 'set' && secretsConfigured()) { openView('status'); return; }
+      dispatch({ type: 'CLOSE_MODAL' });
+      return;
+    }
+    if (view === 'status') {
+      if (input === 'l') {
+        lockSecrets();
+        reloadEnvs();
+        setNotice(null);
+        openView('unlock');
+        return;
+      }
+      if (input === 'c') { setNotice(null); openView('set'); return; }
+      return;
+    }
+    if (view === 'set' && (key.tab || key.upArrow || key.downArrow)) {
+      setField((f) => (f === 0 ? 1 : 0));
+      return;
+    }
+    if (key.return) submit();
+  });
+
+  const title = view === 'unlock' ? 'Unlock Secrets' : view === 'set' ? (secretsConfigured() ? 'Change Master Passphrase' : 'Set Master Passphrase') : 'Secrets';
+
+  // ── Passphrase forms ──
+  if (view !== 'status') {
+    return (
+      <Box flexGrow={1} flexDirection="column" alignItems="center" justifyContent="center">
+        <Box flexDirection="column" borderStyle="round" borderColor="cyan" paddingX={2} paddingY={1} width={74}>
+          <Text bold color="cyan">{title}</Text>
+          <Text color="gray">
+            {view === 'unlock' ? '[Enter] unlock  [Esc] stay locked' : '[Tab/↑↓] switch field  [Enter] next · save  [Esc] cancel'}
+          </Text>
+
+          <Box marginTop={1} flexDirection="column">
+            <Box>
+              <Text color={field === 0 ? 'cyan' : 'gray'}>{field === 0 ? '▶ ' : '  '}{'Passphrase: '}</Text>
+              <TextInput value={passphrase} onChange={(v) => { setPassphrase(v); setError(null); }} focus={field === 0} mask="•" />
+            </Box>
+            {view === 'set' && (
+              <Box>
+                <Text color={field === 1 ? 'cyan' : 'gray'}>{field === 1 ? '▶ ' : '  '}{'Confirm:    '}</Text>
+                <TextInput value={confirm} onChange={(v) => { setConfirm(v); setError(null); }} focus={field === 1} mask="•" />
+              </Box>
+            )}
+          </Box>
+
+          {error && <Box marginTop={1}><Text color="red">{`✗ ${error}`}</Text></Box>}
+          <Box marginTop={1} flexDirection="column">
+            {view === 'set' && <Text color="gray">{'Secret headers and variables, token provider bodies, OAuth2 client secrets'}</Text>}
+            {view === 'set' && <Text color="gray">{'and auth scheme credentials are encrypted with it.'}</Text>}
+            {view === 'set' && <Text color="gray">{'It is not stored — a lost passphrase means re-entering the secrets.'}</Text>}
+            <Text color="gray">{`Skip this prompt by starting with ${PASSPHRASE_ENV} or ${KEY_FILE_ENV}.`}</Text>
+          </Box>
+        </Box>
+      </Box>
+    );
+  }
+
+  // ── Status ──
+  const scopes = readVariableScopes().secrets;
+  const rows: [string, string[]][] = [
+    ...state.environments.filter((e) => e.secrets?.length).map((e): [string, string[]] => [`env ${e.name}`, e.secrets!]),
+    ...(scopes.global.length > 0 ? [['global', scopes.global] as [string, string[]]] : []),
+    ...Object.entries(scopes.specs).map(([src, names]): [string, string[]] => [`spec ${src.split('/').pop() ?? src}`, names]),
+  ];
+  const providers = state.environments.filter((e) => e.tokenProvider || e.oauth2 || e.credentials).length;
+
+  return (
+    <Box flexGrow={1} flexDirection="column" alignItems="center" justifyContent="center">
+      <Box flexDirection="column" borderStyle="round" borderColor="cyan" paddingX={2} paddingY={1} width={74}>
+        <Box justifyContent="space-between">
+          <Text bold color="cyan">{title}</Text>
+          <Text color="green">{'🔓 unlocked'}</Text>
+        </Box>
+        <Text color="gray">{'[l] lock  [c] change passphrase  [Esc] close'}</Text>
+
+        <Box marginTop={1} flexDirection="column">
+          {rows.length === 0 && providers === 0 && (
+            <Text color="gray">{'  Nothing stored encrypted yet. Mark secrets with [s] in the variables manager,'}</Text>
+          )}
+          {rows.length === 0 && providers === 0 && (
+            <Text color="gray">{'  or list header / variable names under Secret in the env manager.'}</Text>
+          )}
+          {rows.map(([where, names]) => (
+            <Text key={where}>
+              <Text color="yellow">{`  ${where}: `}</Text>
+              <Text>{names.join(', ')}</Text>
+            </Text>
+          ))}
+          {providers > 0 && (
+            <Text color="gray">{`  + token provider, OAuth2 and auth credentials of ${providers} env${providers === 1 ? '' : 's'}`}</Text>
+          )}
+        </Box>
+
+        {notice && <Box marginTop={1}><Text color="green">{notice}</Text></Box>}
+      </Box>
+    </Box>
+  );
+}
@@ -2,15 +2,20 @@ import React, { useState, useCallback } from 'react';
 import { Box, Text, useInput } from 'ink';
 import TextInput from 'ink-text-input';
 import Spinner from 'ink-spinner';
-import { useApp, useSelectedEndpoint, useActiveEnvironment } from '../../context/AppContext.js';
+import { useApp, useSelectedEndpoint, useActiveEnvironment, useSelectedServerUrl } from '../../context/AppContext.js';
 import { saveEnvironment, getConfig } from '../../lib/config-store.js';
-import { testTokenProvider, clearTokenCache, hasTokenCached } from '../../lib/executor.js';
+import { testTokenProvider, interpolateVariables } from '../../lib/executor.js';
+import { envBaseUrl } from '../../lib/servers.js';
+import { clearTokenCache, hasTokenCached } from '../../lib/token-cache.js';
+import { variableValues } from '../../lib/variables.js';
+import { OAuth2Form } from './OAuth2Provider.js';
 import type { TokenProvider } from '../../types/config.js';
 
 type FormField = 'body' | 'extraHeaders' | 'tokenPath' | 'headerName' | 'prefix';
 const FIELDS: FormField[] = ['body', 'extraHeaders', 'tokenPath', 'headerName', 'prefix'];
 
 type TestState = 'idle' | 'loading' | 'ok' | 'error';
+type ProviderMode = 'endpoint' | 'oauth2';
 
 interface TestDebug {
   status: number;
@@ -22,9 +27,11 @@ export function TokenProviderModal() {
   const { state, dispatch } = useApp();
   const endpoint = useSelectedEndpoint();
   const activeEnv = useActiveEnvironment();
+  const fallbackBaseUrl = useSelectedServerUrl();
 
   // Pre-fill from existing config if already set
   const existing = activeEnv?.tokenProvider;
+  const [mode, setMode] = useState<ProviderMode>(activeEnv?.oauth2 ? 'oauth2' : 'endpoint');
   const [body, setBody] = useState(existing?.body ?? '{}');
   const [extraHeaders, setExtraHeaders] = useState(
     existing?.extraHeaders && Object.keys(existing.extraHeaders).length
@@ -69,8 +76,16 @@ export function TokenProviderModal() {
     // Clear cache so new config takes effect immediately
     clearTokenCache(activeEnv.name);
 
-    const updatedEnv = { ...activeEnv, tokenProvider: provider };
-    saveEnvironment(updatedEnv);
+    // Endpoint provider replaces OAuth2 — only one token source per env
+    const { oauth2: _replaced, ...rest } = activeEnv;
+    try {
+      saveEnvironment({ ...rest, tokenProvider: provider });
+    } catch (err) {
+      // The body is sealed once a master passphrase is set — refused while locked
+      setTestState('error');
+      setTestError(err instanceof Error ? err.message : String(err));
+      return;
+    }
 
     const config = getConfig();
     dispatch({ type: 'SET_ENVIRONMENTS', environments: config.environments });
@@ -107,7 +122,7 @@ export function TokenProviderModal() {
         headerName: headerName || 'Authorization',
         prefix,
       },
-      activeEnv.baseUrl,
+      envBaseUrl(activeEnv, (s) => interpolateVariables(s, variableValues(activeEnv))) || fallbackBaseUrl,
       activeEnv.name
     );
 
@@ -125,9 +140,12 @@ export function TokenProviderModal() {
         setTestError('Response body is not a plain string');
       }
     }
-  }, [endpoint, activeEnv, body, extraHeaders, tokenPath, headerName, prefix]);
+  }, [endpoint, activeEnv, fallbackBaseUrl, body, extraHeaders, tokenPath, headerName, prefix]);
 
   useInput((input, key) => {
+    // Ctrl+O switches between the endpoint-based provider and OAuth2
+    if (key.ctrl && input === 'o') { setMode((m) => (m === 'oauth2' ? 'endpoint' : 'oauth2')); return; }
+    if (mode === 'oauth2') return;
     if (key.escape) { close(); return; }
     if (key.tab && !key.shift) { moveFocus(1); return; }
     if ((key.tab && key.shift) || key.upArrow) { moveFocus(-1); return; }
@@ -153,6 +171,20 @@ export function TokenProviderModal() {
     }
   });
 
+  if (mode === 'oauth2') {
+    return (
+      <Box flexGrow={1} flexDirection="column" alignItems="center" justifyContent="center">
+        <Box flexDirection="column" borderStyle="round" borderColor="cyan" paddingX={2} paddingY={1} width={72}>
+          <Box>
+            <Text bold color="cyan">{'⚡ OAuth2 Token Provider'}</Text>
+            <Text color="gray">{'  [Ctrl+O] use an endpoint instead'}</Text>
+          </Box>
+          <OAuth2Form onClose={close} />
+        </Box>
+      </Box>
+    );
+  }
+
   if (!endpoint) {
     return (
       <Box flexGrow={1} alignItems="center" justifyContent="center">
@@ -173,7 +205,10 @@ export function TokenProviderModal() {
   return (
     <Box flexGrow={1} flexDirection="column" alignItems="center" justifyContent="center">
       <Box flexDirection="column" borderStyle="round" borderColor="cyan" paddingX={2} paddingY={1} width={72}>
-        <Text bold color="cyan">{'⚡ Token Provider'}</Text>
+        <Box>
+          <Text bold color="cyan">{'⚡ Token Provider'}</Text>
+          <Text color="gray">{'  [Ctrl+O] use OAuth2 instead'}</Text>
+        </Box>
         <Box>
           <Text color="gray">{'Endpoint: '}</Text>
           <Text color="green" bold>{endpoint.method.toUpperCase()}</Text>
@@ -265,6 +300,9 @@ export function TokenProviderModal() {
                 )}
               </Box>
             )}
+            {!testDebug && testState === 'error' && (
+              <Text color="red">{'✗ ' + testError}</Text>
+            )}
           </Box>
         )}
 
@@ -2,30 +2,105 @@ import React, { useState } from 'react';
 import { Box, Text, useInput } from 'ink';
 import TextInput from 'ink-text-input';
 import { useApp, useActiveEnvironment } from '../../context/AppContext.js';
-import { saveEnvironment } from '../../lib/config-store.js';
+import { getConfig, saveEnvironment } from '../../lib/config-store.js';
+import { isSealed, MASK, secretsConfigured, secretsUnlocked } from '../../lib/secrets.js';
+import {
+  activeSpec, displayValues, effectiveVariables, getGlobalVariables, getSpecVariables, saveScopeVariables, secretNames,
+  type VariableScope,
+} from '../../lib/variables.js';
 
 type View = 'list' | 'edit';
+/** "effective" lists what a request sees; the others edit one scope */
+type Tab = 'effective' | Exclude<VariableScope, 'request'>;
+
+const TABS: Tab[] = ['effective', 'global', 'spec', 'env'];
+
+const SCOPE_COLOR: Record<VariableScope, string> = { global: 'blue', spec: 'magenta', env: 'green', request: 'yellow' };
+
+// Name to define when the manager next opens — set from the request form's unresolved {{variables}}
+let draftName: string | null = null;
+
+/** Open the manager straight into adding `name` — call before opening the modal. */
+export function draftVariable(name: string): void {
+  draftName = name;
+}
 
 export function VariablesManager() {
-  const { state, dispatch } = useApp();
+  const { dispatch } = useApp();
   const activeEnv = useActiveEnvironment();
+  const specSource = activeSpec();
 
-  const [view, setView] = useState<View>('list');
+  const [draft] = useState(() => {
+    const name = draftName;
+    draftName = null;
+    return name;
+  });
+  const [tab, setTab] = useState<Tab>(draft !== null ? (activeEnv ? 'env' : 'global') : 'effective');
+  const [view, setView] = useState<View>(draft !== null ? 'edit' : 'list');
   const [selectedIdx, setSelectedIdx] = useState(0);
+  // Global and spec scopes live outside app state — re-render after saving them
+  const [, setVersion] = useState(0);
+  // Secret shown in clear on request, and why the last action didn't happen
+  const [revealed, setRevealed] = useState<string | null>(null);
+  const [notice, setNotice] = useState<string | null>(null);
 
   // Edit form state
   const [editOriginalName, setEditOriginalName] = useState<string | null>(null); // null = add mode
-  const [editName, setEditName] = useState('');
+  const [editName, setEditName] = useState(draft ?? '');
   const [editValue, setEditValue] = useState('');
-  const [editField, setEditField] = useState<0 | 1>(0); // 0=name, 1=value
+  const [editField, setEditField] = useState<0 | 1>(draft !== null ? 1 : 0); // 0=name, 1=value
+
+  const effective = effectiveVariables(activeEnv);
+  const shown = displayValues(effective);
+  const scopeVars = (scope: Tab): Record<string, string> | null => {
+    if (scope === 'global') return getGlobalVariables();
+    if (scope === 'spec') return specSource ? getSpecVariables() : null;
+    if (scope === 'env') return activeEnv ? activeEnv.variables : null;
+    return null;
+  };
+  const secretsOf = (scope: Tab): string[] => {
+    if (scope === 'env') return activeEnv?.secrets ?? [];
+    return scope === 'global' || scope === 'spec' ? secretNames(scope) : [];
+  };
+  const current = scopeVars(tab);
+  const currentSecrets = secretsOf(tab);
+  const entries = tab === 'effective' ? effective.map((v): [string, string] => [v.name, v.raw]) : Object.entries(current ?? {});
+
+  /** Save a scope's variables and the names in it kept secret. False when the secrets are locked. */
+  const persistVars = (scope: Tab, vars: Record<string, string>, secrets = secretsOf(scope)): boolean => {
+    try {
+      if (scope === 'env') {
+        if (!activeEnv) return false;
+        // The env's secret list also names headers
+        const headerSecrets = (activeEnv.secrets ?? []).filter((n) => n in activeEnv.headers);
+        const names = [...new Set([...headerSecrets, ...secrets.filter((n) => n in vars)])];
+        saveEnvironment({ ...activeEnv, variables: vars, secrets: names.length > 0 ? names : undefined });
+        dispatch({ type: 'SET_ENVIRONMENTS', environments: getConfig().environments });
+      } else if (scope === 'global' || scope === 'spec') {
+        saveScopeVariables(scope, vars, secrets);
+        setVersion((v) => v + 1);
+      }
+    } catch (err) {
+      setNotice(err instanceof Error ? err.message : String(err));
+      return false;
+    }
+    setNotice(null);
+    return true;
+  };
 
-  const entries = activeEnv ? Object.entries(activeEnv.variables) : [];
+  /** Mark the selected variable secret, or back to plain. */
+  const toggleSecret = () => {
+    const [name] = entries[selectedIdx] ?? [];
+    if (!name || !current) return;
+    if (!secretsConfigured()) { setNotice('Set a master passphrase first — [k] outside this dialog'); return; }
+    if (!secretsUnlocked()) { setNotice('Secrets are locked — unlock them with [k] outside this dialog'); return; }
+    const secret = currentSecrets.includes(name);
+    persistVars(tab, current, secret ? currentSecrets.filter((n) => n !== name) : [...currentSecrets, name]);
+  };
 
-  const persistVars = (vars: Record<string, string>) => {
-    if (!activeEnv) return;
-    const updated = { ...activeEnv, variables: vars };
-    saveEnvironment(updated);
-    dispatch({ type: 'UPDATE_ENV_VARIABLES', envName: activeEnv.name, variables: vars });
+  const switchTab = (dir: 1 | -1) => {
+    setTab((t) => TABS[(TABS.indexOf(t) + dir + TABS.length) % TABS.length]!);
+    setSelectedIdx(0);
   };
 
   const openAdd = () => {
@@ -37,6 +112,10 @@ export function VariablesManager() {
   };
 
   const openEdit = (name: string, value: string) => {
+    if (effective.some((v) => v.name === name && v.locked)) {
+      setNotice(`{{${name}}} is a locked secret — unlock with [k] outside this dialog to edit it`);
+      return;
+    }
     setEditOriginalName(name);
     setEditName(name);
     setEditValue(value);
@@ -47,15 +126,17 @@ export function VariablesManager() {
   const handleSave = () => {
     const name = editName.trim();
     const value = editValue;
-    if (!name || !activeEnv) return;
+    if (!name || !current) return;
 
-    const vars = { ...activeEnv.variables };
-    // If renaming, remove old key
+    const vars = { ...current };
+    let secrets = currentSecrets;
+    // If renaming, remove old key — a secret stays secret under its new name
     if (editOriginalName !== null && editOriginalName !== name) {
       delete vars[editOriginalName];
+      if (secrets.includes(editOriginalName)) secrets = [...secrets.filter((n) => n !== editOriginalName), name];
     }
     vars[name] = value;
-    persistVars(vars);
+    if (!persistVars(tab, vars, secrets)) return;
 
     // Keep selection on the saved item
     const newEntries = Object.entries(vars);
@@ -65,12 +146,12 @@ export function VariablesManager() {
   };
 
   const handleDelete = () => {
-    if (!activeEnv || entries.length === 0) return;
+    if (!current || entries.length === 0) return;
     const [name] = entries[selectedIdx] ?? [];
     if (!name) return;
-    const vars = { ...activeEnv.variables };
+    const vars = { ...current };
     delete vars[name];
-    persistVars(vars);
+    persistVars(tab, vars);
     setSelectedIdx((i) => Math.max(0, i - 1));
   };
 
@@ -82,8 +163,27 @@ export function VariablesManager() {
     }
 
     if (view === 'list') {
-      if (key.upArrow) { setSelectedIdx((i) => Math.max(0, i - 1)); return; }
-      if (key.downArrow) { setSelectedIdx((i) => Math.min(entries.length - 1, i + 1)); return; }
+      if (key.tab || key.rightArrow) { switchTab(1); return; }
+      if (key.leftArrow) { switchTab(-1); return; }
+      if (key.upArrow) { setSelectedIdx((i) => Math.max(0, i - 1)); setRevealed(null); return; }
+      if (key.downArrow) { setSelectedIdx((i) => Math.min(entries.length - 1, i + 1)); setRevealed(null); return; }
+      if (input === 'r') {
+        const [name] = entries[selectedIdx] ?? [];
+        setRevealed((r) => (r === name ? null : name ?? null));
+        return;
+      }
+      if (tab === 'effective') {
+        // Edit where the value is defined
+        const v = effective[selectedIdx];
+        if ((input === 'e' || key.return) && v) {
+          const scope = v.scope as Tab;
+          setTab(scope);
+          setSelectedIdx(Math.max(0, Object.keys(scopeVars(scope) ?? {}).indexOf(v.name)));
+          openEdit(v.name, v.raw);
+        }
+        return;
+      }
+      if (!current) return;
       if (input === 'a') { openAdd(); return; }
       if ((input === 'e' || key.return) && entries.length > 0) {
         const [name, value] = entries[selectedIdx] ?? [];
@@ -91,6 +191,7 @@ export function VariablesManager() {
         return;
       }
       if (input === 'd') { handleDelete(); return; }
+      if (input === 's') { toggleSecret(); return; }
       return;
     }
 
@@ -104,26 +205,17 @@ export function VariablesManager() {
     }
   });
 
-  // ── No active env ──
-  if (!activeEnv) {
-    return (
-      <Box flexGrow={1} flexDirection="column" alignItems="center" justifyContent="center">
-        <Box flexDirection="column" borderStyle="round" borderColor="cyan" paddingX={2} paddingY={1} width={60}>
-          <Text bold color="cyan">{'Variables'}</Text>
-          <Text color="gray">{'No active environment.'}</Text>
-          <Text color="gray">{'Press [e] to create or activate an environment first.'}</Text>
-        </Box>
-      </Box>
-    );
-  }
-
   // ── Edit / Add form ──
   if (view === 'edit') {
     const isAdd = editOriginalName === null;
+    const isSecret = editOriginalName !== null && currentSecrets.includes(editOriginalName);
     return (
       <Box flexGrow={1} flexDirection="column" alignItems="center" justifyContent="center">
         <Box flexDirection="column" borderStyle="round" borderColor="cyan" paddingX={2} paddingY={1} width={70}>
-          <Text bold color="cyan">{isAdd ? 'Add Variable' : 'Edit Variable'}</Text>
+          <Box justifyContent="space-between">
+            <Text bold color="cyan">{isAdd ? 'Add Variable' : 'Edit Variable'}</Text>
+            <Text color={SCOPE_COLOR[tab as VariableScope]}>{`${isSecret ? '🔒 secret · ' : ''}${tab} scope`}</Text>
+          </Box>
           <Text color="gray">{'[Tab/↑↓] switch field  [Enter] save  [Esc] cancel'}</Text>
 
           <Box marginTop={1} flexDirection="column">
@@ -142,7 +234,8 @@ export function VariablesManager() {
                 value={editValue}
                 onChange={setEditValue}
                 focus={editField === 1}
-                placeholder={'value'}
+                mask={isSecret ? '•' : undefined}
+                placeholder={'value — may reference {{otherVariable}}'}
               />
             </Box>
           </Box>
@@ -153,43 +246,106 @@ export function VariablesManager() {
               : <Text backgroundColor="green" color="black">{' [Enter] Save '}</Text>
             }
           </Box>
+          {notice && <Text color="red">{`  ${notice}`}</Text>}
         </Box>
       </Box>
     );
   }
 
+  const specName = specSource ? specSource.split('/').pop() ?? specSource : null;
+  const trim = (s: string, n: number) => (s.length > n ? s.slice(0, n) + '…' : s);
+
   // ── List view ──
   return (
     <Box flexGrow={1} flexDirection="column" alignItems="center" justifyContent="center">
-      <Box flexDirection="column" borderStyle="round" borderColor="cyan" paddingX={2} paddingY={1} width={74}>
+      <Box flexDirection="column" borderStyle="round" borderColor="cyan" paddingX={2} paddingY={1} width={84}>
         <Box justifyContent="space-between">
           <Text bold color="cyan">{'Variables'}</Text>
-          <Text color="gray">{'env: '}<Text color="green">{activeEnv.name}</Text></Text>
+          <Text color="gray">
+            {'env: '}<Text color="green">{activeEnv?.name ?? '—'}</Text>
+            {'  spec: '}<Text color="magenta">{specName ?? '—'}</Text>
+          </Text>
+        </Box>
+        <Box>
+          {TABS.map((t) => (
+            <Text key={t} color={t === tab ? 'black' : 'gray'} backgroundColor={t === tab ? 'cyan' : undefined}>{` ${t} `}</Text>
+          ))}
+          <Text color="gray">{'  [Tab/←→] scope'}</Text>
         </Box>
-        <Text color="gray">{'[↑↓] navigate  [a] add  [e/Enter] edit  [d] delete  [Esc] close'}</Text>
+        <Text color="gray">
+          {tab === 'effective'
+            ? '[↑↓] navigate  [e/Enter] edit where defined  [r] reveal  [Esc] close'
+            : '[↑↓] navigate  [a] add  [e/Enter] edit  [d] delete  [s] secret  [r] reveal  [Esc] close'}
+        </Text>
+        {notice && <Text color="red">{notice}</Text>}
 
         <Box flexDirection="column" marginTop={1}>
-          {entries.length === 0 && (
-            <Text color="gray">{'  No variables yet. Press [a] to add one.'}</Text>
-          )}
-          {entries.map(([name, value], i) => {
-            const isSel = i === selectedIdx;
-            const displayVal = value.length > 45 ? value.slice(0, 45) + '…' : value;
-            return (
-              <Box key={name}>
-                <Text backgroundColor={isSel ? 'blue' : undefined}>
-                  <Text color={isSel ? 'white' : 'gray'}>{isSel ? '▶ ' : '  '}</Text>
-                  <Text color={isSel ? 'cyan' : 'cyan'}>{`{{${name}}}`}</Text>
-                  <Text color={isSel ? 'white' : 'gray'}>{`  =  `}</Text>
-                  <Text color={isSel ? 'white' : 'gray'}>{`"${displayVal}"`}</Text>
-                </Text>
+          {tab === 'effective' && (
+            <>
+              {effective.length === 0 && <Text color="gray">{'  No variables in any scope yet.'}</Text>}
+              {effective.map((v, i) => {
+                const isSel = i === selectedIdx;
+                const clear = revealed === v.name;
+                const value = v.locked ? '🔒 locked' : v.secret && !clear ? MASK : `"${trim(clear ? v.value : shown[v.name]!, 40)}"`;
+                return (
+                  <Box key={v.name} flexDirection="column">
+                    <Text backgroundColor={isSel ? 'blue' : undefined}>
+                      <Text color={isSel ? 'white' : 'gray'}>{isSel ? '▶ ' : '  '}</Text>
+                      <Text color="cyan">{`{{${v.name}}}`}</Text>
+                      <Text color={isSel ? 'white' : 'gray'}>{'  =  '}</Text>
+                      <Text color={v.cycle ? 'red' : isSel ? 'white' : 'gray'}>{value}</Text>
+                      <Text color={SCOPE_COLOR[v.scope]}>{`  ${v.scope}`}</Text>
+                      {v.secret && <Text color="yellow">{' 🔒'}</Text>}
+                      {v.shadows.length > 0 && <Text color="gray">{` (overrides ${v.shadows.join(', ')})`}</Text>}
+                    </Text>
+                    {v.cycle && <Text color="red">{`      ✗ reference cycle: ${v.cycle}`}</Text>}
+                    {!v.cycle && !v.secret && v.raw !== v.value && <Text color="gray">{`      from "${trim(v.raw, 60)}"`}</Text>}
+                  </Box>
+                );
+              })}
+              <Box marginTop={1}>
+                <Text color="gray">{'  request > env > spec > global  ·  request vars: [W] in the request form'}</Text>
               </Box>
-            );
-          })}
+            </>
+          )}
 
-          <Box marginTop={entries.length > 0 ? 1 : 0}>
-            <Text color="gray">{'  + [a] add new variable'}</Text>
-          </Box>
+          {tab !== 'effective' && !current && (
+            <Text color="gray">
+              {tab === 'env' ? '  No active environment. Press [e] to create or activate one.' : '  No spec loaded — spec variables belong to the loaded spec.'}
+            </Text>
+          )}
+
+          {tab !== 'effective' && current && (
+            <>
+              {entries.length === 0 && (
+                <Text color="gray">{'  No variables yet. Press [a] to add one.'}</Text>
+              )}
+              {entries.map(([name, value], i) => {
+                const isSel = i === selectedIdx;
+                const inEffect = effective.find((v) => v.name === name);
+                const overridden = inEffect && inEffect.scope !== tab;
+                const secret = currentSecrets.includes(name);
+                const locked = isSealed(value);
+                const display = locked ? '🔒 locked' : secret && revealed !== name ? MASK : `"${trim(value, 45)}"`;
+                return (
+                  <Box key={name}>
+                    <Text backgroundColor={isSel ? 'blue' : undefined}>
+                      <Text color={isSel ? 'white' : 'gray'}>{isSel ? '▶ ' : '  '}</Text>
+                      <Text color={overridden ? 'gray' : 'cyan'}>{`{{${name}}}`}</Text>
+                      <Text color={isSel ? 'white' : 'gray'}>{`  =  `}</Text>
+                      <Text color={isSel ? 'white' : 'gray'}>{display}</Text>
+                      {secret && <Text color="yellow">{' 🔒'}</Text>}
+                      {overridden && <Text color="yellow">{`  overridden by ${inEffect.scope}`}</Text>}
+                    </Text>
+                  </Box>
+                );
+              })}
+
+              <Box marginTop={entries.length > 0 ? 1 : 0}>
+                <Text color="gray">{'  + [a] add new variable'}</Text>
+              </Box>
+            </>
+          )}
         </Box>
       </Box>
     </Box>
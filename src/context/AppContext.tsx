@@ -1,9 +1,16 @@
 import React, { createContext, useContext, useReducer, type Dispatch } from 'react';
 import type { Endpoint, ParsedSpec, TagGroup } from '../types/openapi.js';
 import type { Environment } from '../types/config.js';
+import { defaultServerVariables, resolveServerUrl } from '../lib/servers.js';
 
 export type ActivePanel = 'sidebar' | 'detail' | 'request' | 'modal';
-export type ModalType = 'load-spec' | 'env-manager' | 'token-provider' | 'history' | 'saved-requests' | 'variables' | null;
+export type ModalType = 'load-spec' | 'env-manager' | 'token-provider' | 'history' | 'saved-requests' | 'variables' | 'secrets' | null;
+
+/** Spec server chosen in the request form, with its variable values */
+export interface ServerSelection {
+  index: number;
+  variables: Record<string, string>;
+}
 
 export interface AppState {
   specSource: string | null;
@@ -18,6 +25,7 @@ export interface AppState {
   sidebarSearchActive: boolean; // true when sidebar search TextInput has focus
   environments: Environment[];
   activeEnvName: string | null;
+  selectedServer: ServerSelection;
 }
 
 export type AppAction =
@@ -35,7 +43,8 @@ export type AppAction =
   | { type: 'SET_ACTIVE_ENV'; name: string | null }
   | { type: 'LOAD_SPEC'; source: string }
   | { type: 'SET_SIDEBAR_SEARCH'; active: boolean }
-  | { type: 'UPDATE_ENV_VARIABLES'; envName: string; variables: Record<string, string> };
+  | { type: 'UPDATE_ENV_VARIABLES'; envName: string; variables: Record<string, string> }
+  | { type: 'SELECT_SERVER'; selection: ServerSelection };
 
 function appReducer(state: AppState, action: AppAction): AppState {
   switch (action.type) {
@@ -52,6 +61,10 @@ function appReducer(state: AppState, action: AppAction): AppState {
         tagGroups,
         selectedEndpointId: firstEndpoint,
         sidebarIndex: 0,
+        selectedServer: {
+          index: 0,
+          variables: action.spec.servers[0] ? defaultServerVariables(action.spec.servers[0]) : {},
+        },
       };
     }
 
@@ -104,6 +117,9 @@ function appReducer(state: AppState, action: AppAction): AppState {
         ),
       };
 
+    case 'SELECT_SERVER':
+      return { ...state, selectedServer: action.selection };
+
     default:
       return state;
   }
@@ -122,6 +138,7 @@ const initialState: AppState = {
   sidebarSearchActive: false,
   environments: [],
   activeEnvName: null,
+  selectedServer: { index: 0, variables: {} },
 };
 
 interface AppContextValue {
@@ -169,3 +186,10 @@ export function useActiveEnvironment(): Environment | null {
   if (!state.activeEnvName) return null;
   return state.environments.find((e) => e.name === state.activeEnvName) ?? null;
 }
+
+/** Base URL of the server selected in the picker, variables substituted — '' when the spec has none. */
+export function useSelectedServerUrl(): string {
+  const { state } = useApp();
+  const server = state.spec?.servers[state.selectedServer.index] ?? state.spec?.servers[0];
+  return server ? resolveServerUrl(server.url, state.selectedServer.variables, server) : '';
+}
@@ -3,6 +3,8 @@ import { executeRequest, type RequestValues } from '../lib/executor.js';
 import type { Endpoint, RequestResult } from '../types/openapi.js';
 import type { Environment } from '../types/config.js';
 import { addToHistory } from '../lib/history.js';
+import { redactSecrets } from '../lib/secrets.js';
+import { secretValues } from '../lib/variables.js';
 
 export type RequestState = 'idle' | 'loading' | 'success' | 'error';
 
@@ -11,23 +13,28 @@ export function useRequest() {
   const [result, setResult] = useState<RequestResult | null>(null);
 
   const execute = useCallback(
-    async (endpoint: Endpoint, values: RequestValues, env: Environment | null, fallbackBaseUrl = '') => {
+    async (endpoint: Endpoint, values: RequestValues, env: Environment | null, fallbackBaseUrl = '', seed?: number): Promise<RequestResult> => {
       setState('loading');
       setResult(null);
       try {
         const res = await executeRequest(endpoint, values, env, fallbackBaseUrl);
         setResult(res);
         setState(res.error ? 'error' : 'success');
-        addToHistory(endpoint.id, endpoint.method, endpoint.path, env?.name ?? null, values, {
+        // History keeps what was actually sent — dynamic values are fixed at send time, secrets go back to {{name}}
+        const sent = redactSecrets(res.sentValues ?? values, secretValues(env, values.variables));
+        addToHistory(endpoint.id, endpoint.method, endpoint.path, env?.name ?? null, sent, {
           status: res.status,
           statusText: res.statusText,
           durationMs: res.durationMs,
           error: res.error,
-        });
+        }, seed);
+        return res;
       } catch (err: unknown) {
         const msg = err instanceof Error ? err.message : String(err);
-        setResult({ status: 0, statusText: 'Error', headers: {}, body: null, durationMs: 0, error: msg });
+        const res: RequestResult = { status: 0, statusText: 'Error', headers: {}, body: null, durationMs: 0, error: msg };
+        setResult(res);
         setState('error');
+        return res;
       }
     },
     []
@@ -1,6 +1,7 @@
 import { useEffect, useRef } from 'react';
 import { parseSpec } from '../lib/parser.js';
 import { addRecentSpec } from '../lib/config-store.js';
+import { setActiveSpec } from '../lib/variables.js';
 import { useApp } from '../context/AppContext.js';
 
 export function useSpec(source: string | null) {
@@ -17,6 +18,7 @@ export function useSpec(source: string | null) {
 
     parseSpec(source)
       .then((spec) => {
+        setActiveSpec(source);
         dispatch({ type: 'SET_SPEC', spec });
         addRecentSpec(source);
       })
@@ -5,25 +5,91 @@ import meow from 'meow';
 import { App } from './components/App.js';
 import { AppProvider } from './context/AppContext.js';
 import { getConfig, getActiveEnvironment } from './lib/config-store.js';
+import { runCall } from './lib/call.js';
+import { setSessionSeed } from './lib/faker.js';
+import { installCustomGenerators } from './lib/custom-generators.js';
+import { unlockFromEnvironment } from './lib/secrets.js';
 
 const cli = meow(
   `
   Usage
     $ openapicmd-tui [spec]
+    $ openapicmd-tui call <spec> <operationId|method:path> [options]
 
   Arguments
     spec   Path to OpenAPI spec file or URL (optional)
 
+  Options
+    --seed         Seed for generated fake data — the same seed reproduces the same values
+
+  Call options
+    --path, -p     Path param, key=value (repeatable)
+    --query, -q    Query param, key=value (repeatable — once per item of an array param)
+    --header, -H   Header, key=value or "Key: value" (repeatable)
+    --body, -d     Request body, or @file.json to read it from a file
+    --env, -e      Environment name (defaults to the active environment)
+    --var          Request variable, key=value — overrides global, spec and env ones (repeatable)
+
+  Secrets
+    OPENAPICMD_TUI_PASSPHRASE   Master passphrase that unlocks stored secrets
+    OPENAPICMD_TUI_KEY_FILE     File holding the key instead — wins over the passphrase
+
   Examples
     $ openapicmd-tui ./petstore.yaml
     $ openapicmd-tui https://petstore.swagger.io/v2/swagger.json
+    $ openapicmd-tui call ./petstore.yaml getPetById --path petId=1 --env staging
+    $ openapicmd-tui call ./petstore.yaml post:/pet --body @pet.json
 `,
   {
     importMeta: import.meta,
-    flags: {},
+    flags: {
+      path: { type: 'string', shortFlag: 'p', isMultiple: true },
+      query: { type: 'string', shortFlag: 'q', isMultiple: true },
+      header: { type: 'string', shortFlag: 'H', isMultiple: true },
+      body: { type: 'string', shortFlag: 'd' },
+      env: { type: 'string', shortFlag: 'e' },
+      var: { type: 'string', isMultiple: true },
+      seed: { type: 'number' },
+    },
   }
 );
 
+// Fake data setup — shared by the TUI and headless calls
+if (cli.flags.seed !== undefined) setSessionSeed(cli.flags.seed);
+installCustomGenerators();
+
+// ── Headless mode ──
+if (cli.input[0] === 'call') {
+  const [, spec, operation] = cli.input;
+  if (!spec || !operation) {
+    process.stderr.write('Usage: openapicmd-tui call <spec> <operationId|method:path> [options]\n');
+    process.exit(2);
+  }
+  try {
+    const code = await runCall({
+      spec,
+      operation,
+      path: cli.flags.path ?? [],
+      query: cli.flags.query ?? [],
+      header: cli.flags.header ?? [],
+      body: cli.flags.body,
+      env: cli.flags.env,
+      variables: cli.flags.var ?? [],
+    });
+    process.exit(code);
+  } catch (err) {
+    process.stderr.write(`✗ ${err instanceof Error ? err.message : String(err)}\n`);
+    process.exit(2);
+  }
+}
+
+try {
+  unlockFromEnvironment();
+} catch (err) {
+  process.stderr.write(`✗ ${err instanceof Error ? err.message : String(err)}\n`);
+  process.exit(2);
+}
+
 const source = cli.input[0] ?? null;
 const config = getConfig();
 const activeEnv = getActiveEnvironment();
@@ -0,0 +1,127 @@
+import fs from 'node:fs';
+import { parseSpec } from './parser.js';
+import { resolveServerUrl } from './servers.js';
+import { executeRequest, type RequestValues } from './executor.js';
+import { getExtractionRules, runExtraction, applyCaptures } from './extraction.js';
+import { getConfig, getActiveEnvironment } from './config-store.js';
+import { setActiveSpec } from './variables.js';
+import { MASK, unlockFromEnvironment } from './secrets.js';
+import { paramKind, rowsValue } from './param-style.js';
+import type { Endpoint, Parameter, ParsedSpec } from '../types/openapi.js';
+import type { Environment } from '../types/config.js';
+
+export interface CallOptions {
+  spec: string;
+  /** operationId or `method:path`, e.g. "get:/users/{id}" */
+  operation: string;
+  path: string[];
+  query: string[];
+  header: string[];
+  /** Raw body, or `@file.json` to read it from disk */
+  body?: string;
+  /** Environment name — defaults to the active environment */
+  env?: string;
+  /** Request-scope `key=value` variables */
+  variables: string[];
+}
+
+/** Parse repeated `key=value` flags into a record. Header flags also accept `Key: value`. */
+function parsePairs(items: string[], flag: string, allowColon = false): Record<string, string> {
+  const result: Record<string, string> = {};
+  for (const item of items) {
+    const eq = item.indexOf('=');
+    const colon = allowColon ? item.indexOf(':') : -1;
+    const sep = eq > 0 && (colon < 0 || eq < colon) ? eq : colon;
+    if (sep <= 0) throw new Error(`Invalid --${flag} "${item}" — expected key=value`);
+    result[item.slice(0, sep).trim()] = item.slice(sep + 1).trim();
+  }
+  return result;
+}
+
+/** Parse repeated param flags — repeating an array param adds an item; otherwise the last one wins. */
+function parseParams(items: string[], flag: string, params: Parameter[]): Record<string, string> {
+  const values = new Map<string, string[]>();
+  for (const item of items) {
+    for (const [name, value] of Object.entries(parsePairs([item], flag))) values.set(name, [...(values.get(name) ?? []), value]);
+  }
+  return Object.fromEntries([...values].map(([name, vs]) => {
+    const p = params.find((x) => x.name === name);
+    return [name, paramKind(p) === 'array' && vs.length > 1 ? rowsValue(vs) : vs[vs.length - 1]!];
+  }));
+}
+
+function readBody(raw: string | undefined): string {
+  if (!raw) return '';
+  if (!raw.startsWith('@')) return raw;
+  const file = raw.slice(1);
+  try {
+    return fs.readFileSync(file, 'utf-8');
+  } catch (err) {
+    throw new Error(`Could not read body file "${file}": ${err instanceof Error ? err.message : String(err)}`);
+  }
+}
+
+/** Find an endpoint by operationId, falling back to `method:path` (method is case-insensitive). */
+export function findOperation(spec: ParsedSpec, operation: string): Endpoint | null {
+  const byOpId = spec.endpoints.find((e) => e.operationId === operation);
+  if (byOpId) return byOpId;
+  const colon = operation.indexOf(':');
+  if (colon <= 0) return null;
+  const id = `${operation.slice(0, colon).toLowerCase()}:${operation.slice(colon + 1)}`;
+  return spec.endpoints.find((e) => e.id === id) ?? null;
+}
+
+function resolveEnvironment(name: string | undefined): Environment | null {
+  if (!name) return getActiveEnvironment();
+  const env = getConfig().environments.find((e) => e.name === name);
+  if (!env) throw new Error(`Unknown environment "${name}"`);
+  return env;
+}
+
+/** Execute a single operation without the TUI.
+ *  Prints the response body to stdout and a status line to stderr; returns the process exit code. */
+export async function runCall(opts: CallOptions): Promise<number> {
+  // Secrets are only readable when the passphrase or key file comes in through the environment
+  unlockFromEnvironment();
+  const env = resolveEnvironment(opts.env);
+  const spec = await parseSpec(opts.spec);
+  setActiveSpec(opts.spec);
+
+  const endpoint = findOperation(spec, opts.operation);
+  if (!endpoint) throw new Error(`Operation "${opts.operation}" not found in spec`);
+
+  const values: RequestValues = {
+    pathParams: parseParams(opts.path, 'path', endpoint.parameters.filter((p) => p.in === 'path')),
+    queryParams: parseParams(opts.query, 'query', endpoint.parameters.filter((p) => p.in === 'query')),
+    headers: parsePairs(opts.header, 'header', true),
+    body: readBody(opts.body),
+    variables: parsePairs(opts.variables, 'var'),
+  };
+  // -H 'Content-Type: ...' also picks the matching request media type (and its schema)
+  const ctHeader = Object.entries(values.headers).find(([k]) => k.toLowerCase() === 'content-type')?.[1];
+  if (ctHeader) values.contentType = ctHeader.split(';')[0]!.trim();
+
+  const server = spec.servers[0];
+  const result = await executeRequest(endpoint, values, env, server ? resolveServerUrl(server.url, {}, server) : '');
+
+  if (result.error) {
+    process.stderr.write(`✗ ${result.error}\n`);
+    return 1;
+  }
+
+  process.stderr.write(`${result.status} ${result.statusText} — ${result.durationMs}ms\n`);
+  if (result.securityError) process.stderr.write(`⚠ ${result.securityError}\n`);
+  // Extraction rules chain calls the same way they chain requests in the TUI
+  const captures = runExtraction(endpoint.id, getExtractionRules(endpoint.id), result);
+  if (env) applyCaptures(env, captures);
+  else if (captures.some((c) => c.value !== undefined)) process.stderr.write('✗ captured values not stored — no environment\n');
+  // Secret values never reach the log — CI keeps stderr
+  for (const c of captures) {
+    process.stderr.write(c.value !== undefined ? `⇢ {{${c.rule.variable}}} = ${c.secret ? MASK : c.value}\n` : `✗ ${c.rule.variable}: ${c.error}\n`);
+  }
+  if (result.body !== null && result.body !== undefined && result.body !== '') {
+    const text = typeof result.body === 'string' ? result.body : JSON.stringify(result.body, null, 2);
+    process.stdout.write(text.endsWith('\n') ? text : text + '\n');
+  }
+  return result.status >= 400 ? 1 : 0;
+}
@@ -1,6 +1,8 @@
 import Conf from 'conf';
 import type { AppConfig, Environment } from '../types/config.js';
 import { DEFAULT_CONFIG } from '../types/config.js';
+import { sealEnvironment, secretsConfigured, secretsUnlocked, setMasterPassphrase, unsealEnvironment } from './secrets.js';
+import { readVariableScopes, writeVariableScopes } from './variables.js';
 
 const store = new Conf<AppConfig>({
   projectName: 'openapicmd-tui',
@@ -9,14 +11,16 @@ const store = new Conf<AppConfig>({
 
 export function getConfig(): AppConfig {
   return {
-    environments: store.get('environments'),
+    environments: store.get('environments').map(unsealEnvironment),
     activeEnvironment: store.get('activeEnvironment'),
     recentSpecs: store.get('recentSpecs'),
   };
 }
 
+/** Save an environment — its secrets are sealed on the way to disk. */
 export function saveEnvironment(env: Environment): void {
   const envs = store.get('environments');
+  env = sealEnvironment(env);
   const idx = envs.findIndex((e) => e.name === env.name);
   if (idx >= 0) {
     envs[idx] = env;
@@ -47,5 +51,18 @@ export function addRecentSpec(source: string): void {
 export function getActiveEnvironment(): Environment | null {
   const name = store.get('activeEnvironment');
   if (!name) return null;
-  return store.get('environments').find((e) => e.name === name) ?? null;
+  const env = store.get('environments').find((e) => e.name === name);
+  return env ? unsealEnvironment(env) : null;
+}
+
+/** Set a new master passphrase and re-seal every stored secret under it. */
+export function changeMasterPassphrase(passphrase: string): void {
+  if (secretsConfigured() && !secretsUnlocked()) {
+    throw new Error('Unlock the secrets before changing the passphrase');
+  }
+  const envs = getConfig().environments;
+  const scopes = readVariableScopes();
+  setMasterPassphrase(passphrase);
+  store.set('environments', envs.map(sealEnvironment));
+  writeVariableScopes(scopes);
 }
@@ -82,6 +82,10 @@ export function parseCurl(raw: string): ParsedCurl | null {
         const val = hdr.slice(colon + 1).trim();
         headers[key] = val;
       }
+    } else if (t === '-b' || t === '--cookie') {
+      // Only inline name=value cookies — a bare value is a cookie jar file
+      const jar = tokens[++i] ?? '';
+      if (jar.includes('=')) headers['cookie'] = headers['cookie'] ? `${headers['cookie']}; ${jar}` : jar;
     } else if (t === '-d' || t === '--data' || t === '--data-raw' || t === '--data-binary' || t === '--data-urlencode') {
       body = tokens[++i] ?? null;
     } else if (t === '--json') {
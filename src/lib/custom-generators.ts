@@ -0,0 +1,214 @@
+import Conf from 'conf';
+import { readFileSync, statSync } from 'node:fs';
+import { createRequire } from 'node:module';
+import os from 'node:os';
+import path from 'node:path';
+import {
+  findFakerEntry, isBuiltinFakerId, pick, rand, random, setCustomFakerSource,
+  type FakerEntry, type FakerLocale,
+} from './faker.js';
+import { stringFromRegex } from './regex-gen.js';
+
+// ── User-defined faker generators ──
+// Listed in the faker picker under "Custom" and assignable to fields like any built-in entry
+
+export type CustomGenerator = {
+  /** Id used in the picker, in field patterns and in {{id}} references from templates */
+  id: string;
+  label?: string;
+} & (
+  | { kind: 'template'; template: string }   // "ORD-{{inteiro}}-{{uuid}}"
+  | { kind: 'regex'; pattern: string }
+  | { kind: 'list'; values: string[] }
+  | { kind: 'sequence'; start?: number; step?: number; pad?: number }
+  | { kind: 'script'; file: string }         // module.exports = (ctx) => value
+);
+
+/** What a script generator's function receives. */
+export interface ScriptContext {
+  /** A value from any other generator, built-in or custom */
+  gen: (id: string) => string;
+  /** Seeded randomness — use these instead of Math.random so --seed reproduces the output */
+  random: () => number;
+  rand: (min: number, max: number) => number;
+  pick: <T>(values: readonly T[]) => T;
+  locale: FakerLocale;
+}
+
+type ScriptFn = (ctx: ScriptContext) => unknown;
+
+/** Offered when there are no generators yet — saved only if edited. */
+export const GENERATORS_SAMPLE: CustomGenerator[] = [
+  { id: 'order_ref', label: 'Order reference', kind: 'template', template: 'ORD-{{inteiro}}-{{uuid}}' },
+  { id: 'sku', kind: 'regex', pattern: '[A-Z]{3}-\\d{4}' },
+  { id: 'status', kind: 'list', values: ['active', 'pending', 'blocked'] },
+  { id: 'invoice_no', kind: 'sequence', start: 1000, step: 1, pad: 6 },
+];
+
+const store = new Conf<{ generators: CustomGenerator[]; counters: Record<string, number> }>({
+  projectName: 'openapicmd-tui',
+  configName: 'generators',
+  defaults: { generators: [], counters: {} },
+});
+
+const KINDS = ['template', 'regex', 'list', 'sequence', 'script'] as const;
+const REFERENCE = /\{\{\s*([\w.-]+)\s*\}\}/g;
+// Templates referencing templates stop expanding this deep
+const MAX_NESTING = 5;
+
+let generators: CustomGenerator[] | null = null;
+const entryCache = new Map<FakerLocale, FakerEntry[]>();
+const scripts = new Map<string, { mtimeMs: number; fn: ScriptFn }>();
+
+export function getCustomGenerators(): CustomGenerator[] {
+  generators ??= store.get('generators');
+  return generators;
+}
+
+export function saveCustomGenerators(list: CustomGenerator[]): void {
+  store.set('generators', list);
+  generators = list;
+  entryCache.clear();
+}
+
+/** Script paths are relative to the directory holding generators.json; ~ is the home directory. */
+function scriptPath(file: string): string {
+  if (file.startsWith('~/')) return path.join(os.homedir(), file.slice(2));
+  return path.resolve(path.dirname(store.path), file);
+}
+
+/** Load a CommonJS-style script exporting the generator function — reloaded when the file changes. */
+function loadScript(file: string): ScriptFn {
+  const full = scriptPath(file);
+  const { mtimeMs } = statSync(full);
+  const cached = scripts.get(full);
+  if (cached?.mtimeMs === mtimeMs) return cached.fn;
+  const module = { exports: {} as unknown };
+  new Function('module', 'exports', 'require', readFileSync(full, 'utf8'))(module, module.exports, createRequire(full));
+  const exported = module.exports as ScriptFn | { default?: ScriptFn };
+  const fn = typeof exported === 'function' ? exported : exported.default;
+  if (typeof fn !== 'function') throw new Error(`${file} does not export a function`);
+  scripts.set(full, { mtimeMs, fn });
+  return fn;
+}
+
+/** Sequences persist their counter, so numbering carries on across runs. Every generated value
+ *  advances it — previews included — so values are unique but may skip. */
+function nextInSequence(id: string, start = 1, step = 1, pad?: number): string {
+  const counters = store.get('counters');
+  const value = counters[id] ?? start;
+  store.set('counters', { ...counters, [id]: value + step });
+  return pad ? String(value).padStart(pad, '0') : String(value);
+}
+
+function resolve(id: string, locale: FakerLocale, depth: number): string | null {
+  const custom = getCustomGenerators().find((g) => g.id === id);
+  if (custom) return depth > MAX_NESTING ? null : generate(custom, locale, depth);
+  return findFakerEntry(id, locale)?.generate() ?? null;
+}
+
+function generate(g: CustomGenerator, locale: FakerLocale, depth: number): string {
+  switch (g.kind) {
+    case 'template':
+      return g.template.replace(REFERENCE, (m, id: string) => resolve(id, locale, depth + 1) ?? m);
+    case 'regex':
+      return stringFromRegex(g.pattern);
+    case 'list':
+      return String(pick(g.values));
+    case 'sequence':
+      return nextInSequence(g.id, g.start, g.step, g.pad);
+    case 'script': {
+      const ctx: ScriptContext = { gen: (id) => resolve(id, locale, depth + 1) ?? '', random, rand, pick, locale };
+      return String(loadScript(g.file)(ctx) ?? '');
+    }
+  }
+}
+
+function customEntries(locale: FakerLocale): FakerEntry[] {
+  const cached = entryCache.get(locale);
+  if (cached) return cached;
+  const entries = getCustomGenerators().map((g): FakerEntry => ({
+    id: g.id,
+    category: 'Custom',
+    label: g.label ?? g.id,
+    generate: () => {
+      // A broken script or pattern shows up in the value instead of crashing the form
+      try { return generate(g, locale, 0); } catch (err) { return `[${g.id}: ${err instanceof Error ? err.message : String(err)}]`; }
+    },
+  }));
+  entryCache.set(locale, entries);
+  return entries;
+}
+
+/** Make the user's generators part of the faker catalogue. */
+export function installCustomGenerators(): void {
+  setCustomFakerSource(customEntries);
+}
+
+/** Problems with edited definitions — empty when the list can be saved. */
+export function checkGenerators(list: unknown): string[] {
+  if (!Array.isArray(list)) return ['expected a JSON array of generators'];
+  const problems: string[] = [];
+  const ids = new Set<string>();
+  const templates = new Map<string, string>();
+
+  list.forEach((raw, i) => {
+    const g = raw as Record<string, unknown>;
+    const id = typeof g?.['id'] === 'string' ? g['id'] : '';
+    const where = id ? `"${id}"` : `#${i + 1}`;
+    if (!/^[\w.-]+$/.test(id)) { problems.push(`${where}: id must be letters, digits, _ . or -`); return; }
+    if (ids.has(id)) problems.push(`${where}: duplicate id`);
+    if (isBuiltinFakerId(id)) problems.push(`${where}: id is already a built-in generator`);
+    ids.add(id);
+
+    switch (g['kind']) {
+      case 'template':
+        if (typeof g['template'] !== 'string') problems.push(`${where}: template must be a string`);
+        else templates.set(id, g['template']);
+        break;
+      case 'regex':
+        if (typeof g['pattern'] !== 'string') { problems.push(`${where}: pattern must be a string`); break; }
+        try { stringFromRegex(g['pattern']); } catch (err) { problems.push(`${where}: ${(err as Error).message}`); }
+        break;
+      case 'list':
+        if (!Array.isArray(g['values']) || g['values'].length === 0) problems.push(`${where}: values must be a non-empty array`);
+        break;
+      case 'sequence':
+        for (const k of ['start', 'step', 'pad']) {
+          if (g[k] !== undefined && typeof g[k] !== 'number') problems.push(`${where}: ${k} must be a number`);
+        }
+        break;
+      case 'script':
+        if (typeof g['file'] !== 'string') { problems.push(`${where}: file must be a path`); break; }
+        try {
+          loadScript(g['file']);
+        } catch (err) {
+          const missing = (err as NodeJS.ErrnoException).code === 'ENOENT';
+          problems.push(`${where}: ${missing ? `${scriptPath(g['file'])} not found` : (err as Error).message}`);
+        }
+        break;
+      default:
+        problems.push(`${where}: kind must be one of ${KINDS.join(', ')}`);
+    }
+  });
+
+  // Template references must exist and must not loop back
+  for (const [id, template] of templates) {
+    for (const [, ref] of template.matchAll(REFERENCE)) {
+      if (!ids.has(ref!) && !isBuiltinFakerId(ref!)) problems.push(`"${id}": unknown generator {{${ref}}}`);
+    }
+  }
+  const visiting = new Set<string>();
+  const loops = (id: string): boolean => {
+    if (visiting.has(id)) return true;
+    const template = templates.get(id);
+    if (!template) return false;
+    visiting.add(id);
+    const found = [...template.matchAll(REFERENCE)].some(([, ref]) => loops(ref!));
+    visiting.delete(id);
+    return found;
+  };
+  for (const id of templates.keys()) if (loops(id)) problems.push(`"${id}": template reference loop`);
+
+  return problems;
+}
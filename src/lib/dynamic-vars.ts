@@ -0,0 +1,117 @@
+import { randomInt, randomUUID } from 'node:crypto';
+import { findFakerEntry, DEFAULT_FAKER_LOCALE, type FakerLocale } from './faker.js';
+
+// ── Dynamic {{$name args}} placeholders ──
+// Resolved when the request is sent — every occurrence gets a fresh value
+
+/** `{{$name arg arg…}}` — args may hold `{{variable}}` references — or a plain `{{variable}}`. */
+const PLACEHOLDER = /\{\{\s*\$(\w+)((?:[^{}]|\{\{\w+\}\})*?)\s*\}\}|\{\{(\w+)\}\}/g;
+const VARIABLE = /\{\{(\w+)\}\}/g;
+
+/** Offered in the request form's variable picker — `usage` is inserted as {{usage}}. */
+export const DYNAMIC_VARIABLES: { usage: string; description: string }[] = [
+  { usage: '$uuid', description: 'random UUID v4' },
+  { usage: '$timestamp', description: 'Unix time in seconds — takes offsets like $now' },
+  { usage: '$isoDate', description: 'YYYY-MM-DD — takes offsets like $now' },
+  { usage: '$now +1d', description: 'ISO date-time, shifted by offsets in s m h d w M(onths) y' },
+  { usage: '$randomInt 1 100', description: 'integer in [min, max], default 0–1000' },
+  { usage: '$env HOME', description: 'environment variable of this process' },
+  { usage: '$faker cpf', description: 'value from any faker entry, in the env locale' },
+  { usage: '$base64 user:pass', description: 'base64 of the rest of the placeholder' },
+];
+
+const UNITS: Record<string, (d: Date, n: number) => void> = {
+  s: (d, n) => d.setSeconds(d.getSeconds() + n),
+  m: (d, n) => d.setMinutes(d.getMinutes() + n),
+  h: (d, n) => d.setHours(d.getHours() + n),
+  d: (d, n) => d.setDate(d.getDate() + n),
+  w: (d, n) => d.setDate(d.getDate() + 7 * n),
+  M: (d, n) => d.setMonth(d.getMonth() + n),
+  y: (d, n) => d.setFullYear(d.getFullYear() + n),
+};
+
+/** Now, shifted by offsets like "+1d" "-90m"; null when one doesn't parse. */
+function shiftedNow(args: string[]): Date | null {
+  const date = new Date();
+  for (const arg of args) {
+    const m = /^([+-]\d+)([smhdwMy])$/.exec(arg);
+    if (!m) return null;
+    UNITS[m[2]!]!(date, Number(m[1]));
+  }
+  return date;
+}
+
+/** Value of one dynamic variable, or null when the name or its arguments aren't understood. */
+export function resolveDynamicVariable(name: string, rawArgs: string, locale: FakerLocale = DEFAULT_FAKER_LOCALE): string | null {
+  const args = rawArgs.split(/\s+/).filter(Boolean);
+  switch (name) {
+    case 'uuid':
+      return randomUUID();
+    case 'timestamp': {
+      const date = shiftedNow(args);
+      return date && String(Math.floor(date.getTime() / 1000));
+    }
+    case 'isoDate': {
+      const date = shiftedNow(args);
+      return date && date.toISOString().slice(0, 10);
+    }
+    case 'now': {
+      const date = shiftedNow(args);
+      return date && date.toISOString();
+    }
+    case 'randomInt': {
+      const [min = 0, max = 1000] = args.map(Number);
+      // crypto.randomInt takes an exclusive max — it throws on unsafe integers and on spans past 2^48 - 1
+      if (!Number.isSafeInteger(min) || !Number.isSafeInteger(max + 1) || max < min || max + 1 - min > 2 ** 48 - 1) return null;
+      return String(randomInt(min, max + 1));
+    }
+    case 'env':
+      return args[0] ? process.env[args[0]] ?? null : null;
+    case 'faker':
+      return args[0] ? findFakerEntry(args[0], locale)?.generate() ?? null : null;
+    case 'base64':
+      return Buffer.from(rawArgs).toString('base64');
+    default:
+      return null;
+  }
+}
+
+/** Whether a dynamic variable would resolve — faker entries are looked up, not generated. */
+export function isDynamicResolvable(name: string, rawArgs: string, locale: FakerLocale = DEFAULT_FAKER_LOCALE): boolean {
+  if (name === 'faker') return Boolean(findFakerEntry(rawArgs.trim().split(/\s+/)[0] ?? '', locale));
+  return resolveDynamicVariable(name, rawArgs, locale) !== null;
+}
+
+/** Replace {{variables}} and dynamic placeholders in one pass over the template, so
+ *  "{{$base64 {{user}}:{{pass}}}}" works. Substituted values are not scanned again — a value
+ *  holding "{{$env …}}" (e.g. captured from a response) is sent as text, never expanded.
+ *  Unknown names and bad arguments are left as-is. */
+export function interpolatePlaceholders(str: string, variables: Record<string, string>, locale?: FakerLocale): string {
+  if (!str.includes('{{')) return str;
+  return str.replace(PLACEHOLDER, (m, dynamic?: string, args?: string, name?: string) => {
+    if (name !== undefined) return variables[name] ?? m;
+    // Arguments referencing an unknown variable leave the whole placeholder as written
+    if ([...args!.matchAll(VARIABLE)].some(([, n]) => variables[n!] === undefined)) return m;
+    const resolvedArgs = args!.replace(VARIABLE, (_, n: string) => variables[n]!).trim();
+    return resolveDynamicVariable(dynamic!, resolvedArgs, locale) ?? m;
+  });
+}
+
+/** Placeholders in the template that would be sent as literal text — "token", "$nope". */
+export function unresolvedPlaceholders(str: string, variables: Record<string, string>, locale?: FakerLocale): string[] {
+  if (!str.includes('{{')) return [];
+  const left: string[] = [];
+  const rest = str.replace(PLACEHOLDER, (_, dynamic?: string, args?: string, name?: string) => {
+    if (name !== undefined) {
+      if (variables[name] === undefined) left.push(name);
+      return '';
+    }
+    const missing = [...args!.matchAll(VARIABLE)].map(([, n]) => n!).filter((n) => variables[n] === undefined);
+    const resolvedArgs = args!.replace(VARIABLE, (ref, n: string) => variables[n] ?? ref).trim();
+    if (missing.length > 0) left.push(...missing);
+    else if (!isDynamicResolvable(dynamic!, resolvedArgs, locale)) left.push(`$${dynamic} ${resolvedArgs}`.trim());
+    return '';
+  });
+  // Anything else in braces — "{{ not a name }}" — isn't a placeholder either
+  return [...left, ...[...rest.matchAll(/\{\{\s*([^{}]*?)\s*\}\}/g)].map(([, inner]) => inner!)];
+}
@@ -0,0 +1,192 @@
+import { rand, pick, suggestFakerForField, type FakerLocale } from './faker.js';
+import { matchFieldPattern, type FieldPattern } from './field-patterns.js';
+import { stringFromRegex } from './regex-gen.js';
+import { mergeAllOfSchema } from './schema-validator.js';
+import { schemaVariants } from './schema-variants.js';
+
+// ── Complete example instances generated from a schema ──
+
+type Schema = Record<string, unknown>;
+
+export interface ExampleOptions {
+  /** oneOf/anyOf branch per body key ('' for the root), as picked in the request form */
+  choices?: Record<string, number>;
+  /** Field pattern rules, as saved with [p] in the request form */
+  patterns?: FieldPattern[];
+  /** The operation being filled, for endpoint- and tag-scoped rules */
+  operation?: { id: string; tags: string[] };
+  /** Faker locale for names, phones, documents… */
+  locale?: FakerLocale;
+}
+
+// Self-referencing schemas stop nesting here even when the property is required
+const MAX_DEPTH = 8;
+
+const WORDS = [
+  'alpha', 'bravo', 'delta', 'echo', 'sample', 'demo', 'test', 'value',
+  'north', 'river', 'stone', 'green', 'quick', 'light', 'paper', 'cloud',
+] as const;
+
+interface Ctx {
+  opts: ExampleOptions;
+  ancestors: Set<object>;
+  depth: number;
+}
+
+/** The spec's own example: `example`, else the first of `examples`. */
+function specExample(schema: Schema): unknown {
+  if (schema['example'] !== undefined) return schema['example'];
+  const examples = schema['examples'];
+  if (Array.isArray(examples) && examples.length > 0) return examples[0];
+  return undefined;
+}
+
+function schemaType(s: Schema): string {
+  const t = s['type'];
+  const declared = Array.isArray(t) ? (t as string[]).find((x) => x !== 'null') : t as string | undefined;
+  if (declared) return declared;
+  if (s['properties'] || s['additionalProperties']) return 'object';
+  if (s['items']) return 'array';
+  return 'string';
+}
+
+function isPlainObject(v: unknown): v is Record<string, unknown> {
+  return Boolean(v) && typeof v === 'object' && !Array.isArray(v);
+}
+
+/** Inclusive bounds from minimum/maximum and both exclusive styles (3.0 boolean, 3.1 number). */
+function numberBounds(s: Schema, step: number): { lo: number; hi: number } {
+  let lo = s['minimum'] as number | undefined;
+  let hi = s['maximum'] as number | undefined;
+  if (lo !== undefined && s['exclusiveMinimum'] === true) lo += step;
+  if (hi !== undefined && s['exclusiveMaximum'] === true) hi -= step;
+  if (typeof s['exclusiveMinimum'] === 'number') lo = Math.max(lo ?? -Infinity, s['exclusiveMinimum'] + step);
+  if (typeof s['exclusiveMaximum'] === 'number') hi = Math.min(hi ?? Infinity, s['exclusiveMaximum'] - step);
+  lo ??= hi !== undefined ? Math.min(1, hi) : 1;
+  hi ??= lo + 999;
+  return { lo, hi: Math.max(lo, hi) };
+}
+
+function genNumber(s: Schema, integer: boolean): number {
+  const multipleOf = s['multipleOf'] as number | undefined;
+  const { lo, hi } = numberBounds(s, integer ? 1 : 0.01);
+  if (multipleOf) {
+    const k = rand(Math.ceil(lo / multipleOf), Math.max(Math.ceil(lo / multipleOf), Math.floor(hi / multipleOf)));
+    return Number((k * multipleOf).toFixed(10));
+  }
+  if (integer) return rand(Math.ceil(lo), Math.floor(hi));
+  const cents = rand(Math.ceil(lo * 100), Math.floor(hi * 100));
+  return cents / 100;
+}
+
+function fitLength(value: string, min: number | undefined, max: number | undefined): string {
+  let out = value;
+  while (min !== undefined && out.length < min) out += pick(WORDS).slice(0, min - out.length);
+  if (max !== undefined && out.length > max) out = out.slice(0, max);
+  return out;
+}
+
+function genString(s: Schema, name: string, key: string, ctx: Ctx): string | undefined {
+  const format = s['format'] as string | undefined;
+  if (format === 'binary') return undefined; // uploads need a real file path
+  const minLength = s['minLength'] as number | undefined;
+  const maxLength = s['maxLength'] as number | undefined;
+
+  if (typeof s['pattern'] === 'string') {
+    // Retry a few times to land inside the length bounds as well
+    for (let attempt = 0; attempt < 10; attempt++) {
+      let v: string;
+      try { v = stringFromRegex(s['pattern']); } catch { break; }
+      if ((minLength === undefined || v.length >= minLength) && (maxLength === undefined || v.length <= maxLength)) return v;
+    }
+  }
+  if (format === 'byte') return fitLength(Buffer.from(pick(WORDS)).toString('base64'), minLength, maxLength);
+  const op = ctx.opts.operation;
+  const rule = ctx.opts.patterns && matchFieldPattern(ctx.opts.patterns, { name, path: key, endpointId: op?.id ?? '', tags: op?.tags ?? [] });
+  const suggested = suggestFakerForField(name, 'string', format, undefined, rule?.fakerId, ctx.opts.locale);
+  if (suggested !== null && (format || (minLength === undefined && maxLength === undefined))) return suggested;
+  return fitLength(suggested ?? `${pick(WORDS)} ${pick(WORDS)}`, minLength, maxLength);
+}
+
+function gen(schema: Schema, name: string, key: string, ctx: Ctx): unknown {
+  const example = specExample(schema);
+  if (example !== undefined) return structuredClone(example);
+  if (ctx.depth > MAX_DEPTH) return undefined;
+
+  // oneOf / anyOf — the branch picked in the form, merged with the shared properties
+  const variants = schemaVariants(schema);
+  if (variants) {
+    const option = variants.options[Math.min(ctx.opts.choices?.[key] ?? 0, variants.options.length - 1)]!;
+    const { oneOf: _o, anyOf: _a, discriminator: _d, ...shared } = schema;
+    const branch = Object.keys(shared).length > 0 ? { allOf: [shared, option.schema] } : option.schema;
+    const value = gen(branch, name, key, ctx);
+    if (variants.discriminator && option.discriminatorValue !== undefined && isPlainObject(value)) {
+      value[variants.discriminator] = option.discriminatorValue;
+    }
+    return value;
+  }
+
+  const s = mergeAllOfSchema(schema);
+  const merged = specExample(s);
+  if (merged !== undefined) return structuredClone(merged);
+  // A oneOf with a single non-null branch is just that branch
+  for (const k of ['oneOf', 'anyOf'] as const) {
+    const branch = (s[k] as Schema[] | undefined)?.find((b) => b['type'] !== 'null');
+    if (branch) return gen(branch, name, key, ctx);
+  }
+  if (s['const'] !== undefined) return s['const'];
+  const enumValues = (s['enum'] as unknown[] | undefined)?.filter((v) => v !== null);
+  if (enumValues?.length) return pick(enumValues);
+  if (s['default'] !== undefined) return s['default'];
+
+  const child = { ...ctx, ancestors: new Set(ctx.ancestors).add(schema), depth: ctx.depth + 1 };
+  switch (schemaType(s)) {
+    case 'object': {
+      const out: Record<string, unknown> = {};
+      const required = (s['required'] as string[] | undefined) ?? [];
+      const properties = (s['properties'] as Record<string, Schema> | undefined) ?? {};
+      for (const [prop, ps] of Object.entries(properties)) {
+        if (ps['readOnly'] === true) continue;
+        // Optional self-references would recurse forever — only required ones are followed
+        if (ctx.ancestors.has(ps) && !required.includes(prop)) continue;
+        const v = gen(ps, prop, key ? `${key}.${prop}` : prop, child);
+        if (v !== undefined) out[prop] = v;
+      }
+      const additional = s['additionalProperties'];
+      if (Object.keys(properties).length === 0 && isPlainObject(additional)) {
+        const v = gen(additional, 'key', key ? `${key}.key` : 'key', child);
+        if (v !== undefined) out['key'] = v;
+      }
+      return out;
+    }
+    case 'array': {
+      const items = (s['items'] as Schema | undefined) ?? {};
+      const minItems = (s['minItems'] as number | undefined) ?? 0;
+      const maxItems = s['maxItems'] as number | undefined;
+      if (ctx.ancestors.has(items) && minItems === 0) return [];
+      const count = Math.min(Math.max(minItems, 1), maxItems ?? Infinity);
+      const out: unknown[] = [];
+      const seen = new Set<string>();
+      for (let i = 0, attempts = 0; out.length < count && attempts < count * 5; attempts++) {
+        const v = gen(items, name, `${key}.${i}`, child);
+        if (v === undefined) break;
+        if (s['uniqueItems'] === true && seen.has(JSON.stringify(v))) continue;
+        seen.add(JSON.stringify(v));
+        out.push(v);
+        i++;
+      }
+      return out;
+    }
+    case 'integer': return genNumber(s, true);
+    case 'number': return genNumber(s, false);
+    case 'boolean': return pick([true, false]);
+    case 'null': return null;
+    default: return genString(s, name, key, ctx);
+  }
+}
+
+/** A complete instance of `schema`: spec examples where present, otherwise generated values
+ *  that respect formats, enums and numeric/length/pattern/item constraints. */
+export function generateExample(schema: Schema, opts: ExampleOptions = {}): unknown {
+  return gen(schema, '', '', { opts, ancestors: new Set(), depth: 0 });
+}
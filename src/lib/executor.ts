@@ -1,36 +1,58 @@
 import axios, { type AxiosRequestConfig, type AxiosResponse } from 'axios';
 import { exec } from 'node:child_process';
 import { promisify } from 'node:util';
-import type { Endpoint } from '../types/openapi.js';
+import type { Endpoint, MediaTypeSpec, Parameter } from '../types/openapi.js';
 import type { Environment, TokenProvider } from '../types/config.js';
 import type { RequestResult } from '../types/openapi.js';
+import { applySecurity, mergeCookies, resolveSecurity } from './security.js';
+import { envBaseUrl, operationServerUrl } from './servers.js';
+import { getCachedToken, setCachedToken, clearTokenCache } from './token-cache.js';
+import { getOAuthToken } from './oauth.js';
+import { toXml, isXmlContentType } from './xml-body.js';
+import { formKind, toFormParts, buildFormBody, formCurlFlags, type FormKind, type FormPart } from './form-body.js';
+import { serializeHeaderParam, serializeQuery, serializePathParam } from './param-style.js';
+import { interpolatePlaceholders, unresolvedPlaceholders } from './dynamic-vars.js';
+import { variableValues } from './variables.js';
+import { isSealed, lockedSecrets } from './secrets.js';
+import type { FakerLocale } from './faker.js';
 
 const execAsync = promisify(exec);
 
 export interface RequestValues {
   pathParams: Record<string, string>;
   queryParams: Record<string, string>;
+  /** Spec-declared header params — absent on entries stored before they were supported */
+  headerParams?: Record<string, string>;
+  /** Spec-declared cookie params, sent combined into one Cookie header */
+  cookieParams?: Record<string, string>;
   headers: Record<string, string>;
   body: string;
+  /** Chosen request media type — defaults to the operation's first declared one */
+  contentType?: string;
+  /** Request-local {{variables}} — override the global, spec and env scopes */
+  variables?: Record<string, string>;
 }
 
-// ── In-memory token cache (cleared on env change or manual clear) ──
-const tokenCache = new Map<string, string>();
-
-export function clearTokenCache(envName: string): void {
-  tokenCache.delete(envName);
-}
+// ── Helpers ──
 
-export function hasTokenCached(envName: string): boolean {
-  return tokenCache.has(envName);
+/** The request media type to use — the requested one when declared, otherwise the default. */
+export function selectRequestMedia(endpoint: Endpoint, contentType?: string): MediaTypeSpec | undefined {
+  const rb = endpoint.requestBody;
+  if (!rb) return undefined;
+  return rb.content.find((m) => m.contentType === contentType) ?? rb.content[0];
 }
 
-// ── Helpers ──
-
-function buildUrl(baseUrl: string, path: string, pathParams: Record<string, string>): string {
+/** Substitute path params into the template, serialized per each param's declared style. */
+export function buildUrl(
+  baseUrl: string,
+  path: string,
+  pathParams: Record<string, string>,
+  params: Parameter[] = []
+): string {
   let resolvedPath = path;
   for (const [key, value] of Object.entries(pathParams)) {
-    if (value.trim()) resolvedPath = resolvedPath.replace(`{${key}}`, encodeURIComponent(value));
+    const param = params.find((p) => p.in === 'path' && p.name === key);
+    if (value.trim()) resolvedPath = resolvedPath.replace(`{${key}}`, serializePathParam(param, key, value));
   }
   return baseUrl.replace(/\/$/, '') + resolvedPath;
 }
@@ -54,10 +76,15 @@ export function extractByPath(obj: unknown, path: string): string | null {
   return typeof cur === 'string' ? cur : JSON.stringify(cur);
 }
 
-/** Replace {{varName}} placeholders with values from the variables map.
- *  Unresolved placeholders are left as-is. */
-export function interpolateVariables(str: string, variables: Record<string, string>): string {
-  return str.replace(/\{\{(\w+)\}\}/g, (_, name: string) => variables[name] ?? `{{${name}}}`);
+/** Replace {{varName}} placeholders with values from the variables map, and dynamic
+ *  {{$name args}} ones — so "{{$base64 {{user}}:{{pass}}}}" works. Unresolved placeholders are left as-is. */
+export function interpolateVariables(str: string, variables: Record<string, string>, locale?: FakerLocale): string {
+  return interpolatePlaceholders(str, variables, locale);
+}
+
+/** Placeholders that would be sent as literal text — "token", "$nope" — once `str` is interpolated. */
+export function unresolvedVariables(str: string, variables: Record<string, string>, locale?: FakerLocale): string[] {
+  return unresolvedPlaceholders(str, variables, locale);
 }
 
 /** Run the pre-request shell hook and return any headers it emits. */
@@ -93,6 +120,9 @@ export async function testTokenProvider(
   baseUrl: string,
   envName: string
 ): Promise<TokenTestResult> {
+  if (isSealed(provider.body)) {
+    return { token: null, status: 0, responseBody: null, networkError: 'Token provider body is a locked secret — unlock it with the master passphrase' };
+  }
   try {
     const url = buildUrl(baseUrl, provider.path, {});
     let body: unknown = undefined;
@@ -110,7 +140,7 @@ export async function testTokenProvider(
     });
 
     const token = extractByPath(resp.data, provider.tokenPath);
-    if (token) tokenCache.set(envName, token);
+    if (token) setCachedToken(envName, { accessToken: token });
 
     return { token, status: resp.status, responseBody: resp.data };
   } catch (err) {
@@ -133,11 +163,38 @@ export async function fetchToken(
   return result.token;
 }
 
-/** Resolve the bearer token — from cache or by fetching fresh. */
-async function resolveToken(provider: TokenProvider, env: Environment): Promise<string | null> {
-  const cached = tokenCache.get(env.name);
-  if (cached) return cached;
-  return fetchToken(provider, env.baseUrl, env.name);
+/** Resolve the auth header from the env's OAuth2 client or token provider — from cache or fetched fresh.
+ *  `force` bypasses the cached access token (retry after a 401). */
+async function resolveAuthHeader(
+  env: Environment,
+  force = false
+): Promise<{ name: string; value: string } | null> {
+  const vars = variableValues(env);
+  if (env.oauth2) {
+    const token = await getOAuthToken(env.oauth2, env.name, (s) => interpolateVariables(s, vars), force);
+    return token ? { name: 'Authorization', value: `Bearer ${token}` } : null;
+  }
+  if (env.tokenProvider) {
+    if (force) clearTokenCache(env.name);
+    const cached = getCachedToken(env.name);
+    const token = cached?.accessToken ?? await fetchToken(env.tokenProvider, envBaseUrl(env, (s) => interpolateVariables(s, vars)), env.name);
+    if (!token) return null;
+    return {
+      name: env.tokenProvider.headerName || 'Authorization',
+      value: `${env.tokenProvider.prefix ?? 'Bearer '}${token}`,
+    };
+  }
+  return null;
+}
+
+/** Drop entries with blank values — optional params left empty aren't sent. */
+function nonEmpty(m: Record<string, string> | undefined): Record<string, string> {
+  return Object.fromEntries(Object.entries(m ?? {}).filter(([, v]) => v.trim() !== ''));
+}
+
+/** Server variable values pinned on the env, {{vars}} resolved — reused for operation-level servers. */
+function serverValues(env: Environment | null, interp: (s: string) => string): Record<string, string> {
+  return Object.fromEntries(Object.entries(env?.server?.variables ?? {}).map(([k, v]) => [k, interp(v)]));
 }
 
 // ── Main entry ──
@@ -148,26 +205,49 @@ export async function executeRequest(
   env: Environment | null,
   fallbackBaseUrl = ''
 ): Promise<RequestResult> {
-  const baseUrl = env?.baseUrl ?? fallbackBaseUrl;
-
-  // Interpolate {{varName}} from env.variables before building the request
-  const vars = env?.variables && Object.keys(env.variables).length > 0 ? env.variables : null;
-  if (vars) {
-    values = {
-      pathParams: Object.fromEntries(
-        Object.entries(values.pathParams).map(([k, v]) => [k, interpolateVariables(v, vars)])
-      ),
-      queryParams: Object.fromEntries(
-        Object.entries(values.queryParams).map(([k, v]) => [k, interpolateVariables(v, vars)])
-      ),
-      headers: Object.fromEntries(
-        Object.entries(values.headers).map(([k, v]) => [k, interpolateVariables(v, vars)])
-      ),
-      body: values.body ? interpolateVariables(values.body, vars) : values.body,
-    };
+  // Interpolate {{varName}} from every variable scope and {{$dynamic}} values before building the request
+  const vars = variableValues(env, values.variables);
+  // The env's pinned server / baseUrl wins; an env without either falls back to the picked spec server
+  const interp = (s: string) => interpolateVariables(s, vars, env?.fakerLocale);
+  const defaultBaseUrl = (env && envBaseUrl(env, interp)) || interp(fallbackBaseUrl);
+  // Operations hosted elsewhere (e.g. uploads) declare their own servers — those win over the env
+  const baseUrl = operationServerUrl(endpoint, defaultBaseUrl, serverValues(env, interp)) ?? defaultBaseUrl;
+  const interpAll = (m: Record<string, string>) => Object.fromEntries(Object.entries(m).map(([k, v]) => [k, interp(v)]));
+  const typed = values;
+  values = {
+    pathParams: interpAll(values.pathParams),
+    queryParams: interpAll(values.queryParams),
+    headerParams: values.headerParams && interpAll(values.headerParams),
+    cookieParams: values.cookieParams && interpAll(values.cookieParams),
+    headers: interpAll(values.headers),
+    body: values.body ? interp(values.body) : values.body,
+    contentType: values.contentType,
+    ...(values.variables ? { variables: values.variables } : {}),
+  };
+
+  // Environments that block unresolved variables never send {{placeholders}} as literal text.
+  // Checked on what was typed — substituted values may hold braces of their own
+  if (env?.blockUnresolved) {
+    const texts = [...(env.server ? Object.values(env.server.variables) : [env.baseUrl || fallbackBaseUrl]),
+      ...Object.values(typed.pathParams), ...Object.values(typed.queryParams), ...Object.values(typed.headerParams ?? {}),
+      ...Object.values(typed.cookieParams ?? {}), ...Object.values(typed.headers), typed.body ?? ''];
+    const left = [...new Set(texts.flatMap((t) => unresolvedVariables(t, vars, env.fakerLocale)))];
+    if (left.length > 0) {
+      const error = `Not sent — unresolved ${left.map((n) => `{{${n}}}`).join(', ')} (${env.name} blocks unresolved variables)`;
+      return { status: 0, statusText: 'Request Error', headers: {}, body: null, durationMs: 0, error, sentValues: values };
+    }
+  }
+
+  // Locked secrets would go out as ciphertext
+  const resolution = resolveSecurity(endpoint, env);
+  const schemes = resolution.requirement?.schemes.map(({ scheme }) => scheme.name);
+  const locked = env ? lockedSecrets(env, schemes) : [];
+  if (locked.length > 0) {
+    const error = `Not sent — ${env!.name} secrets are locked (${locked.join(', ')}); unlock them with the master passphrase`;
+    return { status: 0, statusText: 'Request Error', headers: {}, body: null, durationMs: 0, error, sentValues: values };
   }
 
-  const url = buildUrl(baseUrl, endpoint.path, values.pathParams);
+  const url = buildUrl(baseUrl, endpoint.path, values.pathParams, endpoint.parameters);
 
   // Layer 1: static env headers (lowest priority)
   const headers: Record<string, string> = { ...(env?.headers ?? {}) };
@@ -178,52 +258,101 @@ export async function executeRequest(
     Object.assign(headers, hookHeaders);
   }
 
-  // Layer 3: per-request headers typed in the form
-  Object.assign(headers, values.headers);
+  // Layer 3: spec security schemes — credentials stored on the env, only for operations that require them
+  const security = applySecurity(endpoint, env, interp);
+  // A requirement naming a scheme the spec never defines can't be met — sent anyway, but said so
+  const securityError = resolution.unresolved.length > 0
+    ? `security scheme${resolution.unresolved.length === 1 ? '' : 's'} ${resolution.unresolved.join(', ')} not defined in the spec — sent without credentials`
+    : undefined;
+  Object.assign(headers, security.headers);
+  if (Object.keys(security.cookies).length > 0) {
+    headers['Cookie'] = mergeCookies(headers['Cookie'] ?? headers['cookie'], security.cookies);
+    delete headers['cookie'];
+  }
 
-  // Layer 4: token provider — ALWAYS wins, applied last so nothing overrides it
-  if (env?.tokenProvider) {
-    const token = await resolveToken(env.tokenProvider, env);
-    if (token) {
-      const headerName = env.tokenProvider.headerName || 'Authorization';
-      const prefix = env.tokenProvider.prefix ?? 'Bearer ';
-      headers[headerName] = `${prefix}${token}`;
-    }
+  // Layer 4: spec-declared header and cookie params — empty ones are not sent
+  const paramTexts = (loc: 'header' | 'cookie', m: Record<string, string> | undefined) => nonEmpty(Object.fromEntries(
+    Object.entries(m ?? {}).map(([name, raw]) => [name, serializeHeaderParam(endpoint.parameters.find((p) => p.in === loc && p.name === name), raw)])
+  ));
+  Object.assign(headers, paramTexts('header', values.headerParams));
+  const cookieParams = paramTexts('cookie', values.cookieParams);
+  if (Object.keys(cookieParams).length > 0) {
+    headers['Cookie'] = mergeCookies(headers['Cookie'] ?? headers['cookie'], cookieParams);
+    delete headers['cookie'];
   }
 
+  // Layer 5: per-request headers typed in the form
+  Object.assign(headers, values.headers);
+
+  // Layer 6: OAuth2 client / token provider — ALWAYS wins, applied last so nothing overrides it
+  const authHeader = env ? await resolveAuthHeader(env) : null;
+  if (authHeader) headers[authHeader.name] = authHeader.value;
+
+  const media = selectRequestMedia(endpoint, values.contentType);
   let data: unknown = undefined;
   if (values.body?.trim()) {
     try {
       data = JSON.parse(values.body);
-      if (!headers['Content-Type'] && !headers['content-type']) {
-        headers['Content-Type'] = endpoint.requestBody?.contentType ?? 'application/json';
-      }
     } catch {
       data = values.body;
     }
+    if (!headers['Content-Type'] && !headers['content-type']) {
+      headers['Content-Type'] = media?.contentType ?? 'application/json';
+    }
+    // Form fields are edited as JSON — convert for XML media types
+    if (typeof data === 'object' && data !== null && isXmlContentType(media?.contentType)) {
+      data = toXml(data, media?.schema);
+    }
+  }
+
+  // Form content types — the form's JSON object becomes multipart parts or urlencoded pairs
+  const kind = formKind(media?.contentType);
+  let form: { kind: FormKind; parts: FormPart[] } | undefined;
+  if (kind && media && data && typeof data === 'object' && !Array.isArray(data)) {
+    const parts = toFormParts(data as Record<string, unknown>, media);
+    try {
+      const payload = await buildFormBody(parts, kind);
+      for (const k of Object.keys(headers)) {
+        if (k.toLowerCase() === 'content-type') delete headers[k];
+      }
+      headers['Content-Type'] = payload.contentType;
+      data = payload.data;
+      form = { kind, parts };
+    } catch (err) {
+      const message = err instanceof Error ? err.message : String(err);
+      return { status: 0, statusText: 'Request Error', headers: {}, body: null, durationMs: 0, error: message, sentValues: values };
+    }
   }
 
-  // Drop empty query params — don't send keys with no value
-  const filledQuery = Object.fromEntries(
-    Object.entries(values.queryParams).filter(([, v]) => v.trim() !== '')
-  );
-  const queryParams = Object.keys(filledQuery).length > 0 ? filledQuery : undefined;
+  // Drop empty query params — don't send keys with no value. The query string is built here
+  // (not by axios) so array/object params follow their declared style and explode rules
+  const query = serializeQuery(endpoint.parameters, { ...security.queryParams, ...nonEmpty(values.queryParams) });
+  const fullUrl = query ? `${url}?${query}` : url;
 
   const config: AxiosRequestConfig = {
     method: endpoint.method,
-    url,
+    url: fullUrl,
     headers,
-    params: queryParams,
     data,
     timeout: 30000,
     validateStatus: () => true,
   };
 
-  const curlCommand = buildCurl(endpoint.method, url, headers, queryParams, data);
+  let curlCommand = buildCurl(endpoint.method, fullUrl, headers, data, form);
 
   const start = Date.now();
   try {
-    const response: AxiosResponse = await axios(config);
+    let response: AxiosResponse = await axios(config);
+
+    // Token rejected — refresh once and retry with the new one
+    if (response.status === 401 && authHeader && env) {
+      const fresh = await resolveAuthHeader(env, true);
+      if (fresh && fresh.value !== authHeader.value) {
+        headers[fresh.name] = fresh.value;
+        curlCommand = buildCurl(endpoint.method, fullUrl, headers, data, form);
+        response = await axios({ ...config, headers });
+      }
+    }
     const durationMs = Date.now() - start;
 
     const responseHeaders: Record<string, string> = {};
@@ -231,11 +360,11 @@ export async function executeRequest(
       responseHeaders[k] = String(v);
     }
 
-    return { status: response.status, statusText: response.statusText, headers: responseHeaders, body: response.data, durationMs, curlCommand };
+    return { status: response.status, statusText: response.statusText, headers: responseHeaders, body: response.data, durationMs, curlCommand, sentValues: values, securityError };
   } catch (err: unknown) {
     const durationMs = Date.now() - start;
     const message = err instanceof Error ? err.message : String(err);
-    return { status: 0, statusText: 'Network Error', headers: {}, body: null, durationMs, error: message, curlCommand };
+    return { status: 0, statusText: 'Network Error', headers: {}, body: null, durationMs, error: message, curlCommand, sentValues: values, securityError };
   }
 }
 
@@ -243,29 +372,28 @@ function buildCurl(
   method: string,
   url: string,
   headers: Record<string, string>,
-  queryParams: Record<string, string> | undefined,
-  data: unknown
+  data: unknown,
+  form?: { kind: FormKind; parts: FormPart[] }
 ): string {
   const parts: string[] = [`curl -X ${method.toUpperCase()}`];
 
   for (const [k, v] of Object.entries(headers)) {
+    // curl generates its own Content-Type (and multipart boundary) for -F / --data-urlencode
+    if (form && k.toLowerCase() === 'content-type') continue;
     // Escape single quotes inside header values
     const safe = v.replace(/'/g, `'\\''`);
     parts.push(`  -H '${k}: ${safe}'`);
   }
 
-  if (data !== undefined && data !== null) {
+  if (form) {
+    for (const flag of formCurlFlags(form.parts, form.kind)) parts.push(`  ${flag}`);
+  } else if (data !== undefined && data !== null) {
     const body = typeof data === 'string' ? data : JSON.stringify(data);
     const safe = body.replace(/'/g, `'\\''`);
     parts.push(`  -d '${safe}'`);
   }
 
-  let finalUrl = url;
-  if (queryParams && Object.keys(queryParams).length > 0) {
-    const qs = new URLSearchParams(queryParams).toString();
-    finalUrl += '?' + qs;
-  }
-  parts.push(`  '${finalUrl}'`);
+  parts.push(`  '${url.replace(/'/g, `'\\''`)}'`);
 
   return parts.join(' \\\n');
 }
@@ -0,0 +1,30 @@
+import { spawnSync } from 'node:child_process';
+import { mkdtempSync, readFileSync, rmSync, writeFileSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import path from 'node:path';
+
+/** The user's editor command — $VISUAL, then $EDITOR, then vi. */
+export function editorCommand(): string {
+  return process.env['VISUAL']?.trim() || process.env['EDITOR']?.trim() || 'vi';
+}
+
+/** Edit text in the external editor, blocking until it exits. The TUI is suspended
+ *  meanwhile: raw mode is released so the editor owns the terminal. */
+export function editInEditor(text: string, ext = '.txt'): { text: string } | { error: string } {
+  const dir = mkdtempSync(path.join(tmpdir(), 'openapicmd-'));
+  const file = path.join(dir, `body${ext}`);
+  const stdin = process.stdin;
+  const wasRaw = stdin.isTTY && stdin.isRaw;
+  try {
+    writeFileSync(file, text, 'utf8');
+    if (wasRaw) stdin.setRawMode(false);
+    // Run through the shell so commands like "code --wait" work
+    const res = spawnSync(`${editorCommand()} "${file}"`, { stdio: 'inherit', shell: true });
+    if (res.error) return { error: `Cannot start editor: ${res.error.message}` };
+    if (res.status !== 0) return { error: `${editorCommand()} exited with code ${res.status ?? res.signal}` };
+    return { text: readFileSync(file, 'utf8') };
+  } finally {
+    if (wasRaw) stdin.setRawMode(true);
+    rmSync(dir, { recursive: true, force: true });
+  }
+}
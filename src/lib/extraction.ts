@@ -0,0 +1,180 @@
+import Conf from 'conf';
+import type { RequestResult } from '../types/openapi.js';
+import type { Environment } from '../types/config.js';
+import { saveEnvironment } from './config-store.js';
+import { secretsUnlocked } from './secrets.js';
+import { activeSpec } from './variables.js';
+
+// ── Post-response extraction (request chaining) ──
+// Rules copy values out of successful responses into the active environment's variables
+
+export type ExtractionSource = 'body' | 'header' | 'regex';
+
+export interface ExtractionRule {
+  /** Environment variable to set */
+  variable: string;
+  source: ExtractionSource;
+  /** body: "$.data.id" / "items[0].id"; header: header name; regex: run on the body text — group 1 when present */
+  expr: string;
+}
+
+export interface Capture {
+  endpointId: string;
+  rule: ExtractionRule;
+  value?: string;
+  /** Why nothing was captured — or stored */
+  error?: string;
+  /** Captured into a secret variable — shown masked */
+  secret?: boolean;
+  at: number;
+}
+
+// Rules are keyed by the loaded spec's source, then endpoint id — `get:/users` in another spec is another operation.
+// `rules` holds what was saved before rules were kept per spec.
+const store = new Conf<{ specs: Record<string, Record<string, ExtractionRule[]>>; rules: Record<string, ExtractionRule[]> }>({
+  projectName: 'openapicmd-tui',
+  configName: 'extraction-rules',
+  defaults: { specs: {}, rules: {} },
+});
+
+const SOURCES: ExtractionSource[] = ['body', 'header', 'regex'];
+const LOG_SIZE = 50;
+// Everything captured this session, newest first
+const log: Capture[] = [];
+
+/** The active spec's rules by endpoint. Rules saved before they were kept per spec go to the first spec that reads them. */
+function specRules(source: string): Record<string, ExtractionRule[]> {
+  const legacy = store.get('rules');
+  if (Object.keys(legacy).length > 0) {
+    store.set({ specs: { ...store.get('specs'), [source]: { ...legacy, ...store.get('specs')[source] } }, rules: {} });
+  }
+  return store.get('specs')[source] ?? {};
+}
+
+export function getExtractionRules(endpointId: string): ExtractionRule[] {
+  const source = activeSpec();
+  return source ? specRules(source)[endpointId] ?? [] : [];
+}
+
+export function setExtractionRules(endpointId: string, rules: ExtractionRule[]): void {
+  const source = activeSpec();
+  if (!source) throw new Error('No spec loaded');
+  const next = { ...specRules(source) };
+  if (rules.length > 0) next[endpointId] = rules;
+  else delete next[endpointId];
+  const specs = { ...store.get('specs') };
+  if (Object.keys(next).length > 0) specs[source] = next;
+  else delete specs[source];
+  store.set('specs', specs);
+}
+
+/** Add a rule, replacing the endpoint's existing rule for the same variable. */
+export function addExtractionRule(endpointId: string, rule: ExtractionRule): void {
+  setExtractionRules(endpointId, [...getExtractionRules(endpointId).filter((r) => r.variable !== rule.variable), rule]);
+}
+
+export function captureLog(): Capture[] {
+  return log;
+}
+
+/** "$.data.items[0].id" → ["data", "items", "0", "id"]; null when the path doesn't parse. */
+function pathSegments(expr: string): string[] | null {
+  let rest = expr.trim().replace(/^\$/, '');
+  const segments: string[] = [];
+  while (rest) {
+    const m = /^(?:\.?([A-Za-z_$][\w$-]*)|\[(-?\d+)\]|\["([^"]*)"\]|\['([^']*)'\]|\.(\d+))/.exec(rest);
+    if (!m) return null;
+    segments.push((m[1] ?? m[2] ?? m[3] ?? m[4] ?? m[5])!);
+    rest = rest.slice(m[0].length);
+  }
+  return segments;
+}
+
+/** The value at a JSONPath-style path — negative indices count from the end of an array. */
+export function valueAtJsonPath(body: unknown, expr: string): unknown {
+  const segments = pathSegments(expr);
+  if (!segments) return undefined;
+  let cur = body;
+  for (const seg of segments) {
+    if (Array.isArray(cur) && /^-?\d+$/.test(seg)) cur = cur.at(Number(seg));
+    else if (cur !== null && typeof cur === 'object') cur = (cur as Record<string, unknown>)[seg];
+    else return undefined;
+  }
+  return cur;
+}
+
+function extractOne(rule: ExtractionRule, result: RequestResult): { value?: string; error?: string } {
+  switch (rule.source) {
+    case 'body': {
+      const v = valueAtJsonPath(result.body, rule.expr);
+      if (v === undefined || v === null) return { error: `${rule.expr} not in response body` };
+      return { value: typeof v === 'string' ? v : JSON.stringify(v) };
+    }
+    case 'header': {
+      const name = rule.expr.toLowerCase();
+      const entry = Object.entries(result.headers).find(([k]) => k.toLowerCase() === name);
+      return entry ? { value: entry[1] } : { error: `no ${rule.expr} header` };
+    }
+    case 'regex': {
+      const text = typeof result.body === 'string' ? result.body : JSON.stringify(result.body ?? '');
+      let m: RegExpExecArray | null;
+      try { m = new RegExp(rule.expr).exec(text); } catch { return { error: `invalid regex /${rule.expr}/` }; }
+      return m ? { value: m[1] ?? m[0] } : { error: `/${rule.expr}/ did not match` };
+    }
+  }
+}
+
+/** Run the rules against a response. Only successful (2xx) responses are captured from. */
+export function runExtraction(endpointId: string, rules: ExtractionRule[], result: RequestResult): Capture[] {
+  if (result.error || result.status < 200 || result.status >= 300) return [];
+  const at = Date.now();
+  const captures = rules.map((rule): Capture => ({ endpointId, rule, at, ...extractOne(rule, result) }));
+  log.unshift(...captures);
+  log.splice(LOG_SIZE);
+  return captures;
+}
+
+/** Mark a capture as not stored — it stays in the log with the reason. */
+function notStored(c: Capture, reason: string): void {
+  c.value = undefined;
+  c.error = `not stored — ${reason}`;
+}
+
+/** Store captured values in the environment's variables. Returns the new variables, or null when nothing changed.
+ *  Values that can't be stored (secrets while locked, a failed save) are reported on their captures instead. */
+export function applyCaptures(env: Environment, captures: Capture[]): Record<string, string> | null {
+  const secrets = env.secrets ?? [];
+  for (const c of captures) {
+    if (!secrets.includes(c.rule.variable)) continue;
+    c.secret = true;
+    if (c.value !== undefined && !secretsUnlocked()) notStored(c, 'secrets are locked');
+  }
+  const captured = captures.filter((c) => c.value !== undefined);
+  if (captured.length === 0) return null;
+  const variables = { ...env.variables, ...Object.fromEntries(captured.map((c) => [c.rule.variable, c.value!])) };
+  try {
+    saveEnvironment({ ...env, variables });
+  } catch (err) {
+    for (const c of captured) notStored(c, err instanceof Error ? err.message : String(err));
+    return null;
+  }
+  return variables;
+}
+
+/** Problems with edited rules — empty when the list can be saved. */
+export function checkExtractionRules(list: unknown): string[] {
+  if (!Array.isArray(list)) return ['expected a JSON array of rules'];
+  const problems: string[] = [];
+  list.forEach((raw, i) => {
+    const r = raw as Record<string, unknown>;
+    const where = typeof r?.['variable'] === 'string' && r['variable'] ? `"${r['variable']}"` : `#${i + 1}`;
+    if (typeof r?.['variable'] !== 'string' || !/^\w+$/.test(r['variable'])) problems.push(`${where}: variable must be a {{name}}`);
+    if (!SOURCES.includes(r?.['source'] as ExtractionSource)) problems.push(`${where}: source must be one of ${SOURCES.join(', ')}`);
+    if (typeof r?.['expr'] !== 'string' || !r['expr']) { problems.push(`${where}: expr is required`); return; }
+    if (r['source'] === 'body' && !pathSegments(r['expr'])) problems.push(`${where}: cannot parse path ${r['expr']}`);
+    if (r['source'] === 'regex') {
+      try { new RegExp(r['expr']); } catch { problems.push(`${where}: invalid regex`); }
+    }
+  });
+  return problems;
+}
@@ -1,13 +1,62 @@
 // Pure TypeScript fake data generators — no external dependencies
 
+// ── Seeded randomness ────────────────────────────────────────────────────────
+// Every generator draws from one mulberry32 stream, so a seed reproduces the same fake data
+
+/** A fresh random 32-bit seed. */
+export function newSeed(): number {
+  return Math.floor(Math.random() * 0x100000000) >>> 0;
+}
+
+let prngState = newSeed();
+let sessionSeed = newSeed();
+
+/** Next value of the shared stream, in [0, 1). */
+export function random(): number {
+  prngState = (prngState + 0x6d2b79f5) >>> 0;
+  let t = prngState;
+  t = Math.imul(t ^ (t >>> 15), t | 1);
+  t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+  return ((t ^ (t >>> 14)) >>> 0) / 0x100000000;
+}
+
+/** Default seed for requests that haven't rolled their own — random per run unless set with --seed. */
+export function getSessionSeed(): number {
+  return sessionSeed;
+}
+
+/** Set the session seed and restart the shared stream at it, so unscoped draws ({{$faker}} when sending) repeat too. */
+export function setSessionSeed(seed: number): void {
+  sessionSeed = seed >>> 0;
+  prngState = sessionSeed;
+}
+
+/** Mix a label into a seed (FNV-1a), so each field of a request gets its own reproducible stream. */
+export function deriveSeed(seed: number, label: string): number {
+  let h = (0x811c9dc5 ^ seed) >>> 0;
+  for (let i = 0; i < label.length; i++) h = Math.imul(h ^ label.charCodeAt(i), 0x01000193) >>> 0;
+  return h;
+}
+
+/** Run `fn` with the stream restarted at `seed` — its output depends only on the seed. */
+export function withSeed<T>(seed: number, fn: () => T): T {
+  const saved = prngState;
+  prngState = seed >>> 0;
+  try {
+    return fn();
+  } finally {
+    prngState = saved;
+  }
+}
+
 // ── Helpers ──────────────────────────────────────────────────────────────────
 
-function rand(min: number, max: number): number {
-  return Math.floor(Math.random() * (max - min + 1)) + min;
+export function rand(min: number, max: number): number {
+  return Math.floor(random() * (max - min + 1)) + min;
 }
 
-function pick<T>(arr: readonly T[]): T {
-  return arr[Math.floor(Math.random() * arr.length)]!;
+export function pick<T>(arr: readonly T[]): T {
+  return arr[Math.floor(random() * arr.length)]!;
 }
 
 function pad(n: number, len = 2): string {
@@ -68,74 +117,10 @@ function genCnpjRaw(): string {
   return cnpjDigits().join('');
 }
 
-// ── Names ────────────────────────────────────────────────────────────────────
-
-const FIRST_NAMES = [
-  'Ana', 'Maria', 'Juliana', 'Fernanda', 'Camila', 'Beatriz', 'Amanda', 'Larissa',
-  'Letícia', 'Gabriela', 'Mariana', 'Patrícia', 'Renata', 'Vanessa', 'Bruna',
-  'Carlos', 'João', 'Pedro', 'Lucas', 'Marcos', 'Rafael', 'Felipe', 'Bruno',
-  'Rodrigo', 'Eduardo', 'Thiago', 'Gustavo', 'André', 'Matheus', 'Leonardo',
-] as const;
-
-const LAST_NAMES = [
-  'Silva', 'Santos', 'Oliveira', 'Souza', 'Lima', 'Pereira', 'Costa', 'Ferreira',
-  'Rodrigues', 'Almeida', 'Nascimento', 'Carvalho', 'Fernandes', 'Gomes', 'Martins',
-  'Araújo', 'Ribeiro', 'Melo', 'Barbosa', 'Rocha', 'Cardoso', 'Correia', 'Dias',
-  'Nunes', 'Pinto', 'Moraes', 'Castro', 'Monteiro', 'Teixeira', 'Vieira',
-] as const;
-
-const EMAIL_DOMAINS = ['gmail.com', 'hotmail.com', 'yahoo.com.br', 'outlook.com', 'uol.com.br'] as const;
-
-function genNome(): string {
-  return `${pick(FIRST_NAMES)} ${pick(LAST_NAMES)}`;
-}
-
-function genPrimeiroNome(): string {
-  return pick(FIRST_NAMES);
-}
-
-function genSobrenome(): string {
-  return pick(LAST_NAMES);
-}
-
-function genEmail(): string {
-  const first = pick(FIRST_NAMES).toLowerCase().normalize('NFD').replace(/[\u0300-\u036f]/g, '');
-  const last = pick(LAST_NAMES).toLowerCase().normalize('NFD').replace(/[\u0300-\u036f]/g, '');
-  const num = rand(1, 999);
-  const domain = pick(EMAIL_DOMAINS);
-  return `${first}.${last}${num}@${domain}`;
-}
-
-// ── Phone ────────────────────────────────────────────────────────────────────
-
-const DDD = ['11', '21', '31', '41', '51', '61', '71', '81', '85', '91'] as const;
-
-function genTelefone(): string {
-  const ddd = pick(DDD);
-  const n1 = pad(rand(2000, 9999), 4);
-  const n2 = pad(rand(1000, 9999), 4);
-  return `(${ddd}) ${n1}-${n2}`;
-}
-
-function genCelular(): string {
-  const ddd = pick(DDD);
-  const n1 = pad(rand(10000, 99999), 5);
-  const n2 = pad(rand(1000, 9999), 4);
-  return `(${ddd}) 9${n1}-${n2}`;
-}
-
-// ── Address ───────────────────────────────────────────────────────────────────
-
-function genCep(): string {
-  const p1 = pad(rand(1000, 99999), 5);
-  const p2 = pad(rand(0, 999), 3);
-  return `${p1}-${p2}`;
-}
-
 // ── General ───────────────────────────────────────────────────────────────────
 
 function genUuid(): string {
-  const hex = () => Math.floor(Math.random() * 16).toString(16);
+  const hex = () => rand(0, 15).toString(16);
   const s = (n: number) => Array.from({ length: n }, hex).join('');
   return `${s(8)}-${s(4)}-4${s(3)}-${['8', '9', 'a', 'b'][rand(0, 3)]}${s(3)}-${s(12)}`;
 }
@@ -157,15 +142,93 @@ function genDatetime(): string {
   return `${year}-${pad(month)}-${pad(day)}T${pad(hour)}:${pad(min)}:${pad(sec)}`;
 }
 
+function genUrl(): string {
+  return `https://${pick(['api', 'www', 'cdn'])}.example.com/${pick(['docs', 'files', 'users', 'items'])}/${rand(1, 9999)}`;
+}
+
+function genIpv4(): string {
+  return [rand(1, 223), rand(0, 255), rand(0, 255), rand(1, 254)].join('.');
+}
+
+function genIpv6(): string {
+  return Array.from({ length: 8 }, () => rand(0, 0xffff).toString(16)).join(':');
+}
+
+function genHostname(): string {
+  return `${pick(['api', 'app', 'srv', 'db'])}${rand(1, 99)}.example.com`;
+}
+
 function genInteiro(): string {
   return String(rand(1, 9999));
 }
 
 function genDecimal(): string {
-  return (rand(1, 9999) + Math.random()).toFixed(2);
+  return (rand(1, 9999) + random()).toFixed(2);
 }
 
-// ── Catalogue ────────────────────────────────────────────────────────────────
+// ── IBAN / VAT checksums ─────────────────────────────────────────────────────
+
+function digits(n: number): string {
+  return Array.from({ length: n }, () => rand(0, 9)).join('');
+}
+
+/** ISO 13616 check digits: move the country code to the end, letters → numbers, mod 97. */
+function iban(country: string, bban: string): string {
+  const numeric = (bban + country + '00').replace(/[A-Z]/g, (c) => String(c.charCodeAt(0) - 55));
+  let mod = 0;
+  for (const ch of numeric) mod = (mod * 10 + Number(ch)) % 97;
+  return `${country}${pad(98 - mod)}${bban}`;
+}
+
+/** ISO 7064 MOD 11,10 — the check digit of German VAT numbers. */
+function mod11_10(body: string): number {
+  let product = 10;
+  for (const ch of body) {
+    let sum = (Number(ch) + product) % 10;
+    if (sum === 0) sum = 10;
+    product = (2 * sum) % 11;
+  }
+  const check = 11 - product;
+  return check === 10 ? 0 : check;
+}
+
+// ── United States ────────────────────────────────────────────────────────────
+
+/** Valid SSN shape: area not 000/666/9xx, group not 00, serial not 0000. */
+function genSsn(): string {
+  let area = rand(1, 899);
+  if (area === 666) area = 665;
+  return `${pad(area, 3)}-${pad(rand(1, 99))}-${pad(rand(1, 9999), 4)}`;
+}
+
+function genEin(): string {
+  return `${pad(rand(10, 99))}-${digits(7)}`;
+}
+
+/** NANP number: area and exchange codes start 2-9 and avoid N11. */
+function genUsPhone(): string {
+  const code = () => {
+    const n = rand(200, 999);
+    return n % 100 === 11 ? n + 1 : n;
+  };
+  return `(${code()}) ${code()}-${pad(rand(0, 9999), 4)}`;
+}
+
+// ── Germany ──────────────────────────────────────────────────────────────────
+
+function genDeVat(): string {
+  const body = String(rand(1, 9)) + digits(7);
+  return `DE${body}${mod11_10(body)}`;
+}
+
+// ── Locale packs ─────────────────────────────────────────────────────────────
+
+export type FakerLocale = 'pt-BR' | 'en-US' | 'de-DE';
+
+export const FAKER_LOCALES: FakerLocale[] = ['pt-BR', 'en-US', 'de-DE'];
+
+/** Used when an environment doesn't pick a locale — the catalogue started out Brazilian. */
+export const DEFAULT_FAKER_LOCALE: FakerLocale = 'pt-BR';
 
 export interface FakerEntry {
   id: string;
@@ -174,28 +237,204 @@ export interface FakerEntry {
   generate: () => string;
 }
 
-export const FAKER_ENTRIES: FakerEntry[] = [
-  // Pessoa
-  { id: 'cpf',           category: 'Pessoa',   label: 'CPF formatado',      generate: genCpf },
-  { id: 'cpf_raw',       category: 'Pessoa',   label: 'CPF sem formatação', generate: genCpfRaw },
-  { id: 'nome',          category: 'Pessoa',   label: 'Nome completo',      generate: genNome },
-  { id: 'primeiro_nome', category: 'Pessoa',   label: 'Primeiro nome',      generate: genPrimeiroNome },
-  { id: 'sobrenome',     category: 'Pessoa',   label: 'Sobrenome',          generate: genSobrenome },
-  { id: 'email',         category: 'Pessoa',   label: 'E-mail',             generate: genEmail },
-  { id: 'telefone',      category: 'Pessoa',   label: 'Telefone fixo',      generate: genTelefone },
-  { id: 'celular',       category: 'Pessoa',   label: 'Celular',            generate: genCelular },
-  // Empresa
-  { id: 'cnpj',          category: 'Empresa',  label: 'CNPJ formatado',     generate: genCnpj },
-  { id: 'cnpj_raw',      category: 'Empresa',  label: 'CNPJ sem formatação',generate: genCnpjRaw },
-  // Endereço
-  { id: 'cep',           category: 'Endereço', label: 'CEP',                generate: genCep },
-  // Geral
-  { id: 'uuid',          category: 'Geral',    label: 'UUID',               generate: genUuid },
-  { id: 'data',          category: 'Geral',    label: 'Data (YYYY-MM-DD)',  generate: genData },
-  { id: 'datetime',      category: 'Geral',    label: 'Data/hora ISO',      generate: genDatetime },
-  { id: 'inteiro',       category: 'Geral',    label: 'Número inteiro',     generate: genInteiro },
-  { id: 'decimal',       category: 'Geral',    label: 'Número decimal',     generate: genDecimal },
-];
+// Entries every locale has; the ids predate locales, so they keep their Portuguese names
+type SharedId = 'nome' | 'primeiro_nome' | 'sobrenome' | 'email' | 'telefone' | 'celular'
+  | 'endereco' | 'cidade' | 'cep' | 'uuid' | 'data' | 'datetime' | 'inteiro' | 'decimal';
+
+interface LocalePack {
+  firstNames: readonly string[];
+  lastNames: readonly string[];
+  emailDomains: readonly string[];
+  cities: readonly string[];
+  phone: () => string;
+  mobile: () => string;
+  postalCode: () => string;
+  address: () => string;
+  /** [category, label] for each shared entry */
+  labels: Record<SharedId, [string, string]>;
+  /** National IDs, bank and tax numbers */
+  documents: FakerEntry[];
+  /** Field-name patterns that pick one of this locale's documents, checked in order */
+  documentHints: Array<[RegExp, string]>;
+}
+
+const EN_LABELS: Record<SharedId, [string, string]> = {
+  nome:          ['Person',  'Full name'],
+  primeiro_nome: ['Person',  'First name'],
+  sobrenome:     ['Person',  'Last name'],
+  email:         ['Person',  'E-mail'],
+  telefone:      ['Person',  'Phone'],
+  celular:       ['Person',  'Mobile'],
+  endereco:      ['Address', 'Street address'],
+  cidade:        ['Address', 'City'],
+  cep:           ['Address', 'Postal code'],
+  uuid:          ['General', 'UUID'],
+  data:          ['General', 'Date (YYYY-MM-DD)'],
+  datetime:      ['General', 'ISO date/time'],
+  inteiro:       ['General', 'Integer'],
+  decimal:       ['General', 'Decimal'],
+};
+
+const DDD = ['11', '21', '31', '41', '51', '61', '71', '81', '85', '91'] as const;
+
+const PACKS: Record<FakerLocale, LocalePack> = {
+  'pt-BR': {
+    firstNames: [
+      'Ana', 'Maria', 'Juliana', 'Fernanda', 'Camila', 'Beatriz', 'Amanda', 'Larissa',
+      'Letícia', 'Gabriela', 'Mariana', 'Patrícia', 'Renata', 'Vanessa', 'Bruna',
+      'Carlos', 'João', 'Pedro', 'Lucas', 'Marcos', 'Rafael', 'Felipe', 'Bruno',
+      'Rodrigo', 'Eduardo', 'Thiago', 'Gustavo', 'André', 'Matheus', 'Leonardo',
+    ],
+    lastNames: [
+      'Silva', 'Santos', 'Oliveira', 'Souza', 'Lima', 'Pereira', 'Costa', 'Ferreira',
+      'Rodrigues', 'Almeida', 'Nascimento', 'Carvalho', 'Fernandes', 'Gomes', 'Martins',
+      'Araújo', 'Ribeiro', 'Melo', 'Barbosa', 'Rocha', 'Cardoso', 'Correia', 'Dias',
+      'Nunes', 'Pinto', 'Moraes', 'Castro', 'Monteiro', 'Teixeira', 'Vieira',
+    ],
+    emailDomains: ['gmail.com', 'hotmail.com', 'yahoo.com.br', 'outlook.com', 'uol.com.br'],
+    cities: ['São Paulo', 'Rio de Janeiro', 'Belo Horizonte', 'Curitiba', 'Porto Alegre', 'Salvador', 'Recife', 'Fortaleza'],
+    phone: () => `(${pick(DDD)}) ${pad(rand(2000, 9999), 4)}-${pad(rand(1000, 9999), 4)}`,
+    mobile: () => `(${pick(DDD)}) 9${pad(rand(10000, 99999), 5)}-${pad(rand(1000, 9999), 4)}`,
+    postalCode: () => `${pad(rand(1000, 99999), 5)}-${pad(rand(0, 999), 3)}`,
+    address: () => `${pick(['Rua', 'Avenida', 'Travessa'])} ${pick(['das Flores', 'Brasil', 'São João', 'Santos Dumont', 'XV de Novembro'])}, ${rand(1, 2999)}`,
+    labels: {
+      nome:          ['Pessoa',   'Nome completo'],
+      primeiro_nome: ['Pessoa',   'Primeiro nome'],
+      sobrenome:     ['Pessoa',   'Sobrenome'],
+      email:         ['Pessoa',   'E-mail'],
+      telefone:      ['Pessoa',   'Telefone fixo'],
+      celular:       ['Pessoa',   'Celular'],
+      endereco:      ['Endereço', 'Logradouro'],
+      cidade:        ['Endereço', 'Cidade'],
+      cep:           ['Endereço', 'CEP'],
+      uuid:          ['Geral',    'UUID'],
+      data:          ['Geral',    'Data (YYYY-MM-DD)'],
+      datetime:      ['Geral',    'Data/hora ISO'],
+      inteiro:       ['Geral',    'Número inteiro'],
+      decimal:       ['Geral',    'Número decimal'],
+    },
+    documents: [
+      { id: 'cpf',      category: 'Pessoa',  label: 'CPF formatado',       generate: genCpf },
+      { id: 'cpf_raw',  category: 'Pessoa',  label: 'CPF sem formatação',  generate: genCpfRaw },
+      { id: 'cnpj',     category: 'Empresa', label: 'CNPJ formatado',      generate: genCnpj },
+      { id: 'cnpj_raw', category: 'Empresa', label: 'CNPJ sem formatação', generate: genCnpjRaw },
+      { id: 'iban',     category: 'Empresa', label: 'IBAN (BR)',           generate: () => iban('BR', digits(23) + 'C1') },
+    ],
+    documentHints: [[/iban/, 'iban'], [/vat|tax_?id/, 'cnpj']],
+  },
+  'en-US': {
+    firstNames: [
+      'James', 'Mary', 'Robert', 'Patricia', 'John', 'Jennifer', 'Michael', 'Linda',
+      'David', 'Elizabeth', 'William', 'Susan', 'Richard', 'Jessica', 'Joseph', 'Sarah',
+    ],
+    lastNames: [
+      'Smith', 'Johnson', 'Williams', 'Brown', 'Jones', 'Garcia', 'Miller', 'Davis',
+      'Rodriguez', 'Martinez', 'Wilson', 'Anderson', 'Taylor', 'Thomas', 'Moore', 'Jackson',
+    ],
+    emailDomains: ['gmail.com', 'yahoo.com', 'outlook.com', 'icloud.com', 'aol.com'],
+    cities: ['New York', 'Los Angeles', 'Chicago', 'Houston', 'Phoenix', 'Seattle', 'Denver', 'Boston'],
+    phone: genUsPhone,
+    mobile: genUsPhone,
+    postalCode: () => pad(rand(501, 99950), 5),
+    address: () => `${rand(1, 9999)} ${pick(['Main', 'Oak', 'Maple', 'Cedar', 'Elm', 'Washington', 'Lake'])} ${pick(['St', 'Ave', 'Blvd', 'Rd', 'Ln'])}`,
+    labels: EN_LABELS,
+    documents: [
+      { id: 'ssn', category: 'Person',  label: 'SSN',                  generate: genSsn },
+      { id: 'ein', category: 'Company', label: 'EIN (tax ID)',         generate: genEin },
+    ],
+    documentHints: [[/ssn|social_?security/, 'ssn'], [/(^|_)ein($|_)|vat|tax_?id/, 'ein']],
+  },
+  'de-DE': {
+    firstNames: [
+      'Anna', 'Lena', 'Laura', 'Julia', 'Sophie', 'Lea', 'Hannah', 'Katharina',
+      'Lukas', 'Leon', 'Felix', 'Jonas', 'Maximilian', 'Paul', 'Tobias', 'Jan',
+    ],
+    lastNames: [
+      'Müller', 'Schmidt', 'Schneider', 'Fischer', 'Weber', 'Meyer', 'Wagner', 'Becker',
+      'Schulz', 'Hoffmann', 'Koch', 'Richter', 'Klein', 'Wolf', 'Schröder', 'Neumann',
+    ],
+    emailDomains: ['gmail.com', 'web.de', 'gmx.de', 't-online.de', 'outlook.de'],
+    cities: ['Berlin', 'Hamburg', 'München', 'Köln', 'Frankfurt am Main', 'Stuttgart', 'Düsseldorf', 'Leipzig'],
+    phone: () => `0${pick(['30', '40', '89', '221', '69', '711'])} ${digits(rand(6, 8))}`,
+    mobile: () => `0${pick(['151', '152', '160', '170', '171', '176'])} ${digits(8)}`,
+    postalCode: () => pad(rand(1067, 99998), 5),
+    address: () => `${pick(['Haupt', 'Bahnhof', 'Garten', 'Schul', 'Berg', 'Linden'])}straße ${rand(1, 199)}`,
+    labels: EN_LABELS,
+    documents: [
+      { id: 'iban', category: 'Person',  label: 'IBAN (DE)',            generate: () => iban('DE', digits(18)) },
+      { id: 'vat',  category: 'Company', label: 'VAT ID (USt-IdNr.)',   generate: genDeVat },
+    ],
+    documentHints: [[/iban/, 'iban'], [/vat|ust_?id|tax_?id|steuer/, 'vat']],
+  },
+};
+
+function plainAscii(s: string): string {
+  return s.toLowerCase().normalize('NFD').replace(/[\u0300-\u036f]/g, '').replace(/ß/g, 'ss');
+}
+
+function sharedGenerators(pack: LocalePack): Record<SharedId, () => string> {
+  return {
+    nome: () => `${pick(pack.firstNames)} ${pick(pack.lastNames)}`,
+    primeiro_nome: () => pick(pack.firstNames),
+    sobrenome: () => pick(pack.lastNames),
+    email: () => `${plainAscii(pick(pack.firstNames))}.${plainAscii(pick(pack.lastNames))}${rand(1, 999)}@${pick(pack.emailDomains)}`,
+    telefone: pack.phone,
+    celular: pack.mobile,
+    endereco: pack.address,
+    cidade: () => pick(pack.cities),
+    cep: pack.postalCode,
+    uuid: genUuid,
+    data: genData,
+    datetime: genDatetime,
+    inteiro: genInteiro,
+    decimal: genDecimal,
+  };
+}
+
+// ── Catalogue ────────────────────────────────────────────────────────────────
+
+const catalogues = new Map<FakerLocale, FakerEntry[]>();
+
+// User-defined generators, plugged in by custom-generators.ts
+let customSource: (locale: FakerLocale) => FakerEntry[] = () => [];
+
+export function setCustomFakerSource(source: (locale: FakerLocale) => FakerEntry[]): void {
+  customSource = source;
+}
+
+function builtinEntries(locale: FakerLocale): FakerEntry[] {
+  const cached = catalogues.get(locale);
+  if (cached) return cached;
+  const pack = PACKS[locale] ?? PACKS[DEFAULT_FAKER_LOCALE];
+  const gens = sharedGenerators(pack);
+  const shared = (Object.keys(gens) as SharedId[]).map((id): FakerEntry => ({
+    id, category: pack.labels[id][0], label: pack.labels[id][1], generate: gens[id],
+  }));
+  const all = [...shared, ...pack.documents];
+  const order = Array.from(new Set(all.map((e) => e.category)));
+  const entries = order.flatMap((cat) => all.filter((e) => e.category === cat));
+  catalogues.set(locale, entries);
+  return entries;
+}
+
+/** The faker entries for a locale, grouped by category (the picker lists them in this order),
+ *  followed by the user's own generators. */
+export function fakerEntries(locale: FakerLocale = DEFAULT_FAKER_LOCALE): FakerEntry[] {
+  return [...builtinEntries(locale), ...customSource(locale)];
+}
+
+/** Whether any locale ships an entry with this id — custom generators can't reuse one. */
+export function isBuiltinFakerId(id: string): boolean {
+  return FAKER_LOCALES.some((l) => builtinEntries(l).some((e) => e.id === id));
+}
+
+/** Look an entry up by id — the locale's own first, then the user's generators, then any other
+ *  locale, so ids saved under one locale (e.g. a "cpf" pattern) keep working under another. */
+export function findFakerEntry(id: string, locale: FakerLocale = DEFAULT_FAKER_LOCALE): FakerEntry | undefined {
+  return builtinEntries(locale).find((e) => e.id === id)
+    ?? customSource(locale).find((e) => e.id === id)
+    ?? FAKER_LOCALES.map((l) => builtinEntries(l).find((e) => e.id === id)).find(Boolean);
+}
 
 /** Auto-suggest a faker value for a form field based on name + schema hints.
  *  Returns null when no heuristic matches. */
@@ -204,19 +443,17 @@ export function suggestFakerForField(
   type: string,
   format?: string,
   enumValues?: string[],
-  customPatterns?: Record<string, string>   // fieldName → FAKER_ENTRIES id
+  patternId?: string,   // faker entry id from the field pattern rule matching this field
+  locale: FakerLocale = DEFAULT_FAKER_LOCALE
 ): string | null {
   if (enumValues?.length) return enumValues[0]!;
 
+  const gen = (id: string) => findFakerEntry(id, locale)?.generate() ?? null;
+
   // User-defined patterns (highest priority after enum)
-  if (customPatterns) {
-    const lower = fieldName.toLowerCase();
-    for (const [pattern, id] of Object.entries(customPatterns)) {
-      if (pattern === fieldName || pattern.toLowerCase() === lower) {
-        const entry = FAKER_ENTRIES.find((e) => e.id === id);
-        if (entry) return entry.generate();
-      }
-    }
+  if (patternId) {
+    const value = gen(patternId);
+    if (value !== null) return value;
   }
 
   const n = fieldName.toLowerCase();
@@ -224,23 +461,38 @@ export function suggestFakerForField(
   // Format-based (authoritative)
   if (format === 'date-time') return genDatetime();
   if (format === 'date')      return genData();
-  if (format === 'email')     return genEmail();
+  if (format === 'email')     return gen('email');
   if (format === 'uuid')      return genUuid();
+  if (format === 'uri' || format === 'url' || format === 'uri-reference') return genUrl();
+  if (format === 'ipv4')      return genIpv4();
+  if (format === 'ipv6')      return genIpv6();
+  if (format === 'hostname')  return genHostname();
+  if (format === 'binary' || type.startsWith('file')) return null; // uploads need a real file path
 
-  // Brazilian documents
+  // Brazilian documents — the field name says which, whatever the locale
   if (n.includes('cpf'))  return (n.includes('raw') || n.includes('sem')) ? genCpfRaw()  : genCpf();
   if (n.includes('cnpj')) return (n.includes('raw') || n.includes('sem')) ? genCnpjRaw() : genCnpj();
-  if (n.includes('cep') || n === 'zip' || n.includes('postal')) return genCep();
+
+  // The locale's documents, then ones only another locale has
+  const pack = PACKS[locale] ?? PACKS[DEFAULT_FAKER_LOCALE];
+  for (const [re, id] of pack.documentHints) if (re.test(n)) return gen(id);
+  if (/ssn|social_?security/.test(n)) return gen('ssn');
+  if (n.includes('iban')) return gen('iban');
+
+  // Address
+  if (n.includes('cep') || n === 'zip' || n.includes('zipcode') || n.includes('postal') || n === 'plz') return gen('cep');
+  if (n.includes('endereco') || n.includes('address') || n.includes('street') || n.includes('strasse') || n.includes('straße') || n === 'rua') return gen('endereco');
+  if (n === 'city' || n === 'cidade' || n === 'stadt' || n.endsWith('_city')) return gen('cidade');
 
   // Contact
-  if (n.includes('email') || n.includes('e-mail')) return genEmail();
-  if (n.includes('celular') || n.includes('mobile') || n.includes('whatsapp')) return genCelular();
-  if (n.includes('telefone') || n.includes('phone') || n.includes('fone'))     return genTelefone();
+  if (n.includes('email') || n.includes('e-mail')) return gen('email');
+  if (n.includes('celular') || n.includes('mobile') || n.includes('whatsapp') || n.includes('handy')) return gen('celular');
+  if (n.includes('telefone') || n.includes('phone') || n.includes('fone') || n.includes('telefon')) return gen('telefone');
 
   // Names
-  if (n === 'nome' || n === 'name' || n === 'fullname' || n === 'full_name' || n.endsWith('_nome') || n.endsWith('_name')) return genNome();
-  if (n.includes('primeiro') || n === 'first_name' || n === 'firstname') return genPrimeiroNome();
-  if (n.includes('sobrenome') || n === 'last_name'  || n === 'lastname')  return genSobrenome();
+  if (n === 'nome' || n === 'name' || n === 'fullname' || n === 'full_name' || n.endsWith('_nome') || n.endsWith('_name')) return gen('nome');
+  if (n.includes('primeiro') || n === 'first_name' || n === 'firstname' || n === 'vorname') return gen('primeiro_nome');
+  if (n.includes('sobrenome') || n === 'last_name'  || n === 'lastname' || n === 'nachname') return gen('sobrenome');
 
   // Dates
   if (n.endsWith('_at') || n.endsWith('date') || n.endsWith('_data') || n === 'data' || n === 'date') {
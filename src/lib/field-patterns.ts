@@ -1,22 +1,123 @@
 import Conf from 'conf';
 
-const store = new Conf<{ patterns: Record<string, string> }>({
+/** A rule assigning a faker entry to the fields it matches. */
+export interface FieldPattern {
+  /** Field name ("documento"), dot-path ("credor.documento") or regex ("/.*Cpf$/i") */
+  match: string;
+  /** Faker entry id (e.g. "cpf_raw") */
+  fakerId: string;
+  /** Only for this operation (endpoint id)… */
+  endpoint?: string;
+  /** …or only for operations with this tag */
+  tag?: string;
+}
+
+export type PatternKind = 'path' | 'name' | 'regex';
+
+/** The field a rule is tested against. */
+export interface PatternTarget {
+  name: string;
+  /** Dot-path in the body ("items.0.sku"); parameters use their name */
+  path: string;
+  endpointId: string;
+  tags: string[];
+}
+
+const store = new Conf<{ patterns: Record<string, string>; rules: FieldPattern[] }>({
   projectName: 'openapicmd-tui',
   configName: 'field-patterns',
-  defaults: { patterns: {} },
+  defaults: { patterns: {}, rules: [] },
 });
 
-/** fieldName → FAKER_ENTRIES id  (e.g. "documentoCredor" → "cpf_raw") */
-export function getFieldPatterns(): Record<string, string> {
-  return store.get('patterns');
+/** All rules, in the order they were defined. Name → id maps from older versions become name rules. */
+export function getFieldPatterns(): FieldPattern[] {
+  const legacy = Object.entries(store.get('patterns'));
+  if (legacy.length === 0) return store.get('rules');
+  const rules = [...store.get('rules'), ...legacy.map(([match, fakerId]) => ({ match, fakerId }))];
+  store.set('rules', rules);
+  store.set('patterns', {});
+  return rules;
+}
+
+export function saveFieldPatterns(rules: FieldPattern[]): void {
+  store.set('rules', rules);
+}
+
+const sameRule = (a: FieldPattern, b: FieldPattern) =>
+  a.match === b.match && a.endpoint === b.endpoint && a.tag === b.tag;
+
+/** Add a rule, replacing one with the same match and scope. */
+export function setFieldPattern(rule: FieldPattern): void {
+  store.set('rules', [...getFieldPatterns().filter((r) => !sameRule(r, rule)), rule]);
+}
+
+export function removeFieldPattern(rule: FieldPattern): void {
+  store.set('rules', getFieldPatterns().filter((r) => !sameRule(r, rule)));
+}
+
+/** "/re/flags" → RegExp; null when `match` isn't a regex or doesn't compile. */
+export function patternRegex(match: string): RegExp | null {
+  const m = /^\/(.+)\/([a-z]*)$/.exec(match);
+  if (!m) return null;
+  try { return new RegExp(m[1]!, m[2]); } catch { return null; }
+}
+
+export function patternKind(match: string): PatternKind {
+  if (/^\/.+\/[a-z]*$/.test(match)) return 'regex';
+  return match.includes('.') ? 'path' : 'name';
+}
+
+export function describeScope(rule: Pick<FieldPattern, 'endpoint' | 'tag'>): string {
+  if (rule.endpoint) return `endpoint ${rule.endpoint}`;
+  if (rule.tag) return `tag ${rule.tag}`;
+  return 'all endpoints';
+}
+
+// Array indices don't take part in path matching — "items.sku" matches "items.3.sku"
+const withoutIndices = (path: string) => path.split('.').filter((s) => !/^\d+$/.test(s)).join('.').toLowerCase();
+
+/** Precedence: endpoint-scoped rules, then tag-scoped, then global; within a scope dot-paths beat
+ *  names and names beat regexes; ties go to the rule defined first. */
+export function rankPatterns(rules: FieldPattern[]): FieldPattern[] {
+  const scope = (r: FieldPattern) => (r.endpoint ? 0 : r.tag ? 1 : 2);
+  const kind = (r: FieldPattern) => ({ path: 0, name: 1, regex: 2 })[patternKind(r.match)];
+  return rules
+    .map((rule, i) => ({ rule, i }))
+    .sort((a, b) => scope(a.rule) - scope(b.rule) || kind(a.rule) - kind(b.rule) || a.i - b.i)
+    .map(({ rule }) => rule);
+}
+
+function appliesTo(rule: FieldPattern, target: PatternTarget): boolean {
+  if (rule.endpoint && rule.endpoint !== target.endpointId) return false;
+  if (rule.tag && !target.tags.includes(rule.tag)) return false;
+  switch (patternKind(rule.match)) {
+    case 'regex': {
+      const re = patternRegex(rule.match);
+      return Boolean(re && (re.test(target.name) || re.test(target.path)));
+    }
+    case 'path': return withoutIndices(rule.match) === withoutIndices(target.path);
+    case 'name': return rule.match.toLowerCase() === target.name.toLowerCase();
+  }
 }
 
-export function setFieldPattern(fieldName: string, fakerId: string): void {
-  store.set('patterns', { ...store.get('patterns'), [fieldName]: fakerId });
+/** The rule that decides a field's faker entry, if any. */
+export function matchFieldPattern(rules: FieldPattern[], target: PatternTarget): FieldPattern | undefined {
+  return rankPatterns(rules).find((rule) => appliesTo(rule, target));
 }
 
-export function removeFieldPattern(fieldName: string): void {
-  const next = { ...store.get('patterns') };
-  delete next[fieldName];
-  store.set('patterns', next);
+/** Problems with edited rules — empty when the list can be saved. */
+export function checkFieldPatterns(list: unknown, knownId: (id: string) => boolean): string[] {
+  if (!Array.isArray(list)) return ['expected a JSON array of rules'];
+  const problems: string[] = [];
+  list.forEach((raw, i) => {
+    const r = raw as Record<string, unknown>;
+    const where = typeof r?.['match'] === 'string' ? `"${r['match']}"` : `#${i + 1}`;
+    if (typeof r?.['match'] !== 'string' || !r['match']) { problems.push(`${where}: match must be a field name, dot-path or /regex/`); return; }
+    if (patternKind(r['match']) === 'regex' && !patternRegex(r['match'])) problems.push(`${where}: invalid regex`);
+    if (typeof r['fakerId'] !== 'string' || !knownId(r['fakerId'])) problems.push(`${where}: unknown faker id ${JSON.stringify(r['fakerId'])}`);
+    if (r['endpoint'] !== undefined && typeof r['endpoint'] !== 'string') problems.push(`${where}: endpoint must be an endpoint id`);
+    if (r['tag'] !== undefined && typeof r['tag'] !== 'string') problems.push(`${where}: tag must be a string`);
+    if (r['endpoint'] && r['tag']) problems.push(`${where}: scope to an endpoint or a tag, not both`);
+  });
+  return problems;
 }
@@ -0,0 +1,143 @@
+import { readFile } from 'node:fs/promises';
+import path from 'node:path';
+import { randomBytes } from 'node:crypto';
+import type { MediaTypeSpec } from '../types/openapi.js';
+
+/** One part of a form body — either a plain value or a file read from disk. */
+export interface FormPart {
+  name: string;
+  value?: string;
+  /** Local file path for binary fields */
+  file?: string;
+  contentType?: string;
+}
+
+export type FormKind = 'multipart' | 'urlencoded';
+
+export function formKind(contentType: string | undefined): FormKind | null {
+  const ct = (contentType ?? '').toLowerCase();
+  if (ct.startsWith('multipart/')) return 'multipart';
+  if (ct.startsWith('application/x-www-form-urlencoded')) return 'urlencoded';
+  return null;
+}
+
+/** `format: binary` (OAS 3) or `type: file` (Swagger 2). */
+export function isBinarySchema(schema: Record<string, unknown> | undefined): boolean {
+  if (!schema) return false;
+  return schema['format'] === 'binary' || schema['type'] === 'file';
+}
+
+const EXT_TYPES: Record<string, string> = {
+  '.json': 'application/json',
+  '.txt': 'text/plain',
+  '.csv': 'text/csv',
+  '.xml': 'application/xml',
+  '.pdf': 'application/pdf',
+  '.png': 'image/png',
+  '.jpg': 'image/jpeg',
+  '.jpeg': 'image/jpeg',
+  '.gif': 'image/gif',
+  '.zip': 'application/zip',
+};
+
+function guessContentType(file: string): string {
+  return EXT_TYPES[path.extname(file).toLowerCase()] ?? 'application/octet-stream';
+}
+
+/** Flatten a body object into form parts, using the schema to spot file fields and
+ *  the OAS 3 `encoding` map for per-part content types. */
+export function toFormParts(
+  body: Record<string, unknown>,
+  media: MediaTypeSpec
+): FormPart[] {
+  const props = (media.schema?.['properties'] as Record<string, Record<string, unknown>> | undefined) ?? {};
+  const parts: FormPart[] = [];
+
+  for (const [name, value] of Object.entries(body)) {
+    if (value === undefined || value === null) continue;
+    const schema = props[name];
+    const items = schema?.['items'] as Record<string, unknown> | undefined;
+    const encodingType = media.encoding?.[name]?.contentType;
+    const values = Array.isArray(value) ? value : [value];
+
+    if (isBinarySchema(schema) || (schema?.['type'] === 'array' && isBinarySchema(items))) {
+      for (const v of values) {
+        if (typeof v !== 'string' || !v.trim()) continue;
+        const file = v.trim().replace(/^@/, '');
+        parts.push({ name, file, contentType: encodingType ?? guessContentType(file) });
+      }
+      continue;
+    }
+
+    if (Array.isArray(value) && !value.some((v) => v !== null && typeof v === 'object')) {
+      // Arrays of primitives repeat the field name
+      for (const v of value) parts.push({ name, value: String(v), contentType: encodingType });
+      continue;
+    }
+
+    if (typeof value === 'object') {
+      // Complex values default to a JSON part
+      parts.push({ name, value: JSON.stringify(value), contentType: encodingType ?? 'application/json' });
+      continue;
+    }
+
+    parts.push({ name, value: String(value), contentType: encodingType });
+  }
+  return parts;
+}
+
+export interface FormPayload {
+  data: Buffer | string;
+  /** Full Content-Type header, including the multipart boundary */
+  contentType: string;
+}
+
+function partHeader(p: FormPart, filename?: string): string {
+  const disp = `Content-Disposition: form-data; name="${p.name.replace(/"/g, '%22')}"`
+    + (filename !== undefined ? `; filename="${filename.replace(/"/g, '%22')}"` : '');
+  return disp + (p.contentType ? `\r\nContent-Type: ${p.contentType}` : '') + '\r\n\r\n';
+}
+
+/** Build the request payload for a form content type. Files are read from disk. */
+export async function buildFormBody(parts: FormPart[], kind: FormKind): Promise<FormPayload> {
+  if (kind === 'urlencoded') {
+    const params = new URLSearchParams();
+    for (const p of parts) params.append(p.name, p.value ?? '');
+    return { data: params.toString(), contentType: 'application/x-www-form-urlencoded' };
+  }
+
+  // Assembled by hand so non-file parts can carry their own Content-Type
+  const boundary = '----openapicmd' + randomBytes(12).toString('hex');
+  const chunks: Buffer[] = [];
+  for (const p of parts) {
+    chunks.push(Buffer.from(`--${boundary}\r\n`));
+    if (p.file !== undefined) {
+      let buf: Buffer;
+      try {
+        buf = await readFile(p.file);
+      } catch (err) {
+        throw new Error(`Cannot read file for "${p.name}": ${err instanceof Error ? err.message : String(err)}`);
+      }
+      chunks.push(Buffer.from(partHeader(p, path.basename(p.file))), buf);
+    } else {
+      chunks.push(Buffer.from(partHeader(p) + (p.value ?? '')));
+    }
+    chunks.push(Buffer.from('\r\n'));
+  }
+  chunks.push(Buffer.from(`--${boundary}--\r\n`));
+  return { data: Buffer.concat(chunks), contentType: `multipart/form-data; boundary=${boundary}` };
+}
+
+/** curl flags matching the body: `-F` for multipart, `--data-urlencode` for urlencoded. */
+export function formCurlFlags(parts: FormPart[], kind: FormKind): string[] {
+  const quote = (s: string) => `'${s.replace(/'/g, `'\\''`)}'`;
+  return parts.map((p) => {
+    if (kind === 'urlencoded') return `--data-urlencode ${quote(`${p.name}=${p.value ?? ''}`)}`;
+    if (p.file !== undefined) {
+      return `-F ${quote(`${p.name}=@${p.file}${p.contentType ? `;type=${p.contentType}` : ''}`)}`;
+    }
+    // curl treats a leading @ or < in -F values as a file reference — --form-string sends it literally
+    const flag = /^[@<]/.test(p.value ?? '') ? '--form-string' : '-F';
+    return `${flag} ${quote(`${p.name}=${p.value ?? ''}${p.contentType && flag === '-F' ? `;type=${p.contentType}` : ''}`)}`;
+  });
+}
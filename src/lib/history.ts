@@ -11,6 +11,8 @@ export interface HistoryEntry {
   values: RequestValues;
   /** Flat dot-notation map of body fields for re-populating individual form inputs */
   bodyFieldValues: Record<string, string>;
+  /** Faker seed the form used — reloading the entry regenerates the same fake data */
+  seed?: number;
   result: {
     status: number;
     statusText: string;
@@ -49,7 +51,8 @@ export function addToHistory(
   path: string,
   envName: string | null,
   values: RequestValues,
-  result: HistoryEntry['result']
+  result: HistoryEntry['result'],
+  seed?: number
 ): void {
   let bodyFieldValues: Record<string, string> = {};
   if (values.body?.trim()) {
@@ -67,6 +70,7 @@ export function addToHistory(
     envName,
     values,
     bodyFieldValues,
+    ...(seed !== undefined ? { seed } : {}),
     result,
   };
 
@@ -86,17 +90,17 @@ export function clearHistory(): void {
   store.set('history', []);
 }
 
-/** Return unique past values for a path or query param on a given endpoint (newest-first). */
+/** Return unique past values for a path, query, header or cookie param on a given endpoint (newest-first). */
 export function getPastParamValues(
   endpointId: string,
-  kind: 'pathParams' | 'queryParams',
+  kind: 'pathParams' | 'queryParams' | 'headerParams' | 'cookieParams',
   paramName: string
 ): string[] {
   const seen = new Set<string>();
   const result: string[] = [];
   for (const entry of getHistory()) {
     if (entry.endpointId !== endpointId) continue;
-    const val = entry.values[kind][paramName];
+    const val = entry.values[kind]?.[paramName];
     if (val && !seen.has(val)) { seen.add(val); result.push(val); }
   }
   return result;
@@ -0,0 +1,189 @@
+import http from 'node:http';
+import { spawn } from 'node:child_process';
+import { randomBytes, createHash } from 'node:crypto';
+import type { AddressInfo } from 'node:net';
+import type { OAuth2Config } from '../types/config.js';
+import { postTokenRequest, resolved, type Interpolate, type OAuthTokenResult } from './oauth.js';
+import { setCachedToken } from './token-cache.js';
+
+export interface AuthorizeOptions {
+  /** Called once the listener is up — show the URL to the user */
+  onAuthorizeUrl?: (url: string) => void;
+  /** Try to open the system browser (default true) */
+  openBrowser?: boolean;
+  /** Give up waiting for the redirect after this long (default 5 minutes) */
+  timeoutMs?: number;
+  signal?: AbortSignal;
+}
+
+export interface PkcePair {
+  verifier: string;
+  challenge: string;
+}
+
+const CALLBACK_PATH = '/callback';
+
+/** RFC 7636 verifier + S256 challenge. */
+export function createPkcePair(): PkcePair {
+  const verifier = randomBytes(32).toString('base64url');
+  const challenge = createHash('sha256').update(verifier).digest('base64url');
+  return { verifier, challenge };
+}
+
+/** Why an authorize URL can't be used — not an http(s) URL, e.g. a {{var}} left unresolved — or null when it can. */
+export function authorizeUrlError(url: string): string | null {
+  try {
+    const { protocol } = new URL(url);
+    if (protocol === 'http:' || protocol === 'https:') return null;
+  } catch { /* reported below */ }
+  return `Authorize URL "${url}" is not a valid http(s) URL`;
+}
+
+export function buildAuthorizeUrl(
+  config: OAuth2Config,
+  redirectUri: string,
+  state: string,
+  challenge: string
+): string {
+  const url = new URL(config.authorizeUrl ?? '');
+  url.searchParams.set('response_type', 'code');
+  url.searchParams.set('client_id', config.clientId);
+  url.searchParams.set('redirect_uri', redirectUri);
+  url.searchParams.set('state', state);
+  url.searchParams.set('code_challenge', challenge);
+  url.searchParams.set('code_challenge_method', 'S256');
+  if (config.scopes?.trim()) url.searchParams.set('scope', config.scopes.trim());
+  if (config.audience?.trim()) url.searchParams.set('audience', config.audience.trim());
+  return url.toString();
+}
+
+/** Best-effort: open a URL in the system browser. Failures are ignored — the URL is shown anyway. */
+function openUrl(url: string): void {
+  const [bin, ...args] =
+    process.platform === 'darwin' ? ['open', url]
+    : process.platform === 'win32' ? ['cmd', '/c', 'start', '', url]
+    : ['xdg-open', url];
+  try {
+    const proc = spawn(bin!, args, { stdio: 'ignore', detached: true });
+    proc.on('error', () => {});
+    proc.unref();
+  } catch {
+    // no browser available
+  }
+}
+
+const HTML_ESCAPES: Record<string, string> = { '&': '&amp;', '<': '&lt;', '>': '&gt;', '"': '&quot;', "'": '&#39;' };
+
+function escapeHtml(text: string): string {
+  return text.replace(/[&<>"']/g, (c) => HTML_ESCAPES[c]!);
+}
+
+/** Callback page — the message can come from the redirect's query string, so it is escaped. */
+function page(title: string, message: string): string {
+  return `<!doctype html><html><body style="font-family:sans-serif;padding:2em"><h2>${escapeHtml(title)}</h2><p>${escapeHtml(message)}</p></body></html>`;
+}
+
+/** Start a loopback listener and resolve with the `code` from the first valid redirect. */
+function waitForCode(
+  port: number,
+  expectedState: string,
+  opts: AuthorizeOptions,
+  onListening: (redirectUri: string) => void
+): Promise<{ code: string; redirectUri: string }> {
+  return new Promise((resolve, reject) => {
+    let redirectUri = '';
+    const server = http.createServer((req, res) => {
+      const url = new URL(req.url ?? '/', redirectUri);
+      if (url.pathname !== CALLBACK_PATH) {
+        res.writeHead(404).end();
+        return;
+      }
+      const error = url.searchParams.get('error');
+      const code = url.searchParams.get('code');
+      res.setHeader('Content-Type', 'text/html; charset=utf-8');
+      if (error) {
+        const desc = url.searchParams.get('error_description');
+        res.writeHead(400).end(page('Authorization failed', desc ?? error));
+        finish(new Error(desc ? `${error}: ${desc}` : error));
+        return;
+      }
+      if (url.searchParams.get('state') !== expectedState) {
+        // Ignore stray or forged redirects and keep waiting
+        res.writeHead(400).end(page('Authorization failed', 'State mismatch — this response was not requested by this session.'));
+        return;
+      }
+      if (!code) {
+        res.writeHead(400).end(page('Authorization failed', 'No code in redirect.'));
+        return;
+      }
+      res.writeHead(200).end(page('Authorized', 'You can close this window and return to the terminal.'));
+      finish(null, code);
+    });
+
+    const timer = setTimeout(() => finish(new Error('Timed out waiting for the authorization redirect')), opts.timeoutMs ?? 300_000);
+    const onAbort = () => finish(new Error('Authorization cancelled'));
+    opts.signal?.addEventListener('abort', onAbort, { once: true });
+
+    let done = false;
+    function finish(err: Error | null, code?: string) {
+      if (done) return;
+      done = true;
+      clearTimeout(timer);
+      opts.signal?.removeEventListener('abort', onAbort);
+      server.close();
+      server.closeAllConnections();
+      if (err) reject(err);
+      else resolve({ code: code!, redirectUri });
+    }
+
+    server.on('error', (err) => finish(err));
+    server.listen(port, '127.0.0.1', () => {
+      const addr = server.address() as AddressInfo;
+      redirectUri = `http://127.0.0.1:${addr.port}${CALLBACK_PATH}`;
+      try {
+        onListening(redirectUri);
+      } catch (err) {
+        finish(err instanceof Error ? err : new Error(String(err)));
+      }
+    });
+  });
+}
+
+/** Run the authorization-code + PKCE flow: listen on 127.0.0.1, send the user to the
+ *  authorize URL, exchange the returned code and cache the tokens for `envName`. */
+export async function authorizeWithPkce(
+  config: OAuth2Config,
+  envName: string,
+  interpolate: Interpolate = (s) => s,
+  opts: AuthorizeOptions = {}
+): Promise<OAuthTokenResult> {
+  const cfg = resolved(config, interpolate);
+  if (!cfg.authorizeUrl) {
+    return { token: null, status: 0, responseBody: null, error: 'No authorize URL configured' };
+  }
+  const urlError = authorizeUrlError(cfg.authorizeUrl);
+  if (urlError) return { token: null, status: 0, responseBody: null, error: urlError };
+  const { verifier, challenge } = createPkcePair();
+  const state = randomBytes(16).toString('base64url');
+
+  let code: string;
+  let redirectUri: string;
+  try {
+    ({ code, redirectUri } = await waitForCode(cfg.redirectPort ?? 0, state, opts, (uri) => {
+      const url = buildAuthorizeUrl(cfg, uri, state, challenge);
+      opts.onAuthorizeUrl?.(url);
+      if (opts.openBrowser ?? true) openUrl(url);
+    }));
+  } catch (err) {
+    return { token: null, status: 0, responseBody: null, error: err instanceof Error ? err.message : String(err) };
+  }
+
+  const result = await postTokenRequest(cfg, {
+    grant_type: 'authorization_code',
+    code,
+    redirect_uri: redirectUri,
+    code_verifier: verifier,
+  });
+  if (result.token) setCachedToken(envName, result.token);
+  return result;
+}
@@ -0,0 +1,144 @@
+import axios, { type AxiosResponse } from 'axios';
+import type { OAuth2Config } from '../types/config.js';
+import { getCachedToken, setCachedToken, isTokenFresh, type CachedToken } from './token-cache.js';
+
+export interface OAuthTokenResult {
+  token: CachedToken | null;
+  status: number;
+  responseBody: unknown;
+  /** error / error_description from the token endpoint, or a network error */
+  error?: string;
+}
+
+export type Interpolate = (s: string) => string;
+
+// Concurrent requests share one in-flight token fetch per environment
+const inflight = new Map<string, Promise<OAuthTokenResult>>();
+
+export function resolved(config: OAuth2Config, interpolate: Interpolate): OAuth2Config {
+  const out = { ...config };
+  for (const key of Object.keys(out) as (keyof OAuth2Config)[]) {
+    const v = out[key];
+    if (typeof v === 'string') (out as Record<string, unknown>)[key] = interpolate(v);
+  }
+  return out;
+}
+
+/** POST to the token endpoint with a form-encoded grant. */
+export async function postTokenRequest(config: OAuth2Config, params: Record<string, string>): Promise<OAuthTokenResult> {
+  const form = new URLSearchParams(params);
+  if (config.scopes?.trim()) form.set('scope', config.scopes.trim());
+  if (config.audience?.trim()) form.set('audience', config.audience.trim());
+
+  const headers: Record<string, string> = {
+    'Content-Type': 'application/x-www-form-urlencoded',
+    Accept: 'application/json',
+  };
+  if ((config.clientAuth ?? 'basic') === 'basic' && config.clientSecret) {
+    const creds = `${encodeURIComponent(config.clientId)}:${encodeURIComponent(config.clientSecret)}`;
+    headers['Authorization'] = 'Basic ' + Buffer.from(creds).toString('base64');
+  } else {
+    form.set('client_id', config.clientId);
+    if (config.clientSecret) form.set('client_secret', config.clientSecret);
+  }
+
+  try {
+    const resp: AxiosResponse = await axios({
+      method: 'post',
+      url: config.tokenUrl,
+      headers,
+      data: form.toString(),
+      timeout: 15000,
+      validateStatus: () => true,
+    });
+    const body = (resp.data && typeof resp.data === 'object' ? resp.data : {}) as Record<string, unknown>;
+    const accessToken = body['access_token'];
+    if (resp.status < 200 || resp.status >= 300 || typeof accessToken !== 'string') {
+      const err = [body['error'], body['error_description']].filter(Boolean).join(': ');
+      return { token: null, status: resp.status, responseBody: resp.data, error: err || `token endpoint returned ${resp.status}` };
+    }
+    const expiresIn = Number(body['expires_in']);
+    return {
+      token: {
+        accessToken,
+        refreshToken: typeof body['refresh_token'] === 'string' ? body['refresh_token'] : undefined,
+        expiresAt: Number.isFinite(expiresIn) && expiresIn > 0 ? Date.now() + expiresIn * 1000 : undefined,
+        scope: typeof body['scope'] === 'string' ? body['scope'] : undefined,
+      },
+      status: resp.status,
+      responseBody: resp.data,
+    };
+  } catch (err) {
+    return { token: null, status: 0, responseBody: null, error: err instanceof Error ? err.message : String(err) };
+  }
+}
+
+function grantParams(config: OAuth2Config): Record<string, string> {
+  switch (config.grantType) {
+    case 'password':
+      return { grant_type: 'password', username: config.username ?? '', password: config.password ?? '' };
+    case 'refresh_token':
+      return { grant_type: 'refresh_token', refresh_token: config.refreshToken ?? '' };
+    default:
+      return { grant_type: 'client_credentials' };
+  }
+}
+
+async function fetchOAuthToken(
+  config: OAuth2Config,
+  envName: string,
+  cached: CachedToken | null
+): Promise<OAuthTokenResult> {
+  // Prefer the refresh token we already hold; fall back to the configured grant
+  if (cached?.refreshToken) {
+    const refreshed = await postTokenRequest(config, { grant_type: 'refresh_token', refresh_token: cached.refreshToken });
+    if (refreshed.token) {
+      // Some issuers don't rotate refresh tokens — keep the old one
+      const token = { ...refreshed.token, refreshToken: refreshed.token.refreshToken ?? cached.refreshToken };
+      setCachedToken(envName, token);
+      return { ...refreshed, token };
+    }
+  }
+  if (config.grantType === 'authorization_code') {
+    // Needs a browser round-trip — only started explicitly from the token provider modal
+    return { token: null, status: 0, responseBody: null, error: 'authorization required — run Authorize from the token provider [t]' };
+  }
+  const result = await postTokenRequest(config, grantParams(config));
+  if (result.token) {
+    // refresh_token grant without rotation — keep using the configured refresh token
+    const refreshToken = result.token.refreshToken ?? (config.grantType === 'refresh_token' ? config.refreshToken : undefined);
+    const token = { ...result.token, refreshToken };
+    setCachedToken(envName, token);
+    return { ...result, token };
+  }
+  return result;
+}
+
+/** Fetch a fresh token regardless of the cache and return debug info. */
+export async function testOAuth2(
+  config: OAuth2Config,
+  envName: string,
+  interpolate: Interpolate = (s) => s
+): Promise<OAuthTokenResult> {
+  return fetchOAuthToken(resolved(config, interpolate), envName, null);
+}
+
+/** Return a usable access token, refreshing proactively when the cached one is about to expire.
+ *  `force` skips the cached access token (used to retry after a 401). */
+export async function getOAuthToken(
+  config: OAuth2Config,
+  envName: string,
+  interpolate: Interpolate = (s) => s,
+  force = false
+): Promise<string | null> {
+  const cached = getCachedToken(envName);
+  if (cached && !force && isTokenFresh(cached)) return cached.accessToken;
+
+  let pending = inflight.get(envName);
+  if (!pending) {
+    pending = fetchOAuthToken(resolved(config, interpolate), envName, cached).finally(() => inflight.delete(envName));
+    inflight.set(envName, pending);
+  }
+  const result = await pending;
+  return result.token?.accessToken ?? null;
+}
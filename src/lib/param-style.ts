@@ -0,0 +1,127 @@
+import type { Parameter } from '../types/openapi.js';
+
+// ── OpenAPI parameter serialization (style / explode) ──
+
+type ParamValue = string | string[] | Record<string, string>;
+
+/** Effective style: the declared one, else the OpenAPI default for the location. */
+export function paramStyle(p: Pick<Parameter, 'in' | 'style'>): string {
+  if (p.style) return p.style;
+  return p.in === 'query' || p.in === 'cookie' ? 'form' : 'simple';
+}
+
+/** Effective explode flag — defaults to true only for `form` style. */
+export function paramExplode(p: Pick<Parameter, 'in' | 'style' | 'explode'>): boolean {
+  return p.explode ?? paramStyle(p) === 'form';
+}
+
+/** How the form edits a param: item rows for arrays, key/value rows for objects, one input otherwise. */
+export function paramKind(p: Pick<Parameter, 'type'> | undefined): 'array' | 'object' | 'primitive' {
+  const t = p?.type.replace('?', '');
+  return t === 'array' ? 'array' : t === 'object' ? 'object' : 'primitive';
+}
+
+/** Item rows of an array param — the form keeps them as a JSON array; any other text is one item. */
+export function paramItems(raw: string): string[] {
+  const trimmed = raw.trim();
+  if (!trimmed) return [];
+  if (trimmed.startsWith('[')) {
+    try {
+      const parsed = JSON.parse(trimmed) as unknown;
+      if (Array.isArray(parsed)) return parsed.map((v) => (v === null ? '' : typeof v === 'object' ? JSON.stringify(v) : String(v)));
+    } catch { /* not JSON — a single item */ }
+  }
+  return [raw];
+}
+
+/** Key/value rows of an object param — the form keeps them as a JSON list of pairs, so a half-typed
+ *  key never merges rows; a JSON object (spec examples, older history) reads too. */
+export function paramEntries(raw: string): [string, string][] {
+  const trimmed = raw.trim();
+  if (!/^[[{]/.test(trimmed)) return [];
+  try {
+    const parsed = JSON.parse(trimmed) as unknown;
+    if (Array.isArray(parsed)) {
+      return parsed.filter(Array.isArray).map(([k, v]: unknown[]) => [String(k ?? ''), String(v ?? '')]);
+    }
+    if (parsed && typeof parsed === 'object') return Object.entries(parsed).map(([k, v]) => [k, String(v)]);
+  } catch { /* not JSON — no entries */ }
+  return [];
+}
+
+/** Form value for item or key/value rows — empty when there are none. */
+export function rowsValue(rows: string[] | [string, string][]): string {
+  return rows.length > 0 ? JSON.stringify(rows) : '';
+}
+
+/** Turn a form value into the shape the parameter declares — blank items and keys are left out. */
+export function parseParamValue(p: Pick<Parameter, 'type'> | undefined, raw: string): ParamValue {
+  const kind = paramKind(p);
+  if (kind === 'primitive') return raw;
+  if (kind === 'array') return paramItems(raw).filter((v) => v !== '');
+  return Object.fromEntries(paramEntries(raw).filter(([k]) => k !== ''));
+}
+
+const enc = encodeURIComponent;
+
+/** Serialize one query param into `name=value` pairs, already percent-encoded. */
+function queryPairs(p: Parameter | undefined, name: string, raw: string): string[] {
+  const value = parseParamValue(p, raw);
+  if (typeof value === 'string') return [`${enc(name)}=${enc(value)}`];
+
+  const style = p ? paramStyle(p) : 'form';
+  const explode = p ? paramExplode(p) : true;
+
+  if (Array.isArray(value)) {
+    if (value.length === 0) return [];
+    if (style === 'form' && explode) return value.map((v) => `${enc(name)}=${enc(v)}`);
+    const sep = style === 'spaceDelimited' ? '%20' : style === 'pipeDelimited' ? '|' : ',';
+    return [`${enc(name)}=${value.map(enc).join(sep)}`];
+  }
+
+  const entries = Object.entries(value);
+  if (entries.length === 0) return [];
+  if (style === 'deepObject') return entries.map(([k, v]) => `${enc(`${name}[${k}]`)}=${enc(v)}`);
+  if (explode) return entries.map(([k, v]) => `${enc(k)}=${enc(v)}`);
+  return [`${enc(name)}=${entries.map(([k, v]) => `${enc(k)},${enc(v)}`).join(',')}`];
+}
+
+/** Build the query string (without "?") for the filled values. Params the operation doesn't
+ *  declare — pagination cursors, security api keys — go out as plain `name=value`. */
+export function serializeQuery(params: Parameter[], values: Record<string, string>): string {
+  const byName = new Map(params.filter((p) => p.in === 'query').map((p) => [p.name, p]));
+  return Object.entries(values)
+    .flatMap(([name, raw]) => queryPairs(byName.get(name), name, raw))
+    .join('&');
+}
+
+/** Serialize a header or cookie param — arrays and objects as comma lists (`simple` / non-exploded `form`), not percent-encoded. */
+export function serializeHeaderParam(p: Parameter | undefined, raw: string): string {
+  const value = parseParamValue(p, raw);
+  if (typeof value === 'string') return value;
+  if (Array.isArray(value)) return value.join(',');
+  const explode = p?.in === 'header' && paramExplode(p);
+  return Object.entries(value).map(([k, v]) => (explode ? `${k}=${v}` : `${k},${v}`)).join(',');
+}
+
+/** Serialize a path param per its style — `simple` (default), `label` or `matrix`. */
+export function serializePathParam(p: Parameter | undefined, name: string, raw: string): string {
+  const value = parseParamValue(p, raw);
+  const style = p ? paramStyle(p) : 'simple';
+  const explode = p ? paramExplode(p) : false;
+  const prefix = style === 'label' ? '.' : style === 'matrix' ? `;${enc(name)}=` : '';
+
+  if (typeof value === 'string') return prefix + enc(value);
+
+  if (Array.isArray(value)) {
+    if (style === 'matrix' && explode) return value.map((v) => `;${enc(name)}=${enc(v)}`).join('');
+    return prefix + value.map(enc).join(style === 'label' && explode ? '.' : ',');
+  }
+
+  const entries = Object.entries(value);
+  if (explode) {
+    if (style === 'matrix') return entries.map(([k, v]) => `;${enc(k)}=${enc(v)}`).join('');
+    return prefix + entries.map(([k, v]) => `${enc(k)}=${enc(v)}`).join(style === 'label' ? '.' : ',');
+  }
+  return prefix + entries.map(([k, v]) => `${enc(k)},${enc(v)}`).join(',');
+}
@@ -1,6 +1,19 @@
 import SwaggerParser from '@apidevtools/swagger-parser';
 import type { OpenAPI, OpenAPIV2, OpenAPIV3, OpenAPIV3_1 } from 'openapi-types';
-import type { Endpoint, Parameter, ParsedSpec, TagGroup, HttpMethod } from '../types/openapi.js';
+import type {
+  Endpoint,
+  Parameter,
+  ParsedSpec,
+  TagGroup,
+  HttpMethod,
+  ResponseSpec,
+  MediaTypeSpec,
+  ServerSpec,
+  SecurityScheme,
+  SecurityRequirement,
+  OAuthFlowSpec,
+} from '../types/openapi.js';
+import { registerSchemaNames } from './schema-variants.js';
 
 type Document = OpenAPI.Document;
 
@@ -12,6 +25,11 @@ function isV3(doc: Document): doc is OpenAPIV3.Document | OpenAPIV3_1.Document {
   return 'openapi' in doc;
 }
 
+/** A param default as the form holds it — arrays and objects as JSON, which the form reads as rows. */
+function defaultText(value: unknown): string {
+  return typeof value === 'object' && value !== null ? JSON.stringify(value) : String(value);
+}
+
 function normalizeParameters(
   params: (OpenAPIV2.Parameter | OpenAPIV3.ParameterObject | OpenAPIV3_1.ParameterObject)[] = []
 ): Parameter[] {
@@ -23,14 +41,14 @@ function normalizeParameters(
       const schema = param['schema'] as Record<string, unknown>;
       type = (schema['type'] as string) ?? 'string';
       if (schema['default'] !== undefined) {
-        defaultValue = String(schema['default']);
+        defaultValue = defaultText(schema['default']);
       }
     } else if (param['type']) {
       type = param['type'] as string;
     }
     // OpenAPI 2.x default at param level
     if (defaultValue === undefined && param['default'] !== undefined) {
-      defaultValue = String(param['default']);
+      defaultValue = defaultText(param['default']);
     }
     return {
       name: param['name'] as string,
@@ -40,40 +58,219 @@ function normalizeParameters(
       description: param['description'] as string | undefined,
       schema: param['schema'] as Record<string, unknown> | undefined,
       default: defaultValue,
+      ...paramSerialization(param),
     };
   });
 }
 
+// Swagger 2 `collectionFormat` → OAS 3 style/explode
+const COLLECTION_FORMATS: Record<string, { style: string; explode: boolean }> = {
+  csv: { style: 'form', explode: false },
+  ssv: { style: 'spaceDelimited', explode: false },
+  pipes: { style: 'pipeDelimited', explode: false },
+  multi: { style: 'form', explode: true },
+};
+
+function paramSerialization(param: Record<string, unknown>): Pick<Parameter, 'style' | 'explode'> {
+  const out: Pick<Parameter, 'style' | 'explode'> = {};
+  if (typeof param['style'] === 'string') out.style = param['style'];
+  if (typeof param['explode'] === 'boolean') out.explode = param['explode'];
+  const cf = COLLECTION_FORMATS[param['collectionFormat'] as string];
+  if (param['type'] === 'array' && param['in'] !== 'path') Object.assign(out, cf ?? COLLECTION_FORMATS['csv']);
+  return out;
+}
+
+function extractServers(raw: OpenAPIV3.ServerObject[] | undefined): ServerSpec[] {
+  return (raw ?? []).map((srv) => ({
+    url: srv.url,
+    description: srv.description,
+    variables: Object.fromEntries(
+      Object.entries(srv.variables ?? {}).map(([name, v]) => [
+        name,
+        { default: String(v.default), enum: v.enum?.map(String), description: v.description },
+      ])
+    ),
+  }));
+}
+
+/** Swagger 2 `formData` params → an object schema, the way OAS 3 describes form bodies. */
+function formDataSchema(params: Record<string, unknown>[]): Record<string, unknown> {
+  const properties: Record<string, unknown> = {};
+  const required: string[] = [];
+  for (const p of params) {
+    const { name, in: _in, required: isRequired, type, ...rest } = p;
+    // `type: file` becomes the OAS 3 equivalent so the form and executor only check one shape
+    properties[name as string] = type === 'file' ? { ...rest, type: 'string', format: 'binary' } : { ...rest, type };
+    if (isRequired) required.push(name as string);
+  }
+  return { type: 'object', properties, ...(required.length ? { required } : {}) };
+}
+
+/** `example`, else the first named entry of `examples` (OAS 3 Example Objects carry a `value`). */
+function mediaExample(m: Record<string, unknown> | undefined): unknown {
+  if (m?.['example'] !== undefined) return m['example'];
+  const first = Object.values((m?.['examples'] as Record<string, Record<string, unknown>> | undefined) ?? {})[0];
+  return first?.['value'];
+}
+
 function extractRequestBody(
-  operation: Record<string, unknown>
+  operation: Record<string, unknown>,
+  defaultConsumes: string[] = []
 ): Endpoint['requestBody'] | undefined {
   // OpenAPI 3.x
   if (operation['requestBody']) {
     const rb = operation['requestBody'] as Record<string, unknown>;
-    const content = (rb['content'] as Record<string, unknown>) ?? {};
-    const contentType = Object.keys(content)[0] ?? 'application/json';
-    const schema = content[contentType]
-      ? ((content[contentType] as Record<string, unknown>)['schema'] as Record<string, unknown>)
-      : undefined;
+    const content = (rb['content'] as Record<string, Record<string, unknown>>) ?? {};
+    const media: MediaTypeSpec[] = Object.entries(content).map(([contentType, m]) => {
+      const example = mediaExample(m);
+      return {
+        contentType,
+        schema: m?.['schema'] as Record<string, unknown> | undefined,
+        ...(m?.['encoding'] ? { encoding: m['encoding'] as MediaTypeSpec['encoding'] } : {}),
+        ...(example !== undefined ? { example } : {}),
+      };
+    });
+    const first = media[0] ?? { contentType: 'application/json' };
     return {
       required: Boolean(rb['required']),
-      contentType,
-      schema,
+      ...first,
+      content: media.length > 0 ? media : [first],
     };
   }
   // OpenAPI 2.x body param
   const params = (operation['parameters'] as Record<string, unknown>[]) ?? [];
+  const consumes = Array.isArray(operation['consumes']) ? (operation['consumes'] as string[]) : defaultConsumes;
   const bodyParam = params.find((p) => p['in'] === 'body');
   if (bodyParam) {
+    const schema = bodyParam['schema'] as Record<string, unknown> | undefined;
+    // `consumes` lists the alternatives; they all share the one body schema
+    const types = consumes.length > 0 ? consumes : ['application/json'];
+    const contentType = types.find((c) => c.includes('json')) ?? types[0]!;
     return {
       required: Boolean(bodyParam['required']),
-      contentType: 'application/json',
-      schema: bodyParam['schema'] as Record<string, unknown> | undefined,
+      contentType,
+      schema,
+      content: [contentType, ...types.filter((c) => c !== contentType)].map((c) => ({ contentType: c, schema })),
+    };
+  }
+  // OpenAPI 2.x formData params
+  const formParams = params.filter((p) => p['in'] === 'formData');
+  if (formParams.length > 0) {
+    const hasFile = formParams.some((p) => p['type'] === 'file');
+    const contentType = hasFile || consumes.includes('multipart/form-data')
+      ? 'multipart/form-data'
+      : 'application/x-www-form-urlencoded';
+    const schema = formDataSchema(formParams);
+    return {
+      required: formParams.some((p) => Boolean(p['required'])),
+      contentType,
+      schema,
+      content: [{ contentType, schema }],
     };
   }
   return undefined;
 }
 
+function extractResponses(
+  operation: Record<string, unknown>,
+  defaultProduces: string[]
+): ResponseSpec[] {
+  const responses = (operation['responses'] as Record<string, Record<string, unknown>>) ?? {};
+  // OpenAPI 2.x declares response media types once per operation (or globally)
+  const produces = Array.isArray(operation['produces']) ? (operation['produces'] as string[]) : defaultProduces;
+
+  return Object.entries(responses).map(([status, resp]) => {
+    let content: ResponseSpec['content'] = [];
+    if (resp['content'] && typeof resp['content'] === 'object') {
+      content = Object.entries(resp['content'] as Record<string, Record<string, unknown>>).map(([contentType, media]) => ({
+        contentType,
+        schema: media?.['schema'] as Record<string, unknown> | undefined,
+      }));
+    } else if (resp['schema']) {
+      const schema = resp['schema'] as Record<string, unknown>;
+      content = (produces.length > 0 ? produces : ['application/json']).map((contentType) => ({ contentType, schema }));
+    }
+    return {
+      status: /^\dxx$/i.test(status) ? status.toUpperCase() : status,
+      description: resp['description'] as string | undefined,
+      content,
+    };
+  });
+}
+
+// OpenAPI 2.x oauth2 flow names → OpenAPI 3 names
+const V2_FLOW_NAMES: Record<string, string> = {
+  implicit: 'implicit',
+  password: 'password',
+  application: 'clientCredentials',
+  accessCode: 'authorizationCode',
+};
+
+function extractSecuritySchemes(api: Document): SecurityScheme[] {
+  const raw = (isV2(api)
+    ? (api.securityDefinitions ?? {})
+    : ((api as OpenAPIV3.Document).components?.securitySchemes ?? {})) as unknown as Record<string, Record<string, unknown>>;
+
+  return Object.entries(raw).map(([name, def]) => {
+    const type = def['type'] as string;
+    const base = { name, description: def['description'] as string | undefined };
+
+    if (type === 'basic') {
+      // OpenAPI 2.x
+      return { ...base, type: 'http', scheme: 'basic' };
+    }
+    if (type === 'apiKey') {
+      return { ...base, type: 'apiKey', in: def['in'] as SecurityScheme['in'], paramName: def['name'] as string };
+    }
+    if (type === 'http') {
+      return {
+        ...base,
+        type: 'http',
+        scheme: ((def['scheme'] as string) ?? 'bearer').toLowerCase(),
+        bearerFormat: def['bearerFormat'] as string | undefined,
+      };
+    }
+    if (type === 'oauth2') {
+      let flows: Record<string, OAuthFlowSpec> = {};
+      if (def['flows'] && typeof def['flows'] === 'object') {
+        flows = def['flows'] as Record<string, OAuthFlowSpec>;
+      } else if (typeof def['flow'] === 'string') {
+        flows = {
+          [V2_FLOW_NAMES[def['flow']] ?? def['flow']]: {
+            authorizationUrl: def['authorizationUrl'] as string | undefined,
+            tokenUrl: def['tokenUrl'] as string | undefined,
+            scopes: (def['scopes'] as Record<string, string>) ?? {},
+          },
+        };
+      }
+      return { ...base, type: 'oauth2', flows };
+    }
+    if (type === 'openIdConnect') {
+      return { ...base, type: 'openIdConnect', openIdConnectUrl: def['openIdConnectUrl'] as string | undefined };
+    }
+    return { ...base, type: type as SecurityScheme['type'] };
+  });
+}
+
+function resolveSecurity(
+  requirements: Record<string, string[]>[] | undefined,
+  schemes: SecurityScheme[]
+): SecurityRequirement[] {
+  if (!requirements) return [];
+  return requirements.map((req) => {
+    const names = Object.keys(req);
+    // Names without a definition are kept — dropping them would make the requirement read as anonymous
+    const unresolved = names.filter((name) => !schemes.some((s) => s.name === name));
+    return {
+      schemes: names.flatMap((name) => {
+        const scheme = schemes.find((s) => s.name === name);
+        return scheme ? [{ scheme, scopes: req[name] ?? [] }] : [];
+      }),
+      ...(unresolved.length > 0 ? { unresolved } : {}),
+    };
+  });
+}
+
 function buildTagGroups(endpoints: Endpoint[]): TagGroup[] {
   const tagMap = new Map<string, Endpoint[]>();
   for (const ep of endpoints) {
@@ -101,6 +298,10 @@ export async function parseSpec(source: string): Promise<ParsedSpec> {
 
   const endpoints: Endpoint[] = [];
   const paths = api.paths ?? {};
+  const defaultProduces = isV2(api) ? (api.produces ?? []) : [];
+  const defaultConsumes = isV2(api) ? (api.consumes ?? []) : [];
+  const securitySchemes = extractSecuritySchemes(api);
+  const globalSecurity = (api as { security?: Record<string, string[]>[] }).security;
 
   for (const [path, pathItem] of Object.entries(paths)) {
     if (!pathItem) continue;
@@ -125,6 +326,9 @@ export async function parseSpec(source: string): Promise<ParsedSpec> {
       }
 
       const tags = Array.isArray(op['tags']) ? (op['tags'] as string[]) : [];
+      // Operation-level servers replace path-level ones, which replace the document's
+      const serverOverride = (op['servers'] ?? (pathItem as Record<string, unknown>)['servers']) as
+        OpenAPIV3.ServerObject[] | undefined;
 
       endpoints.push({
         id: `${method}:${path}`,
@@ -133,25 +337,39 @@ export async function parseSpec(source: string): Promise<ParsedSpec> {
         summary: op['summary'] as string | undefined,
         description: op['description'] as string | undefined,
         tags,
-        parameters: Array.from(paramMap.values()).filter((p) => (p.in as string) !== 'body'),
-        requestBody: extractRequestBody(op),
+        parameters: Array.from(paramMap.values()).filter((p) => (p.in as string) !== 'body' && (p.in as string) !== 'formData'),
+        requestBody: extractRequestBody(op, defaultConsumes),
         operationId: op['operationId'] as string | undefined,
+        responses: extractResponses(op, defaultProduces),
+        // Operation-level security replaces the global one (an empty array disables auth)
+        security: resolveSecurity(
+          (op['security'] as Record<string, string[]>[] | undefined) ?? globalSecurity,
+          securitySchemes
+        ),
+        ...(serverOverride?.length ? { servers: extractServers(serverOverride) } : {}),
       });
     }
   }
 
+  // Lets the form label oneOf/anyOf branches with their component names
+  registerSchemaNames(
+    isV2(api) ? (api as OpenAPIV2.Document).definitions : (api as OpenAPIV3.Document).components?.schemas
+  );
+
   const info = api.info;
-  let servers: string[] = [];
+  let servers: ServerSpec[] = [];
 
   if (isV2(api)) {
     const v2 = api as OpenAPIV2.Document;
-    const scheme = v2.schemes?.[0] ?? 'https';
     const host = v2.host ?? 'localhost';
     const basePath = v2.basePath ?? '';
-    servers = [`${scheme}://${host}${basePath}`];
+    // One server per declared scheme
+    servers = (v2.schemes?.length ? v2.schemes : ['https']).map((scheme) => ({
+      url: `${scheme}://${host}${basePath}`,
+      variables: {},
+    }));
   } else if (isV3(api)) {
-    const v3 = api as OpenAPIV3.Document;
-    servers = (v3.servers ?? []).map((s) => s.url);
+    servers = extractServers((api as OpenAPIV3.Document).servers);
   }
 
   return {
@@ -159,6 +377,7 @@ export async function parseSpec(source: string): Promise<ParsedSpec> {
     version: info.version,
     description: info.description,
     servers,
+    securitySchemes,
     endpoints,
     tagGroups: buildTagGroups(endpoints),
   };
@@ -0,0 +1,152 @@
+import { rand, pick } from './faker.js';
+
+// ── Strings matching a regular expression ──
+// Supports the subset schema patterns use: literals, escapes (\d \w \s), classes and ranges,
+// groups, alternation and quantifiers. Anchors and word boundaries are ignored; backreferences and lookarounds are not supported.
+
+type Node =
+  | { t: 'chars'; set: string }
+  | { t: 'seq'; items: Node[] }
+  | { t: 'alt'; options: Node[] }
+  | { t: 'repeat'; node: Node; min: number; max: number };
+
+const DIGITS = '0123456789';
+const LOWER = 'abcdefghijklmnopqrstuvwxyz';
+const UPPER = LOWER.toUpperCase();
+const WORD = LOWER + UPPER + DIGITS + '_';
+const SPACE = ' ';
+// Printable ASCII — the universe for `.` and negated classes
+const PRINTABLE = Array.from({ length: 95 }, (_, i) => String.fromCharCode(32 + i)).join('');
+
+// Unbounded quantifiers (*, +, {n,}) stop this many repeats past their minimum
+const OPEN_REPEAT = 3;
+
+function escapeSet(c: string): string {
+  switch (c) {
+    case 'd': return DIGITS;
+    case 'w': return WORD;
+    case 's': return SPACE;
+    case 'D': return without(DIGITS);
+    case 'W': return without(WORD);
+    case 'S': return without(SPACE);
+    case 'n': return '\n';
+    case 't': return '\t';
+    default: return c;
+  }
+}
+
+function without(set: string): string {
+  return [...PRINTABLE].filter((c) => !set.includes(c)).join('');
+}
+
+function parseRegex(src: string): Node {
+  let i = 0;
+
+  function alternation(): Node {
+    const options = [sequence()];
+    while (src[i] === '|') {
+      i++;
+      options.push(sequence());
+    }
+    return options.length === 1 ? options[0]! : { t: 'alt', options };
+  }
+
+  function sequence(): Node {
+    const items: Node[] = [];
+    while (i < src.length && src[i] !== '|' && src[i] !== ')') {
+      const a = atom();
+      if (a) items.push(quantified(a));
+    }
+    return { t: 'seq', items };
+  }
+
+  function atom(): Node | null {
+    const c = src[i++]!;
+    if (c === '^' || c === '$') return null;
+    if (c === '.') return { t: 'chars', set: PRINTABLE };
+    if (c === '\\') {
+      const e = src[i++] ?? '\\';
+      return e === 'b' || e === 'B' ? null : { t: 'chars', set: escapeSet(e) };
+    }
+    if (c === '[') return charClass();
+    if (c === '(') {
+      // Non-capturing and named groups generate the same way as plain ones
+      if (src[i] === '?') {
+        const m = /^\?(:|<[^>]+>|P<[^>]+>)/.exec(src.slice(i));
+        if (!m) throw new Error(`Lookarounds are not supported in /${src}/`);
+        i += m[0].length;
+      }
+      const inner = alternation();
+      if (src[i++] !== ')') throw new Error(`Unclosed group in /${src}/`);
+      return inner;
+    }
+    return { t: 'chars', set: c };
+  }
+
+  function charClass(): Node {
+    const negate = src[i] === '^';
+    if (negate) i++;
+    let set = '';
+    let first = true;
+    while (i < src.length && (src[i] !== ']' || first)) {
+      first = false;
+      let c = src[i++]!;
+      if (c === '\\') {
+        const chars = escapeSet(src[i++] ?? '\\');
+        if (chars.length > 1) { set += chars; continue; }
+        c = chars;
+      }
+      if (src[i] === '-' && src[i + 1] !== undefined && src[i + 1] !== ']') {
+        i++;
+        let end = src[i++]!;
+        if (end === '\\') end = escapeSet(src[i++] ?? '\\');
+        for (let code = c.charCodeAt(0); code <= end.charCodeAt(0); code++) set += String.fromCharCode(code);
+      } else {
+        set += c;
+      }
+    }
+    if (src[i++] !== ']') throw new Error(`Unclosed character class in /${src}/`);
+    return { t: 'chars', set: negate ? without(set) : set };
+  }
+
+  function quantified(node: Node): Node {
+    const c = src[i];
+    let min: number;
+    let max: number;
+    if (c === '*') { min = 0; max = OPEN_REPEAT; i++; }
+    else if (c === '+') { min = 1; max = 1 + OPEN_REPEAT; i++; }
+    else if (c === '?') { min = 0; max = 1; i++; }
+    else if (c === '{') {
+      const m = /^\{(\d+)(,(\d*))?\}/.exec(src.slice(i));
+      if (!m) return node;
+      i += m[0].length;
+      min = Number(m[1]);
+      max = m[2] === undefined ? min : m[3] ? Number(m[3]) : min + OPEN_REPEAT;
+    } else {
+      return node;
+    }
+    if (src[i] === '?') i++; // lazy modifier — irrelevant when generating
+    return { t: 'repeat', node, min, max };
+  }
+
+  const node = alternation();
+  if (i < src.length) throw new Error(`Unexpected "${src[i]}" at ${i} in /${src}/`);
+  return node;
+}
+
+function generate(node: Node): string {
+  switch (node.t) {
+    case 'chars': return node.set ? pick([...node.set]) : '';
+    case 'seq': return node.items.map(generate).join('');
+    case 'alt': return generate(pick(node.options));
+    case 'repeat': {
+      const n = rand(node.min, node.max);
+      return Array.from({ length: n }, () => generate(node.node)).join('');
+    }
+  }
+}
+
+/** A random string matching `pattern`. Throws on syntax the generator doesn't support. */
+export function stringFromRegex(pattern: string): string {
+  return generate(parseRegex(pattern));
+}
@@ -0,0 +1,154 @@
+import type { Endpoint, Parameter } from '../types/openapi.js';
+import type { RequestValues } from './executor.js';
+import { selectRequestMedia, unresolvedVariables } from './executor.js';
+import type { FakerLocale } from './faker.js';
+import { parseParamValue } from './param-style.js';
+import { validateSchema, type SchemaViolation, type ViolationKind } from './schema-validator.js';
+
+type Schema = Record<string, unknown>;
+
+export interface RequestViolation extends Omit<SchemaViolation, 'kind'> {
+  /** Form field the violation belongs to — "query:limit", "body:items.0.sku", or "body:" for the body as a whole */
+  field: string;
+  /** Schema violations, plus {{placeholders}} no variable resolves */
+  kind: ViolationKind | 'unresolved';
+}
+
+/** What {{placeholders}} are checked against. */
+export interface PlaceholderCheck {
+  /** Base URL the request goes to — flagged on the "baseUrl" field */
+  baseUrl: string;
+  variables: Record<string, string>;
+  locale?: FakerLocale;
+  /** The environment refuses to send unresolved placeholders — they are errors, not warnings */
+  block: boolean;
+}
+
+export interface RequestValidation {
+  violations: RequestViolation[];
+  errors: number;
+  warnings: number;
+}
+
+// Values still holding {{variables}} are only known at send time
+const hasPlaceholder = (v: unknown) => typeof v === 'string' && v.includes('{{');
+
+/** Coerce a form string to the scalar type a schema declares — left as-is when it doesn't parse,
+ *  so the validator reports the mismatch. */
+function coerceScalar(raw: string, schema: Schema | undefined): unknown {
+  const type = schema?.['type'];
+  const types = Array.isArray(type) ? type as string[] : [type];
+  if (raw === 'null' && (schema?.['nullable'] || types.includes('null'))) return null;
+  if (types.includes('integer') || types.includes('number')) {
+    const n = Number(raw);
+    return raw.trim() === '' || isNaN(n) ? raw : n;
+  }
+  if (types.includes('boolean')) return raw === 'true' ? true : raw === 'false' ? false : raw;
+  return raw;
+}
+
+/** The typed value a parameter's form string stands for. */
+function paramValue(p: Parameter, raw: string): unknown {
+  const schema = p.schema;
+  const value = parseParamValue(p, raw);
+  if (typeof value === 'string') return coerceScalar(value, schema);
+  if (Array.isArray(value)) return value.map((v) => coerceScalar(v, schema?.['items'] as Schema | undefined));
+  const props = (schema?.['properties'] as Record<string, Schema> | undefined) ?? {};
+  return Object.fromEntries(Object.entries(value).map(([k, v]) => [k, coerceScalar(v, props[k])]));
+}
+
+/** "$.items[0]["sku"]" → "items.0.sku" — the form's dot-path for a body value. */
+export function bodyFieldKey(path: string): string {
+  return path
+    .replace(/^\$/, '')
+    .replace(/\[(\d+)\]/g, '.$1')
+    .replace(/\["((?:[^"\\]|\\.)*)"\]/g, '.$1')
+    .replace(/^\./, '');
+}
+
+function valueAt(root: unknown, key: string): unknown {
+  if (!key) return root;
+  let cur = root;
+  for (const part of key.split('.')) {
+    if (cur === null || typeof cur !== 'object') return undefined;
+    cur = (cur as Record<string, unknown>)[part];
+  }
+  return cur;
+}
+
+function paramsOf(values: RequestValues, loc: Parameter['in']): Record<string, string> {
+  if (loc === 'path') return values.pathParams;
+  if (loc === 'query') return values.queryParams;
+  if (loc === 'header') return values.headerParams ?? {};
+  return values.cookieParams ?? {};
+}
+
+/** String leaves of a JSON value by form key — "items.0.sku". */
+function stringLeaves(value: unknown, key: string): [string, string][] {
+  if (typeof value === 'string') return [[key, value]];
+  if (value === null || typeof value !== 'object') return [];
+  return Object.entries(value).flatMap(([k, v]) => stringLeaves(v, key ? `${key}.${k}` : k));
+}
+
+/** {{placeholders}} that would be sent as literal text, per form field. */
+function placeholderViolations(values: RequestValues, check: PlaceholderCheck): RequestViolation[] {
+  const violations: RequestViolation[] = [];
+  const flag = (field: string, path: string, text: string) => {
+    const names = [...new Set(unresolvedVariables(text, check.variables, check.locale))];
+    if (names.length === 0) return;
+    const message = `unresolved ${names.map((n) => `{{${n}}}`).join(', ')}`;
+    violations.push({ field, path, kind: 'unresolved', message, severity: check.block ? 'error' : 'warning' });
+  };
+
+  flag('baseUrl', 'base URL', check.baseUrl);
+  for (const loc of ['path', 'query', 'header', 'cookie'] as const) {
+    for (const [name, raw] of Object.entries(paramsOf(values, loc))) flag(`${loc}:${name}`, name, raw);
+  }
+  flag('headers', 'headers', Object.entries(values.headers).flat().join('\n'));
+  if (values.body.includes('{{')) {
+    let body: unknown;
+    try { body = JSON.parse(values.body); } catch { flag('body:', '$', values.body); }
+    for (const [key, text] of stringLeaves(body, '')) flag(`body:${key}`, `$.${key}`, text);
+  }
+  return violations;
+}
+
+/** Check parameters and the serialized body against the operation's schemas before sending —
+ *  and, given `placeholders`, every field for {{variables}} nothing resolves. */
+export function validateRequest(endpoint: Endpoint, values: RequestValues, placeholders?: PlaceholderCheck): RequestValidation {
+  const violations: RequestViolation[] = placeholders ? placeholderViolations(values, placeholders) : [];
+
+  for (const p of endpoint.parameters) {
+    const field = `${p.in}:${p.name}`;
+    const raw = paramsOf(values, p.in)[p.name] ?? '';
+    if (raw === '') {
+      if (p.required) violations.push({ field, path: p.name, kind: 'missing', message: `required ${p.in} parameter is empty`, severity: 'error' });
+      continue;
+    }
+    if (!p.schema || hasPlaceholder(raw)) continue;
+    for (const v of validateSchema(paramValue(p, raw), p.schema, p.name, 'request')) {
+      violations.push({ ...v, field });
+    }
+  }
+
+  const rb = endpoint.requestBody;
+  const media = selectRequestMedia(endpoint, values.contentType);
+  let body: unknown;
+  if (!values.body.trim()) {
+    // An empty required object body is checked as {} so its required fields get marked
+    if (rb?.required && media?.schema?.['type'] === 'object') body = {};
+    else if (rb?.required) violations.push({ field: 'body:', path: '$', kind: 'missing', message: 'request body is required', severity: 'error' });
+  } else {
+    try { body = JSON.parse(values.body); } catch { /* raw body — nothing to check */ }
+  }
+  if (body !== undefined && media?.schema) {
+    for (const v of validateSchema(body, media.schema, '$', 'request')) {
+      const key = bodyFieldKey(v.path);
+      if (hasPlaceholder(valueAt(body, key))) continue;
+      violations.push({ ...v, field: `body:${key}` });
+    }
+  }
+
+  const errors = violations.filter((v) => v.severity === 'error').length;
+  return { violations, errors, warnings: violations.length - errors };
+}
@@ -0,0 +1,81 @@
+import type { Endpoint, ResponseSpec, RequestResult } from '../types/openapi.js';
+import { validateSchema, type SchemaViolation } from './schema-validator.js';
+
+export interface ResponseValidation {
+  /** The declared response the status was matched against ("200", "2XX", "default") */
+  matchedStatus: string | null;
+  /** Declared media type the body was validated against */
+  matchedContentType: string | null;
+  /** True when the response Content-Type is one of the declared ones (or none are declared) */
+  contentTypeDeclared: boolean;
+  violations: SchemaViolation[];
+  verdict: 'valid' | 'warnings' | 'invalid' | 'undeclared';
+}
+
+/** Pick the declared response for a status: exact code, then range ("4XX"), then "default". */
+export function matchResponseSpec(responses: ResponseSpec[], status: number): ResponseSpec | null {
+  const code = String(status);
+  return responses.find((r) => r.status === code)
+    ?? responses.find((r) => r.status === `${code[0]}XX`)
+    ?? responses.find((r) => r.status === 'default')
+    ?? null;
+}
+
+function mediaMatches(declared: string, actual: string): boolean {
+  const [dType, dSub] = declared.toLowerCase().split('/');
+  const [aType, aSub] = actual.toLowerCase().split(';')[0]!.trim().split('/');
+  return (dType === '*' || dType === aType) && (dSub === '*' || dSub === aSub);
+}
+
+/** Validate a response against the operation's declared responses.
+ *  Returns null when the spec declares no responses at all. */
+export function validateResponse(endpoint: Endpoint, result: RequestResult): ResponseValidation | null {
+  if (result.error || endpoint.responses.length === 0) return null;
+
+  const spec = matchResponseSpec(endpoint.responses, result.status);
+  if (!spec) {
+    return {
+      matchedStatus: null,
+      matchedContentType: null,
+      contentTypeDeclared: false,
+      violations: [{ path: '$', kind: 'variant', message: `status ${result.status} is not declared in the spec`, severity: 'error' }],
+      verdict: 'undeclared',
+    };
+  }
+
+  const actualType = result.headers['content-type'] ?? '';
+  const media = actualType
+    ? spec.content.find((c) => mediaMatches(c.contentType, actualType))
+    : spec.content[0];
+  const contentTypeDeclared = spec.content.length === 0 || Boolean(media);
+
+  const violations: SchemaViolation[] = [];
+  if (!contentTypeDeclared) {
+    violations.push({
+      path: '$',
+      kind: 'type',
+      message: `content type ${actualType.split(';')[0]} not declared (expected ${spec.content.map((c) => c.contentType).join(', ')})`,
+      severity: 'error',
+    });
+  }
+
+  if (media?.schema) {
+    const body = result.body === '' ? undefined : result.body;
+    if (body === undefined || body === null) {
+      if (!media.schema['nullable']) {
+        violations.push({ path: '$', kind: 'missing', message: 'response body is empty', severity: 'error' });
+      }
+    } else {
+      violations.push(...validateSchema(body, media.schema, '$', 'response'));
+    }
+  }
+
+  const hasErrors = violations.some((v) => v.severity === 'error');
+  return {
+    matchedStatus: spec.status,
+    matchedContentType: media?.contentType ?? null,
+    contentTypeDeclared,
+    violations,
+    verdict: hasErrors ? 'invalid' : violations.length > 0 ? 'warnings' : 'valid',
+  };
+}
@@ -1,5 +1,6 @@
 import Conf from 'conf';
 import type { RequestValues } from './executor.js';
+import type { ExtractionRule } from './extraction.js';
 
 export interface SavedRequest {
   id: string;
@@ -10,6 +11,10 @@ export interface SavedRequest {
   envName: string | null;
   values: RequestValues;
   bodyFieldValues: Record<string, string>;
+  /** Faker seed the form used — reloading the request regenerates the same fake data */
+  seed?: number;
+  /** Extraction rules that run after this request, on top of the endpoint's own */
+  extract?: ExtractionRule[];
   savedAt: number;
 }
 
@@ -39,3 +44,7 @@ export function deleteSavedRequest(id: string): void {
 export function renameSavedRequest(id: string, name: string): void {
   store.set('saved', store.get('saved').map((s) => (s.id === id ? { ...s, name } : s)));
 }
+
+export function setSavedRequestExtract(id: string, rules: ExtractionRule[]): void {
+  store.set('saved', store.get('saved').map((s) => (s.id === id ? { ...s, extract: rules.length > 0 ? rules : undefined } : s)));
+}
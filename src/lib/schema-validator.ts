@@ -0,0 +1,173 @@
+// Minimal JSON Schema validator for OpenAPI schemas — no external dependencies.
+// Covers the subset specs actually use: types, nullable, required, properties,
+// additionalProperties, items, enum/const, allOf/oneOf/anyOf and common constraints.
+
+export type ViolationKind = 'missing' | 'type' | 'extra' | 'enum' | 'format' | 'constraint' | 'variant';
+
+export interface SchemaViolation {
+  /** JSON path of the offending value, e.g. "$.items[0].price" */
+  path: string;
+  kind: ViolationKind;
+  message: string;
+  /** Extra properties are only errors when additionalProperties is false */
+  severity: 'error' | 'warning';
+}
+
+type Schema = Record<string, unknown>;
+
+function jsonType(value: unknown): string {
+  if (value === null) return 'null';
+  if (Array.isArray(value)) return 'array';
+  if (typeof value === 'number') return Number.isInteger(value) ? 'integer' : 'number';
+  return typeof value;
+}
+
+function typeMatches(value: unknown, expected: string): boolean {
+  const actual = jsonType(value);
+  if (expected === 'number') return actual === 'number' || actual === 'integer';
+  // Swagger 2 form uploads — the value is a file path
+  if (expected === 'file') return actual === 'string';
+  return actual === expected;
+}
+
+const FORMAT_CHECKS: Record<string, (v: string) => boolean> = {
+  'date': (v) => /^\d{4}-\d{2}-\d{2}$/.test(v) && !isNaN(Date.parse(v)),
+  'date-time': (v) => /^\d{4}-\d{2}-\d{2}[T ]\d{2}:\d{2}(:\d{2}(\.\d+)?)?(Z|[+-]\d{2}:?\d{2})?$/i.test(v),
+  'email': (v) => /^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(v),
+  'uuid': (v) => /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i.test(v),
+  'uri': (v) => { try { new URL(v); return true; } catch { return false; } },
+  'ipv4': (v) => /^(25[0-5]|2[0-4]\d|1?\d?\d)(\.(25[0-5]|2[0-4]\d|1?\d?\d)){3}$/.test(v),
+};
+
+/** Merge allOf branches into a single object schema (properties + required). */
+export function mergeAllOfSchema(schema: Schema): Schema {
+  if (!Array.isArray(schema['allOf'])) return schema;
+  const { allOf, ...rest } = schema;
+  return (allOf as Schema[]).reduce<Schema>((acc, s) => {
+    const merged = mergeAllOfSchema(s);
+    return {
+      ...merged,
+      ...acc,
+      properties: { ...(merged['properties'] as object ?? {}), ...(acc['properties'] as object ?? {}) },
+      required: [...((acc['required'] as string[]) ?? []), ...((merged['required'] as string[]) ?? [])],
+    };
+  }, rest);
+}
+
+function childPath(path: string, key: string | number): string {
+  if (typeof key === 'number') return `${path}[${key}]`;
+  return /^[A-Za-z_$][\w$]*$/.test(key) ? `${path}.${key}` : `${path}["${key}"]`;
+}
+
+/** Validate a value against an OpenAPI schema. Returns an empty array when valid.
+ *  With a direction, required readOnly (request) or writeOnly (response) properties may be absent. */
+export function validateSchema(
+  value: unknown,
+  schema: Schema | undefined,
+  path = '$',
+  direction?: 'request' | 'response'
+): SchemaViolation[] {
+  if (!schema || typeof schema !== 'object') return [];
+  const out: SchemaViolation[] = [];
+  const push = (kind: ViolationKind, message: string, at = path, severity: SchemaViolation['severity'] = 'error') =>
+    out.push({ path: at, kind, message, severity });
+
+  const resolved = mergeAllOfSchema(schema);
+
+  // Nullable: OpenAPI 3.0 `nullable`, 3.1 `type: [..., "null"]`
+  const rawType = resolved['type'];
+  const types = Array.isArray(rawType) ? (rawType as string[]) : typeof rawType === 'string' ? [rawType] : [];
+  const nullable = Boolean(resolved['nullable']) || types.includes('null');
+  if (value === null && nullable) return out;
+
+  // oneOf / anyOf — valid when at least one branch has no errors
+  for (const key of ['oneOf', 'anyOf'] as const) {
+    const variants = resolved[key];
+    if (!Array.isArray(variants)) continue;
+    const results = (variants as Schema[]).map((v) => validateSchema(value, v, path, direction));
+    const passing = results.filter((r) => !r.some((x) => x.severity === 'error'));
+    if (passing.length === 0) {
+      push('variant', `does not match any ${key} variant`);
+    } else if (key === 'oneOf' && passing.length > 1 && !resolved['discriminator']) {
+      push('variant', `matches ${passing.length} oneOf variants (expected exactly one)`, path, 'warning');
+    }
+  }
+
+  if (types.length > 0 && !types.some((t) => typeMatches(value, t))) {
+    push('type', `expected ${types.join(' | ')}, got ${jsonType(value)}`);
+    return out;
+  }
+
+  if (resolved['const'] !== undefined && JSON.stringify(resolved['const']) !== JSON.stringify(value)) {
+    push('enum', `must equal ${JSON.stringify(resolved['const'])}`);
+  }
+  if (Array.isArray(resolved['enum']) && !(resolved['enum'] as unknown[]).some((e) => JSON.stringify(e) === JSON.stringify(value))) {
+    push('enum', `must be one of ${(resolved['enum'] as unknown[]).map((e) => JSON.stringify(e)).join(', ')}`);
+  }
+
+  if (typeof value === 'string') {
+    const minLength = resolved['minLength'] as number | undefined;
+    const maxLength = resolved['maxLength'] as number | undefined;
+    if (minLength !== undefined && value.length < minLength) push('constraint', `length ${value.length} < minLength ${minLength}`);
+    if (maxLength !== undefined && value.length > maxLength) push('constraint', `length ${value.length} > maxLength ${maxLength}`);
+    if (typeof resolved['pattern'] === 'string') {
+      try {
+        if (!new RegExp(resolved['pattern']).test(value)) push('constraint', `does not match pattern ${resolved['pattern']}`);
+      } catch { /* invalid pattern in spec — ignore */ }
+    }
+    const format = resolved['format'] as string | undefined;
+    const check = format ? FORMAT_CHECKS[format] : undefined;
+    if (check && !check(value)) push('format', `not a valid ${format}`);
+  }
+
+  if (typeof value === 'number') {
+    const min = resolved['minimum'] as number | undefined;
+    const max = resolved['maximum'] as number | undefined;
+    const exMin = resolved['exclusiveMinimum'];
+    const exMax = resolved['exclusiveMaximum'];
+    // exclusiveMinimum is a boolean modifier in 3.0 and a number in 3.1
+    if (typeof exMin === 'number' && value <= exMin) push('constraint', `must be > ${exMin}`);
+    if (typeof exMax === 'number' && value >= exMax) push('constraint', `must be < ${exMax}`);
+    if (min !== undefined && (exMin === true ? value <= min : value < min)) push('constraint', `must be ${exMin === true ? '>' : '>='} ${min}`);
+    if (max !== undefined && (exMax === true ? value >= max : value > max)) push('constraint', `must be ${exMax === true ? '<' : '<='} ${max}`);
+    const multipleOf = resolved['multipleOf'] as number | undefined;
+    if (multipleOf && Math.abs(value / multipleOf - Math.round(value / multipleOf)) > 1e-9) {
+      push('constraint', `must be a multiple of ${multipleOf}`);
+    }
+  }
+
+  if (Array.isArray(value)) {
+    const minItems = resolved['minItems'] as number | undefined;
+    const maxItems = resolved['maxItems'] as number | undefined;
+    if (minItems !== undefined && value.length < minItems) push('constraint', `${value.length} items < minItems ${minItems}`);
+    if (maxItems !== undefined && value.length > maxItems) push('constraint', `${value.length} items > maxItems ${maxItems}`);
+    if (resolved['uniqueItems'] === true && new Set(value.map((v) => JSON.stringify(v))).size !== value.length) {
+      push('constraint', 'items must be unique');
+    }
+    const items = resolved['items'] as Schema | undefined;
+    if (items) value.forEach((item, i) => out.push(...validateSchema(item, items, childPath(path, i), direction)));
+  }
+
+  if (jsonType(value) === 'object') {
+    const obj = value as Record<string, unknown>;
+    const properties = (resolved['properties'] as Record<string, Schema>) ?? {};
+    const skipped = direction === 'request' ? 'readOnly' : direction === 'response' ? 'writeOnly' : null;
+    for (const req of (resolved['required'] as string[]) ?? []) {
+      if (skipped && properties[req]?.[skipped] === true) continue;
+      if (obj[req] === undefined) push('missing', `required property "${req}" is missing`, childPath(path, req));
+    }
+    const additional = resolved['additionalProperties'];
+    for (const [k, v] of Object.entries(obj)) {
+      const propSchema = properties[k];
+      if (propSchema) {
+        out.push(...validateSchema(v, propSchema, childPath(path, k), direction));
+      } else if (additional && typeof additional === 'object') {
+        out.push(...validateSchema(v, additional as Schema, childPath(path, k), direction));
+      } else if (additional !== true && Object.keys(properties).length > 0) {
+        push('extra', `unexpected property "${k}"`, childPath(path, k), additional === false ? 'error' : 'warning');
+      }
+    }
+  }
+
+  return out;
+}
@@ -0,0 +1,94 @@
+// ── oneOf / anyOf variants, labelled via discriminator mapping or component names ──
+
+type Schema = Record<string, unknown>;
+
+export interface SchemaVariant {
+  label: string;
+  schema: Schema;
+  /** Value the discriminator property takes for this variant */
+  discriminatorValue?: string;
+}
+
+export interface SchemaVariants {
+  kind: 'oneOf' | 'anyOf';
+  /** discriminator.propertyName, when declared */
+  discriminator?: string;
+  options: SchemaVariant[];
+}
+
+// The parser dereferences $refs, so component names are recovered by object identity
+const schemaNames = new WeakMap<object, string>();
+
+/** Remember component schema names (OAS 3 components.schemas / Swagger 2 definitions). */
+export function registerSchemaNames(schemas: Record<string, unknown> | undefined): void {
+  for (const [name, schema] of Object.entries(schemas ?? {})) {
+    if (schema && typeof schema === 'object') schemaNames.set(schema, name);
+  }
+}
+
+export function schemaName(schema: Schema): string | undefined {
+  return schemaNames.get(schema);
+}
+
+/** Properties declared directly or through allOf. */
+function allProperties(schema: Schema): Record<string, Schema> {
+  const own = (schema['properties'] as Record<string, Schema> | undefined) ?? {};
+  const parts = (schema['allOf'] as Schema[] | undefined) ?? [];
+  return Object.assign({}, ...parts.map(allProperties), own) as Record<string, Schema>;
+}
+
+/** Single-value enum / const on the discriminator property — the variant's implied value. */
+function impliedValue(schema: Schema, prop: string): string | undefined {
+  const p = allProperties(schema)[prop];
+  if (!p) return undefined;
+  if (p['const'] !== undefined) return String(p['const']);
+  const en = p['enum'] as unknown[] | undefined;
+  return en?.length === 1 ? String(en[0]) : undefined;
+}
+
+/** Variants of a polymorphic schema — null unless it has at least two non-null branches
+ *  (a `oneOf: [X, null]` is just a nullable X). */
+export function schemaVariants(schema: Schema): SchemaVariants | null {
+  const kind = schema['oneOf'] ? 'oneOf' : schema['anyOf'] ? 'anyOf' : null;
+  if (!kind) return null;
+  const branches = (schema[kind] as Schema[]).filter((b) => b['type'] !== 'null');
+  if (branches.length < 2) return null;
+
+  const disc = schema['discriminator'] as { propertyName?: string; mapping?: Record<string, string> } | undefined;
+  const prop = disc?.propertyName;
+  // mapping: { cat: '#/components/schemas/Cat' } → Cat → 'cat'
+  const valueByName = new Map<string, string>();
+  for (const [value, ref] of Object.entries(disc?.mapping ?? {})) valueByName.set(ref.split('/').pop()!, value);
+
+  const options = branches.map((b, i): SchemaVariant => {
+    const name = schemaName(b);
+    const discriminatorValue = prop
+      ? (name && valueByName.get(name)) ?? impliedValue(b, prop) ?? name
+      : undefined;
+    const label = discriminatorValue ?? (b['title'] as string | undefined) ?? name ?? `${b['type'] ?? 'option'} ${i + 1}`;
+    return { label, schema: b, discriminatorValue };
+  });
+  return { kind, discriminator: prop, options };
+}
+
+/** Index of the variant a JSON value most likely belongs to: discriminator match first,
+ *  then the branch whose properties cover the most keys. */
+export function matchVariant(variants: SchemaVariants, value: unknown): number {
+  if (value === null || typeof value !== 'object' || Array.isArray(value)) {
+    const idx = variants.options.findIndex((o) => o.schema['type'] === typeof value);
+    return Math.max(0, idx);
+  }
+  const obj = value as Record<string, unknown>;
+  if (variants.discriminator && obj[variants.discriminator] !== undefined) {
+    const idx = variants.options.findIndex((o) => o.discriminatorValue === String(obj[variants.discriminator!]));
+    if (idx >= 0) return idx;
+  }
+  let best = 0;
+  let bestScore = -1;
+  variants.options.forEach((o, i) => {
+    const props = Object.keys(allProperties(o.schema));
+    const score = Object.keys(obj).filter((k) => props.includes(k)).length;
+    if (score > bestScore) { best = i; bestScore = score; }
+  });
+  return best;
+}
@@ -0,0 +1,249 @@
+import Conf from 'conf';
+import fs from 'node:fs';
+import { createCipheriv, createDecipheriv, randomBytes, scryptSync } from 'node:crypto';
+import type { Environment, SchemeCredential } from '../types/config.js';
+import type { RequestValues } from './executor.js';
+
+// ── Encrypted secrets ──
+// Values marked secret are stored AES-256-GCM encrypted under a key derived from the master passphrase.
+// In memory they are plain once unlocked; while locked they keep their sealed form and are never sent.
+
+/** Shown instead of a secret value. */
+export const MASK = '••••••';
+
+/** Env vars read at startup — a passphrase, or a file whose contents are the key. */
+export const PASSPHRASE_ENV = 'OPENAPICMD_TUI_PASSPHRASE';
+export const KEY_FILE_ENV = 'OPENAPICMD_TUI_KEY_FILE';
+
+const PREFIX = 'enc:v1:';
+// Encrypted with the derived key to tell a wrong passphrase from a right one
+const CHECK = 'openapicmd-tui';
+
+const store = new Conf<{ salt: string; check: string }>({
+  projectName: 'openapicmd-tui',
+  configName: 'secrets',
+  defaults: { salt: '', check: '' },
+});
+
+let key: Buffer | null = null;
+
+function deriveKey(passphrase: string, salt: string): Buffer {
+  return scryptSync(passphrase, Buffer.from(salt, 'base64'), 32);
+}
+
+function encrypt(value: string, k: Buffer): string {
+  const iv = randomBytes(12);
+  const cipher = createCipheriv('aes-256-gcm', k, iv);
+  const data = Buffer.concat([cipher.update(value, 'utf8'), cipher.final()]);
+  return PREFIX + [iv, cipher.getAuthTag(), data].map((b) => b.toString('base64')).join(':');
+}
+
+/** Throws when the key is wrong or the value was tampered with. */
+function decrypt(value: string, k: Buffer): string {
+  const [iv, tag, data] = value.slice(PREFIX.length).split(':').map((s) => Buffer.from(s, 'base64'));
+  const decipher = createDecipheriv('aes-256-gcm', k, iv!);
+  decipher.setAuthTag(tag!);
+  return Buffer.concat([decipher.update(data!), decipher.final()]).toString('utf8');
+}
+
+/** Whether a master passphrase has been set. */
+export function secretsConfigured(): boolean {
+  return Boolean(store.get('salt'));
+}
+
+export function secretsUnlocked(): boolean {
+  return key !== null;
+}
+
+/** Set the master passphrase, replacing the current one — values sealed under the old key must be re-sealed. */
+export function setMasterPassphrase(passphrase: string): void {
+  if (!passphrase) throw new Error('The passphrase cannot be empty');
+  const salt = randomBytes(16).toString('base64');
+  const k = deriveKey(passphrase, salt);
+  store.set({ salt, check: encrypt(CHECK, k) });
+  key = k;
+}
+
+/** Unlock with the master passphrase. Returns false when it's wrong. */
+export function unlockSecrets(passphrase: string): boolean {
+  if (!secretsConfigured()) return false;
+  const k = deriveKey(passphrase, store.get('salt'));
+  try {
+    if (decrypt(store.get('check'), k) !== CHECK) return false;
+  } catch {
+    return false;
+  }
+  key = k;
+  return true;
+}
+
+export function lockSecrets(): void {
+  key = null;
+}
+
+/** Passphrase from OPENAPICMD_TUI_PASSPHRASE, or the contents of OPENAPICMD_TUI_KEY_FILE. */
+export function passphraseFromEnvironment(): string | null {
+  const file = process.env[KEY_FILE_ENV];
+  if (file) {
+    try {
+      return fs.readFileSync(file, 'utf-8').trim() || null;
+    } catch (err) {
+      throw new Error(`Could not read key file "${file}": ${err instanceof Error ? err.message : String(err)}`);
+    }
+  }
+  return process.env[PASSPHRASE_ENV] || null;
+}
+
+/** Unlock from the process environment when a passphrase or key file is given there. */
+export function unlockFromEnvironment(): boolean {
+  const passphrase = secretsConfigured() ? passphraseFromEnvironment() : null;
+  if (!passphrase) return false;
+  if (!unlockSecrets(passphrase)) throw new Error(`Wrong master passphrase in ${process.env[KEY_FILE_ENV] ? KEY_FILE_ENV : PASSPHRASE_ENV}`);
+  return true;
+}
+
+/** Whether a value is still in its stored, encrypted form. */
+export function isSealed(value: string): boolean {
+  return value.startsWith(PREFIX);
+}
+
+/** Encrypt a value for storage. Sealed values pass through, so locked secrets survive a save. */
+export function seal(value: string): string {
+  if (isSealed(value)) return value;
+  if (!secretsConfigured()) throw new Error('Set a master passphrase before storing secrets');
+  if (!key) throw new Error('Secrets are locked — unlock them before saving secret values');
+  return encrypt(value, key);
+}
+
+/** Decrypt a stored value. Stays sealed while locked or when it can't be decrypted. */
+export function unseal(value: string): string {
+  if (!isSealed(value) || !key) return value;
+  try {
+    return decrypt(value, key);
+  } catch {
+    return value;
+  }
+}
+
+/** Seal the named entries of a record. */
+export function sealRecord(record: Record<string, string>, names: string[]): Record<string, string> {
+  return Object.fromEntries(Object.entries(record).map(([k, v]) => [k, names.includes(k) ? seal(v) : v]));
+}
+
+export function unsealRecord(record: Record<string, string>): Record<string, string> {
+  return Object.fromEntries(Object.entries(record).map(([k, v]) => [k, unseal(v)]));
+}
+
+/** OAuth2 client and scheme credential fields that always hold secrets. */
+const OAUTH2_SECRETS = ['clientSecret', 'password', 'refreshToken'] as const;
+const CREDENTIAL_SECRETS = ['value', 'password'] as const;
+
+/** Apply `fn` to the non-empty string fields of `obj` named in `fields`. */
+function mapFields<T extends object>(obj: T, fields: readonly (keyof T)[], fn: (v: string) => string): T {
+  const out = { ...obj };
+  for (const f of fields) {
+    const v = out[f];
+    if (typeof v === 'string' && v) out[f] = fn(v) as T[keyof T];
+  }
+  return out;
+}
+
+function mapCredentials(creds: Record<string, SchemeCredential>, fn: (v: string) => string): Record<string, SchemeCredential> {
+  return Object.fromEntries(Object.entries(creds).map(([name, c]) => [name, mapFields(c, CREDENTIAL_SECRETS, fn)]));
+}
+
+/** The environment as stored — secret headers and variables sealed, and whenever a master passphrase is set,
+ *  the token provider body (it usually carries a password), the OAuth2 client secrets and scheme credentials. */
+export function sealEnvironment(env: Environment): Environment {
+  const names = env.secrets ?? [];
+  const all = secretsConfigured();
+  const provider = env.tokenProvider;
+  return {
+    ...env,
+    headers: sealRecord(env.headers, names),
+    variables: sealRecord(env.variables, names),
+    ...(provider && provider.body.trim() && all ? { tokenProvider: { ...provider, body: seal(provider.body) } } : {}),
+    ...(env.oauth2 && all ? { oauth2: mapFields(env.oauth2, OAUTH2_SECRETS, seal) } : {}),
+    ...(env.credentials && all ? { credentials: mapCredentials(env.credentials, seal) } : {}),
+  };
+}
+
+export function unsealEnvironment(env: Environment): Environment {
+  return {
+    ...env,
+    headers: unsealRecord(env.headers),
+    variables: unsealRecord(env.variables),
+    ...(env.tokenProvider ? { tokenProvider: { ...env.tokenProvider, body: unseal(env.tokenProvider.body) } } : {}),
+    ...(env.oauth2 ? { oauth2: mapFields(env.oauth2, OAUTH2_SECRETS, unseal) } : {}),
+    ...(env.credentials ? { credentials: mapCredentials(env.credentials, unseal) } : {}),
+  };
+}
+
+/** Env secrets a request would send while they're locked — headers, the OAuth2 client,
+ *  and the credentials of the security `schemes` the operation uses. */
+export function lockedSecrets(env: Environment, schemes: string[] = []): string[] {
+  const oauth2 = env.oauth2;
+  return [
+    ...Object.entries(env.headers).filter(([, v]) => isSealed(v)).map(([k]) => k),
+    ...(oauth2 ? OAUTH2_SECRETS.filter((f) => isSealed(oauth2[f] ?? '')).map((f) => `oauth2 ${f}`) : []),
+    ...schemes.filter((s) => CREDENTIAL_SECRETS.some((f) => isSealed(env.credentials?.[s]?.[f] ?? ''))),
+  ];
+}
+
+/** Show a record as JSON with the named values masked. */
+export function maskRecord(record: Record<string, string>, names: string[]): Record<string, string> {
+  return Object.fromEntries(Object.entries(record).map(([k, v]) => [k, names.includes(k) ? MASK : v]));
+}
+
+/** Undo maskRecord after editing — values still masked keep what `previous` holds. */
+export function unmaskRecord(record: Record<string, string>, previous: Record<string, string>): Record<string, string> {
+  return Object.fromEntries(Object.entries(record).map(([k, v]) => [k, v === MASK && k in previous ? previous[k]! : v]));
+}
+
+/** Scheme credentials with their secret fields masked, for editing as JSON. */
+export function maskCredentials(creds: Record<string, SchemeCredential>): Record<string, SchemeCredential> {
+  return mapCredentials(creds, () => MASK);
+}
+
+/** Undo maskCredentials after editing — fields still masked keep what `previous` holds. */
+export function unmaskCredentials(
+  creds: Record<string, SchemeCredential>,
+  previous: Record<string, SchemeCredential>
+): Record<string, SchemeCredential> {
+  return Object.fromEntries(Object.entries(creds).map(([name, c]) => {
+    const out = { ...c };
+    for (const f of CREDENTIAL_SECRETS) {
+      if (out[f] === MASK && previous[name]?.[f] !== undefined) out[f] = previous[name]![f];
+    }
+    return [name, out];
+  }));
+}
+
+/** Replace occurrences of secret values in `text` with `replace(name)`, longest values first.
+ *  Values are matched as written and as escaped inside a JSON string, as they appear in bodies. */
+export function replaceSecrets(text: string, secrets: Record<string, string>, replace: (name: string) => string): string {
+  const entries = Object.entries(secrets)
+    .filter(([, v]) => v !== '')
+    .flatMap(([name, v]): [string, string][] => {
+      const escaped = JSON.stringify(v).slice(1, -1);
+      return escaped === v ? [[name, v]] : [[name, v], [name, escaped]];
+    })
+    .sort(([, a], [, b]) => b.length - a.length);
+  return entries.reduce((t, [name, value]) => t.split(value).join(replace(name)), text);
+}
+
+/** Request values with secret values put back as their {{name}} — what history and saved requests keep. */
+export function redactSecrets(values: RequestValues, secrets: Record<string, string>): RequestValues {
+  if (Object.keys(secrets).length === 0) return values;
+  const r = (s: string) => replaceSecrets(s, secrets, (name) => `{{${name}}}`);
+  const all = (m: Record<string, string>) => Object.fromEntries(Object.entries(m).map(([k, v]) => [k, r(v)]));
+  return {
+    ...values,
+    pathParams: all(values.pathParams),
+    queryParams: all(values.queryParams),
+    headers: all(values.headers),
+    ...(values.headerParams ? { headerParams: all(values.headerParams) } : {}),
+    ...(values.cookieParams ? { cookieParams: all(values.cookieParams) } : {}),
+    body: values.body ? r(values.body) : values.body,
+  };
+}
@@ -0,0 +1,109 @@
+import type { Endpoint, SecurityRequirement, SecurityScheme } from '../types/openapi.js';
+import type { Environment, SchemeCredential } from '../types/config.js';
+
+export interface SecurityResolution {
+  /** The alternative that will be applied — null when none can be satisfied */
+  requirement: SecurityRequirement | null;
+  /** Scheme names lacking credentials (from the first alternative) when nothing is satisfiable */
+  missing: string[];
+  /** Scheme names the first alternative uses that the spec doesn't define, when nothing is satisfiable */
+  unresolved: string[];
+}
+
+export interface AppliedSecurity {
+  headers: Record<string, string>;
+  queryParams: Record<string, string>;
+  cookies: Record<string, string>;
+  /** Scheme names that were injected */
+  applied: string[];
+}
+
+/** Short human label for a scheme, e.g. "http bearer", "apiKey header X-Api-Key". */
+export function describeScheme(scheme: SecurityScheme): string {
+  if (scheme.type === 'apiKey') return `apiKey ${scheme.in ?? 'header'} ${scheme.paramName ?? ''}`.trim();
+  if (scheme.type === 'http') return `http ${scheme.scheme ?? 'bearer'}`;
+  if (scheme.type === 'oauth2') return `oauth2 ${Object.keys(scheme.flows ?? {}).join('/')}`.trim();
+  return scheme.type;
+}
+
+function hasCredential(scheme: SecurityScheme, cred: SchemeCredential | undefined): boolean {
+  if (!cred) return false;
+  if (scheme.type === 'http' && scheme.scheme === 'basic') return Boolean(cred.username);
+  if (scheme.type === 'mutualTLS') return false;
+  return Boolean(cred.value);
+}
+
+/** Pick the first security alternative the environment has credentials for.
+ *  Alternatives that send credentials win over an anonymous `{}` alternative. */
+export function resolveSecurity(endpoint: Endpoint, env: Environment | null): SecurityResolution {
+  if (endpoint.security.length === 0) return { requirement: null, missing: [], unresolved: [] };
+  const creds = env?.credentials ?? {};
+  const satisfied = endpoint.security.filter((req) =>
+    !req.unresolved?.length && req.schemes.every(({ scheme }) => hasCredential(scheme, creds[scheme.name]))
+  );
+  const requirement = satisfied.find((r) => r.schemes.length > 0) ?? satisfied[0] ?? null;
+  if (requirement) return { requirement, missing: [], unresolved: [] };
+  const first = endpoint.security[0]!;
+  return {
+    requirement: null,
+    missing: first.schemes.filter(({ scheme }) => !hasCredential(scheme, creds[scheme.name])).map(({ scheme }) => scheme.name),
+    unresolved: first.unresolved ?? [],
+  };
+}
+
+/** Build the headers/query/cookies for the operation's satisfied security alternative.
+ *  `interpolate` resolves {{vars}} inside stored credentials. */
+export function applySecurity(
+  endpoint: Endpoint,
+  env: Environment | null,
+  interpolate: (s: string) => string = (s) => s
+): AppliedSecurity {
+  const out: AppliedSecurity = { headers: {}, queryParams: {}, cookies: {}, applied: [] };
+  const { requirement } = resolveSecurity(endpoint, env);
+  if (!requirement) return out;
+
+  for (const { scheme } of requirement.schemes) {
+    const cred = env?.credentials?.[scheme.name];
+    if (!cred) continue;
+    const value = interpolate(cred.value ?? '');
+
+    if (scheme.type === 'apiKey' && scheme.paramName) {
+      if (scheme.in === 'query') out.queryParams[scheme.paramName] = value;
+      else if (scheme.in === 'cookie') out.cookies[scheme.paramName] = value;
+      else out.headers[scheme.paramName] = value;
+    } else if (scheme.type === 'http' && scheme.scheme === 'basic') {
+      const user = interpolate(cred.username ?? '');
+      const pass = interpolate(cred.password ?? '');
+      out.headers['Authorization'] = 'Basic ' + Buffer.from(`${user}:${pass}`).toString('base64');
+    } else if (scheme.type === 'http') {
+      const prefix = (scheme.scheme ?? 'bearer').toLowerCase() === 'bearer' ? 'Bearer' : scheme.scheme!;
+      out.headers['Authorization'] = `${prefix} ${value}`;
+    } else {
+      // oauth2 / openIdConnect — stored access token
+      out.headers['Authorization'] = `Bearer ${value}`;
+    }
+    out.applied.push(scheme.name);
+  }
+  return out;
+}
+
+/** Parse a Cookie header value ("a=1; b=2") into a map, decoding values. */
+export function parseCookieHeader(header: string): Record<string, string> {
+  const out: Record<string, string> = {};
+  for (const pair of header.split(';')) {
+    const eq = pair.indexOf('=');
+    if (eq <= 0) continue;
+    const raw = pair.slice(eq + 1).trim();
+    let value = raw;
+    try { value = decodeURIComponent(raw); } catch { /* keep raw */ }
+    out[pair.slice(0, eq).trim()] = value;
+  }
+  return out;
+}
+
+/** Serialize a cookie map and merge it into an existing Cookie header value. */
+export function mergeCookies(existing: string | undefined, cookies: Record<string, string>): string {
+  const parts = existing?.trim() ? [existing.trim()] : [];
+  for (const [k, v] of Object.entries(cookies)) parts.push(`${k}=${encodeURIComponent(v)}`);
+  return parts.join('; ');
+}
@@ -0,0 +1,59 @@
+import type { Endpoint, ServerSpec } from '../types/openapi.js';
+import type { Environment } from '../types/config.js';
+
+/** Default value for every variable the server declares. */
+export function defaultServerVariables(server: ServerSpec): Record<string, string> {
+  return Object.fromEntries(Object.entries(server.variables).map(([name, v]) => [name, v.default]));
+}
+
+/** Substitute {variable} placeholders in a server URL. Unknown placeholders fall back to
+ *  the declared default, then stay as-is. */
+export function resolveServerUrl(
+  url: string,
+  values: Record<string, string> = {},
+  server?: ServerSpec
+): string {
+  return url.replace(/\{([^{}]+)\}/g, (match, name: string) =>
+    values[name] ?? server?.variables[name]?.default ?? match
+  );
+}
+
+/** Short label: description when present, else the URL (resolved when given) without its scheme. */
+export function serverLabel(server: ServerSpec | undefined, url = server?.url ?? ''): string {
+  return server?.description || url.replace(/^https?:\/\//, '');
+}
+
+/** True when the spec offers a real choice: several servers or templated ones. */
+export function hasServerChoice(servers: ServerSpec[]): boolean {
+  return servers.length > 1 || servers.some((s) => Object.keys(s.variables).length > 0);
+}
+
+/** Base URL an environment sends to: its pinned server (variables resolved) or its baseUrl.
+ *  `interpolate` resolves {{vars}} inside pinned variable values and the baseUrl. */
+export function envBaseUrl(env: Environment, interpolate: (s: string) => string = (s) => s): string {
+  if (env.server) {
+    const values = Object.fromEntries(
+      Object.entries(env.server.variables).map(([k, v]) => [k, interpolate(v)])
+    );
+    return resolveServerUrl(env.server.url, values);
+  }
+  return interpolate(env.baseUrl);
+}
+
+/** Base URL from the operation's own `servers` override, or null when it has none.
+ *  Relative override URLs (e.g. "/upload") resolve against the default base URL. */
+export function operationServerUrl(
+  endpoint: Endpoint,
+  defaultBaseUrl: string,
+  values: Record<string, string> = {}
+): string | null {
+  const server = endpoint.servers?.[0];
+  if (!server) return null;
+  const url = resolveServerUrl(server.url, values, server);
+  if (/^[a-z][a-z0-9+.-]*:\/\//i.test(url)) return url;
+  try {
+    return new URL(url, defaultBaseUrl).toString().replace(/\/$/, '');
+  } catch {
+    return url;
+  }
+}
@@ -0,0 +1,55 @@
+// ── In-memory token cache, one entry per environment (cleared on env change or manual clear) ──
+
+export interface CachedToken {
+  accessToken: string;
+  refreshToken?: string;
+  /** Epoch ms — undefined when the issuer didn't say (endpoint-based providers) */
+  expiresAt?: number;
+  /** Scope actually granted, when the issuer echoes it */
+  scope?: string;
+}
+
+/** Refresh this long before the token actually expires */
+export const EXPIRY_SKEW_MS = 30_000;
+
+const tokenCache = new Map<string, CachedToken>();
+
+export function getCachedToken(envName: string): CachedToken | null {
+  return tokenCache.get(envName) ?? null;
+}
+
+export function setCachedToken(envName: string, token: CachedToken): void {
+  tokenCache.set(envName, token);
+}
+
+export function clearTokenCache(envName: string): void {
+  tokenCache.delete(envName);
+}
+
+/** True when the token is usable for at least EXPIRY_SKEW_MS more. */
+export function isTokenFresh(token: CachedToken, now = Date.now()): boolean {
+  return token.expiresAt === undefined || token.expiresAt - now > EXPIRY_SKEW_MS;
+}
+
+export function hasTokenCached(envName: string): boolean {
+  const cached = tokenCache.get(envName);
+  return Boolean(cached && (cached.expiresAt === undefined || cached.expiresAt > Date.now()));
+}
+
+/** Milliseconds until the cached token expires; null when nothing is cached or expiry is unknown. */
+export function tokenTimeToExpiry(envName: string): number | null {
+  const cached = tokenCache.get(envName);
+  if (!cached || cached.expiresAt === undefined) return null;
+  return cached.expiresAt - Date.now();
+}
+
+/** "42s", "12m", "3h05m" */
+export function formatTimeToExpiry(ms: number): string {
+  if (ms <= 0) return 'expired';
+  const sec = Math.floor(ms / 1000);
+  if (sec < 60) return `${sec}s`;
+  const min = Math.floor(sec / 60);
+  if (min < 60) return `${min}m`;
+  const h = Math.floor(min / 60);
+  return `${h}h${String(min % 60).padStart(2, '0')}m`;
+}
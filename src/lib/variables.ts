@@ -0,0 +1,172 @@
+import Conf from 'conf';
+import type { Environment } from '../types/config.js';
+import { isSealed, MASK, replaceSecrets, sealRecord, unsealRecord } from './secrets.js';
+
+// ── Layered {{variable}} scopes ──
+// global < spec < env < request — a name defined in a later scope overrides the earlier ones
+
+export type VariableScope = 'global' | 'spec' | 'env' | 'request';
+
+/** A variable as the request sees it. */
+export interface ScopedVariable {
+  name: string;
+  /** Scope the value comes from */
+  scope: VariableScope;
+  /** Value as defined, references unresolved */
+  raw: string;
+  /** Value with {{references}} to other variables resolved */
+  value: string;
+  /** Lower scopes that also define the name */
+  shadows: VariableScope[];
+  /** "a → b → a" when the value references itself, directly or through others */
+  cycle?: string;
+  /** Stored encrypted — masked wherever it's shown */
+  secret?: boolean;
+  /** Secret that can't be read until the master passphrase is given */
+  locked?: boolean;
+}
+
+/** Every global and spec variable, with the names kept secret in each. */
+export interface VariableScopes {
+  global: Record<string, string>;
+  specs: Record<string, Record<string, string>>;
+  secrets: { global: string[]; specs: Record<string, string[]> };
+}
+
+const store = new Conf<VariableScopes>({
+  projectName: 'openapicmd-tui',
+  configName: 'variables',
+  defaults: { global: {}, specs: {}, secrets: { global: [], specs: {} } },
+});
+
+const REFERENCE = /\{\{(\w+)\}\}/g;
+
+// Spec scope variables are keyed by the loaded spec's source (path or URL)
+let specSource: string | null = null;
+
+export function setActiveSpec(source: string | null): void {
+  specSource = source;
+}
+
+export function activeSpec(): string | null {
+  return specSource;
+}
+
+export function getGlobalVariables(): Record<string, string> {
+  return unsealRecord(store.get('global'));
+}
+
+export function getSpecVariables(source = specSource): Record<string, string> {
+  return source ? unsealRecord(store.get('specs')[source] ?? {}) : {};
+}
+
+/** Names kept secret in the global scope, or the active spec's. */
+export function secretNames(scope: 'global' | 'spec'): string[] {
+  const secrets = store.get('secrets');
+  if (scope === 'global') return secrets.global;
+  return specSource ? secrets.specs[specSource] ?? [] : [];
+}
+
+/** Save the global scope, or the active spec's. Secret names are sealed on the way to disk. */
+export function saveScopeVariables(scope: 'global' | 'spec', variables: Record<string, string>, secrets = secretNames(scope)): void {
+  const names = secrets.filter((n) => n in variables);
+  const sealed = sealRecord(variables, names);
+  if (scope === 'global') {
+    store.set('global', sealed);
+    store.set('secrets.global', names);
+    return;
+  }
+  if (!specSource) throw new Error('No spec loaded');
+  const specs = { ...store.get('specs') };
+  const specSecrets = { ...store.get('secrets').specs };
+  if (Object.keys(variables).length > 0) specs[specSource] = sealed;
+  else delete specs[specSource];
+  if (names.length > 0) specSecrets[specSource] = names;
+  else delete specSecrets[specSource];
+  store.set('specs', specs);
+  store.set('secrets.specs', specSecrets);
+}
+
+/** All global and spec scopes, secrets unsealed — to re-seal them under a new passphrase. */
+export function readVariableScopes(): VariableScopes {
+  return {
+    global: unsealRecord(store.get('global')),
+    specs: Object.fromEntries(Object.entries(store.get('specs')).map(([src, vars]) => [src, unsealRecord(vars)])),
+    secrets: store.get('secrets'),
+  };
+}
+
+export function writeVariableScopes(scopes: VariableScopes): void {
+  store.set({
+    global: sealRecord(scopes.global, scopes.secrets.global),
+    specs: Object.fromEntries(Object.entries(scopes.specs).map(([src, vars]) => [src, sealRecord(vars, scopes.secrets.specs[src] ?? [])])),
+    secrets: scopes.secrets,
+  });
+}
+
+/** Every variable in effect, in definition order, with nested references resolved. */
+export function effectiveVariables(env: Environment | null, requestVars: Record<string, string> = {}): ScopedVariable[] {
+  const layers: [VariableScope, Record<string, string>, string[]][] = [
+    ['global', getGlobalVariables(), secretNames('global')],
+    ['spec', getSpecVariables(), secretNames('spec')],
+    ['env', env?.variables ?? {}, env?.secrets ?? []],
+    ['request', requestVars, []],
+  ];
+  const defined = new Map<string, { raw: string; scope: VariableScope; shadows: VariableScope[]; secret: boolean }>();
+  for (const [scope, vars, secrets] of layers) {
+    for (const [name, raw] of Object.entries(vars)) {
+      const lower = defined.get(name);
+      defined.set(name, { raw, scope, shadows: lower ? [...lower.shadows, lower.scope] : [], secret: secrets.includes(name) });
+    }
+  }
+
+  const resolved = new Map<string, string>();
+  const cycles = new Map<string, string>();
+  const resolve = (name: string, chain: string[]): string => {
+    const done = resolved.get(name);
+    if (done !== undefined) return done;
+    if (chain.includes(name)) {
+      const loop = [...chain.slice(chain.indexOf(name)), name];
+      for (const n of loop) cycles.set(n, loop.join(' → '));
+      return `{{${name}}}`;
+    }
+    const { raw } = defined.get(name)!;
+    const value = raw.replace(REFERENCE, (m, ref: string) => {
+      // Locked secrets resolve to nothing — references to them stay visible
+      if (!defined.has(ref) || isSealed(defined.get(ref)!.raw)) return m;
+      const v = resolve(ref, [...chain, name]);
+      // References to a cyclic variable stay as written
+      return cycles.has(ref) ? m : v;
+    });
+    resolved.set(name, cycles.has(name) ? raw : value);
+    return resolved.get(name)!;
+  };
+
+  return [...defined].map(([name, d]) => {
+    const value = resolve(name, []);
+    const cycle = cycles.get(name);
+    return {
+      name, scope: d.scope, raw: d.raw, value, shadows: d.shadows,
+      ...(cycle ? { cycle } : {}),
+      ...(d.secret ? { secret: true } : {}),
+      ...(isSealed(d.raw) ? { locked: true } : {}),
+    };
+  });
+}
+
+/** Name → resolved value for interpolation. Cyclic variables and locked secrets are left out,
+ *  so they stay visible as {{name}}. */
+export function variableValues(env: Environment | null, requestVars?: Record<string, string>): Record<string, string> {
+  return Object.fromEntries(effectiveVariables(env, requestVars).filter((v) => !v.cycle && !v.locked).map((v) => [v.name, v.value]));
+}
+
+/** Name → value of the secrets in effect — to keep them out of history and saved requests. */
+export function secretValues(env: Environment | null, requestVars?: Record<string, string>): Record<string, string> {
+  return Object.fromEntries(effectiveVariables(env, requestVars).filter((v) => v.secret && !v.locked && !v.cycle).map((v) => [v.name, v.value]));
+}
+
+/** Name → value safe to show — secrets, also inside other variables' values, are masked. */
+export function displayValues(vars: ScopedVariable[]): Record<string, string> {
+  const secrets = Object.fromEntries(vars.filter((v) => v.secret && !v.locked).map((v) => [v.name, v.value]));
+  return Object.fromEntries(vars.map((v) => [v.name, v.secret ? MASK : replaceSecrets(v.value, secrets, () => MASK)]));
+}
@@ -0,0 +1,61 @@
+// ── JSON → XML for application/xml request bodies, honouring the schema's `xml` hints ──
+
+type Schema = Record<string, unknown>;
+
+interface XmlHints {
+  name?: string;
+  attribute?: boolean;
+  wrapped?: boolean;
+}
+
+export function isXmlContentType(contentType: string | undefined): boolean {
+  const ct = (contentType ?? '').toLowerCase();
+  return ct.endsWith('/xml') || ct.endsWith('+xml');
+}
+
+function hints(schema: Schema | undefined): XmlHints {
+  return (schema?.['xml'] as XmlHints | undefined) ?? {};
+}
+
+function escape(s: string): string {
+  return s.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+}
+
+function element(name: string, value: unknown, schema: Schema | undefined, indent: string): string {
+  if (value === undefined) return '';
+  if (value === null) return `${indent}<${name}/>`;
+
+  if (Array.isArray(value)) {
+    const items = schema?.['items'] as Schema | undefined;
+    const itemName = hints(items).name ?? name;
+    if (hints(schema).wrapped) {
+      const inner = value.map((v) => element(itemName, v, items, indent + '  ')).join('\n');
+      return `${indent}<${name}>\n${inner}\n${indent}</${name}>`;
+    }
+    return value.map((v) => element(itemName, v, items, indent)).join('\n');
+  }
+
+  if (typeof value === 'object') {
+    const props = (schema?.['properties'] as Record<string, Schema> | undefined) ?? {};
+    const attrs: string[] = [];
+    const children: string[] = [];
+    for (const [key, v] of Object.entries(value as Record<string, unknown>)) {
+      if (v === undefined) continue;
+      const h = hints(props[key]);
+      const childName = h.name ?? key;
+      if (h.attribute) attrs.push(` ${childName}="${escape(String(v))}"`);
+      else children.push(element(childName, v, props[key], indent + '  '));
+    }
+    const open = `<${name}${attrs.join('')}`;
+    if (children.length === 0) return `${indent}${open}/>`;
+    return `${indent}${open}>\n${children.join('\n')}\n${indent}</${name}>`;
+  }
+
+  return `${indent}<${name}>${escape(String(value))}</${name}>`;
+}
+
+/** Serialize a JSON value as an XML document. The root element comes from `xml.name`, else "root". */
+export function toXml(value: unknown, schema: Schema | undefined): string {
+  const root = hints(schema).name ?? 'root';
+  return '<?xml version="1.0" encoding="UTF-8"?>\n' + element(root, value, schema, '');
+}
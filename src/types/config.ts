@@ -1,3 +1,5 @@
+import type { FakerLocale } from '../lib/faker.js';
+
 export interface TokenProvider {
   /** display reference — "post:/auth/login" */
   endpointId: string;
@@ -15,18 +17,71 @@ export interface TokenProvider {
   prefix: string;
 }
 
+export type OAuth2GrantType = 'client_credentials' | 'password' | 'refresh_token' | 'authorization_code';
+
+/** OAuth2 token-endpoint client. String fields may contain {{variables}}. */
+export interface OAuth2Config {
+  grantType: OAuth2GrantType;
+  tokenUrl: string;
+  clientId: string;
+  clientSecret?: string;
+  /** Space-separated scopes */
+  scopes?: string;
+  audience?: string;
+  /** password grant */
+  username?: string;
+  password?: string;
+  /** refresh_token grant — the long-lived refresh token to start from */
+  refreshToken?: string;
+  /** authorization_code grant — the user is sent here; PKCE (S256) is always used */
+  authorizeUrl?: string;
+  /** Loopback port for the redirect listener on 127.0.0.1, 0 or unset = any free port */
+  redirectPort?: number;
+  /** How client credentials are sent, default "basic" (HTTP Basic header) */
+  clientAuth?: 'basic' | 'body';
+}
+
+/** Credentials for one spec security scheme, keyed by scheme name on the environment */
+export interface SchemeCredential {
+  /** apiKey value, or bearer / OAuth2 access token */
+  value?: string;
+  /** http basic */
+  username?: string;
+  password?: string;
+}
+
+/** A spec server pinned by an environment, with its variable values */
+export interface ServerPin {
+  /** Server URL template as declared in the spec, e.g. https://{region}.api.example.com */
+  url: string;
+  /** Values may contain {{variables}} */
+  variables: Record<string, string>;
+}
+
 export interface Environment {
   name: string;
-  /** Base URL used for all HTTP requests, e.g. https://api.example.com */
+  /** Base URL used for all HTTP requests, e.g. https://api.example.com — ignored when `server` is set */
   baseUrl: string;
+  /** Spec server to use instead of a hard-coded baseUrl */
+  server?: ServerPin;
   /** Optional URL (or path) to load the OpenAPI spec from — can differ from baseUrl */
   specUrl?: string;
   headers: Record<string, string>;
   variables: Record<string, string>;
+  /** Header and variable names stored encrypted — needs a master passphrase, see lib/secrets */
+  secrets?: string[];
   /** Shell command run before each request. stdout must be JSON: {"headers": {...}} */
   preRequestHook?: string;
   /** Endpoint-based token provider configuration */
   tokenProvider?: TokenProvider;
+  /** OAuth2 client — alternative to tokenProvider, injected as "Authorization: Bearer <token>" */
+  oauth2?: OAuth2Config;
+  /** Credentials per spec security scheme name — injected only for operations that require them */
+  credentials?: Record<string, SchemeCredential>;
+  /** Locale for generated fake data (names, phones, postal codes, documents), default pt-BR */
+  fakerLocale?: FakerLocale;
+  /** Refuse to send requests that still hold unresolved {{variables}} — for production environments */
+  blockUnresolved?: boolean;
 }
 
 export interface AppConfig {
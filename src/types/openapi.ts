@@ -1,3 +1,5 @@
+import type { RequestValues } from '../lib/executor.js';
+
 export type HttpMethod = 'get' | 'post' | 'put' | 'patch' | 'delete' | 'head' | 'options' | 'trace';
 
 export interface Parameter {
@@ -8,6 +10,72 @@ export interface Parameter {
   description?: string;
   schema?: Record<string, unknown>;
   default?: string;
+  /** Serialization style (form, spaceDelimited, pipeDelimited, deepObject, simple, label, matrix) — unset means the location's default */
+  style?: string;
+  explode?: boolean;
+}
+
+export interface MediaTypeSpec {
+  contentType: string;
+  schema?: Record<string, unknown>;
+  /** OAS 3 per-property encoding for form bodies, e.g. { avatar: { contentType: 'image/png' } } */
+  encoding?: Record<string, { contentType?: string }>;
+  /** Media-level example — `example`, or the value of the first entry in `examples` */
+  example?: unknown;
+}
+
+export interface ServerVariable {
+  default: string;
+  enum?: string[];
+  description?: string;
+}
+
+export interface ServerSpec {
+  /** May contain {variable} placeholders */
+  url: string;
+  description?: string;
+  variables: Record<string, ServerVariable>;
+}
+
+export interface ResponseSpec {
+  /** Status code as declared in the spec — "200", "4XX" or "default" */
+  status: string;
+  description?: string;
+  content: MediaTypeSpec[];
+}
+
+export type SecuritySchemeType = 'apiKey' | 'http' | 'oauth2' | 'openIdConnect' | 'mutualTLS';
+
+export interface OAuthFlowSpec {
+  authorizationUrl?: string;
+  tokenUrl?: string;
+  refreshUrl?: string;
+  scopes: Record<string, string>;
+}
+
+export interface SecurityScheme {
+  /** Key under components.securitySchemes / securityDefinitions */
+  name: string;
+  type: SecuritySchemeType;
+  description?: string;
+  /** apiKey: where the key is sent */
+  in?: 'header' | 'query' | 'cookie';
+  /** apiKey: header/query/cookie name */
+  paramName?: string;
+  /** http: "basic", "bearer", ... */
+  scheme?: string;
+  bearerFormat?: string;
+  /** oauth2: flows keyed by OpenAPI 3 flow name (clientCredentials, password, authorizationCode, implicit) */
+  flows?: Record<string, OAuthFlowSpec>;
+  openIdConnectUrl?: string;
+}
+
+/** One security alternative — every listed scheme must be satisfied together.
+ *  An alternative with no schemes means anonymous access is allowed. */
+export interface SecurityRequirement {
+  schemes: { scheme: SecurityScheme; scopes: string[] }[];
+  /** Scheme names the spec doesn't define — the requirement can't be satisfied */
+  unresolved?: string[];
 }
 
 export interface Endpoint {
@@ -20,10 +88,19 @@ export interface Endpoint {
   parameters: Parameter[];
   requestBody?: {
     required: boolean;
+    /** Default media type — the first one declared */
     contentType: string;
     schema?: Record<string, unknown>;
+    encoding?: Record<string, { contentType?: string }>;
+    /** Every declared media type, in spec order (includes the default) */
+    content: MediaTypeSpec[];
   };
   operationId?: string;
+  responses: ResponseSpec[];
+  /** Alternatives (OR) — empty when the operation requires no auth */
+  security: SecurityRequirement[];
+  /** Operation- or path-level `servers` override (OAS 3) — unset when the spec-wide servers apply */
+  servers?: ServerSpec[];
 }
 
 export interface TagGroup {
@@ -36,7 +113,8 @@ export interface ParsedSpec {
   title: string;
   version: string;
   description?: string;
-  servers: string[];
+  servers: ServerSpec[];
+  securitySchemes: SecurityScheme[];
   endpoints: Endpoint[];
   tagGroups: TagGroup[];
 }
@@ -49,6 +127,10 @@ export interface RequestResult {
   durationMs: number;
   error?: string;
   curlCommand?: string;
+  /** The values as sent — {{variables}} and {{$dynamic}} placeholders resolved */
+  sentValues?: RequestValues;
   /** Set when the token provider failed to fetch/inject the token */
   tokenError?: string;
+  /** Set when the operation's security names schemes the spec doesn't define — sent without them */
+  securityError?: string;
 }